@@ -6,8 +6,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/context/AuthContext";
 import { PaystackProvider } from "@/context/PaystackContext";
+import { SystemSettingsProvider } from "@/context/SystemSettingsContext";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import MaintenanceBanner from "@/components/MaintenanceBanner";
 
 // Pages
 import Index from "./pages/Index";
@@ -21,9 +23,12 @@ import DataPage from "./pages/DataPage";
 import WalletPage from "./pages/WalletPage";
 import ElectricityPage from "./pages/ElectricityPage";
 import CablePage from "./pages/CablePage";
+import BulkPurchasePage from "./pages/BulkPurchasePage";
+import ScheduledPurchasesPage from "./pages/ScheduledPurchasesPage";
 import AdminUsersPage from "./pages/AdminUsersPage";
 import AdminTransactionsPage from "./pages/AdminTransactionsPage";
 import AdminAPIBalancePage from "./pages/AdminAPIBalancePage";
+import AdminAuditLogPage from "./pages/AdminAuditLogPage";
 import Services from "./pages/Services";
 import Pricing from "./pages/Pricing";
 import About from "./pages/About";
@@ -32,60 +37,72 @@ import Unauthorized from "./pages/Unauthorized";
 import TransactionsPage from "./pages/TransactionsPage";
 import SettingsPage from "./pages/SettingsPage";
 import AdminSettingsPage from "./pages/AdminSettingsPage";
+import TwoFactorSetupPage from "./pages/TwoFactorSetupPage";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <AuthProvider>
-      <PaystackProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              {/* Public Routes */}
-              <Route path="/" element={<Index />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/register" element={<Register />} />
-              <Route path="/services" element={<Services />} />
-              <Route path="/pricing" element={<Pricing />} />
-              <Route path="/about" element={<About />} />
-              <Route path="/contact" element={<Contact />} />
-              <Route path="/unauthorized" element={<Unauthorized />} />
-              
-              {/* Customer Protected Routes - Allow both customer and admin roles */}
-              <Route element={<ProtectedRoute allowedRoles={["customer", "admin"]} />}>
-                <Route element={<DashboardLayout />}>
-                  <Route path="/dashboard" element={<CustomerDashboardPage />} />
-                  <Route path="/dashboard/airtime" element={<AirtimePage />} />
-                  <Route path="/dashboard/data" element={<DataPage />} />
-                  <Route path="/dashboard/wallet" element={<WalletPage />} />
-                  <Route path="/dashboard/electricity" element={<ElectricityPage />} />
-                  <Route path="/dashboard/cable" element={<CablePage />} />
-                  <Route path="/dashboard/transactions" element={<TransactionsPage />} />
-                  <Route path="/dashboard/settings" element={<SettingsPage />} />
+    <SystemSettingsProvider>
+      <AuthProvider>
+        <PaystackProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <MaintenanceBanner />
+              <Routes>
+                {/* Public Routes */}
+                <Route path="/" element={<Index />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/register" element={<Register />} />
+                <Route path="/services" element={<Services />} />
+                <Route path="/pricing" element={<Pricing />} />
+                <Route path="/about" element={<About />} />
+                <Route path="/contact" element={<Contact />} />
+                <Route path="/unauthorized" element={<Unauthorized />} />
+                
+                {/* 2FA setup, which admins are sent to before anything else */}
+                <Route element={<ProtectedRoute allowWithoutTwoFactor />}>
+                  <Route path="/setup-2fa" element={<TwoFactorSetupPage />} />
                 </Route>
-              </Route>
-              
-              {/* Admin Protected Routes */}
-              <Route element={<ProtectedRoute allowedRoles={["admin"]} redirectPath="/unauthorized" />}>
-                <Route element={<DashboardLayout />}>
-                  <Route path="/admin" element={<AdminDashboardPage />} />
-                  <Route path="/admin/users" element={<AdminUsersPage />} />
-                  <Route path="/admin/transactions" element={<AdminTransactionsPage />} />
-                  <Route path="/admin/api-balance" element={<AdminAPIBalancePage />} />
-                  <Route path="/admin/settings" element={<AdminSettingsPage />} />
+                
+                {/* Customer Protected Routes - Allow both customer and admin roles */}
+                <Route element={<ProtectedRoute allowedRoles={["customer", "admin"]} />}>
+                  <Route element={<DashboardLayout />}>
+                    <Route path="/dashboard" element={<CustomerDashboardPage />} />
+                    <Route path="/dashboard/airtime" element={<AirtimePage />} />
+                    <Route path="/dashboard/data" element={<DataPage />} />
+                    <Route path="/dashboard/wallet" element={<WalletPage />} />
+                    <Route path="/dashboard/electricity" element={<ElectricityPage />} />
+                    <Route path="/dashboard/cable" element={<CablePage />} />
+                    <Route path="/dashboard/bulk" element={<BulkPurchasePage />} />
+                    <Route path="/dashboard/schedules" element={<ScheduledPurchasesPage />} />
+                    <Route path="/dashboard/transactions" element={<TransactionsPage />} />
+                    <Route path="/dashboard/settings" element={<SettingsPage />} />
+                  </Route>
                 </Route>
-              </Route>
-              
-              {/* Catch-all route */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
-      </PaystackProvider>
-    </AuthProvider>
+                
+                {/* Admin Protected Routes */}
+                <Route element={<ProtectedRoute allowedRoles={["admin"]} redirectPath="/unauthorized" />}>
+                  <Route element={<DashboardLayout />}>
+                    <Route path="/admin" element={<AdminDashboardPage />} />
+                    <Route path="/admin/users" element={<AdminUsersPage />} />
+                    <Route path="/admin/transactions" element={<AdminTransactionsPage />} />
+                    <Route path="/admin/api-balance" element={<AdminAPIBalancePage />} />
+                    <Route path="/admin/audit-log" element={<AdminAuditLogPage />} />
+                    <Route path="/admin/settings" element={<AdminSettingsPage />} />
+                  </Route>
+                </Route>
+                
+                {/* Catch-all route */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </PaystackProvider>
+      </AuthProvider>
+    </SystemSettingsProvider>
   </QueryClientProvider>
 );
 
@@ -1,15 +1,18 @@
 
 import { Link } from "react-router-dom";
 import { Facebook, Twitter, Instagram, Mail, Phone } from "lucide-react";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
 
 const Footer = () => {
+  const { settings } = useSystemSettings();
+
   return (
     <footer className="bg-white/80 backdrop-blur-md pt-12 pb-8 border-t">
       <div className="container mx-auto px-4">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           <div className="space-y-4">
             <h3 className="text-2xl font-bold bg-gradient-to-r from-primary-purple to-secondary-purple bg-clip-text text-transparent">
-              BigBSubz
+              {settings.site_name}
             </h3>
             <p className="text-gray-600 max-w-xs">
               Your one-stop solution for airtime, data, electricity bills, and cable subscriptions in Nigeria.
@@ -87,7 +90,7 @@ const Footer = () => {
 
         <div className="border-t border-gray-200 mt-10 pt-6">
           <p className="text-center text-gray-500 text-sm">
-            &copy; {new Date().getFullYear()} BigBSubz. All rights reserved.
+            &copy; {new Date().getFullYear()} {settings.site_name}. All rights reserved.
           </p>
         </div>
       </div>
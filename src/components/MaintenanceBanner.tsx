@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
+import { AlertTriangle } from "lucide-react";
+
+const SERVICE_NAMES: Record<string, string> = {
+  airtime: "Airtime purchases",
+  data: "Data purchases",
+  electricity: "Electricity payments",
+  cable: "Cable TV payments",
+  wallet: "Wallet funding",
+};
+
+// Same cadence as the system settings, so the banner appears and clears
+// together with the rest of the site
+const REFRESH_INTERVAL_MS = 60_000;
+
+// Site-wide notice of maintenance, for everyone but admins (who turned it
+// on). The purchase functions refuse with MAINTENANCE regardless.
+const MaintenanceBanner = () => {
+  const { user } = useAuth();
+  const { settings, formatDate } = useSystemSettings();
+  const isAdmin = user?.role === "admin";
+
+  const { data: services } = useQuery({
+    queryKey: ["serviceMaintenance"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("service_maintenance")
+        .select("*")
+        .order("service");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !isAdmin && !settings.maintenance_mode,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  if (isAdmin) {
+    return null;
+  }
+
+  const until = (endsAt: string | null) => endsAt ? ` until ${formatDate(endsAt)}` : "";
+
+  const notices = settings.maintenance_mode
+    ? [{
+        id: "site",
+        text: `${settings.site_name} is under maintenance${until(settings.maintenance_ends_at)}. Purchases and wallet funding are paused.`,
+        message: settings.maintenance_message,
+      }]
+    : (services ?? []).map((entry) => ({
+        id: entry.id,
+        text: `${SERVICE_NAMES[entry.service] ?? entry.service}${entry.provider ? ` for ${entry.provider.toUpperCase()}` : ""} are under maintenance${until(entry.ends_at)}.`,
+        message: entry.message,
+      }));
+
+  if (notices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-100 border-b border-amber-300 text-amber-900" role="status">
+      {notices.map((notice) => (
+        <div key={notice.id} className="container mx-auto px-4 py-2 flex items-start gap-2 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <p>
+            <span className="font-medium">{notice.text}</span>
+            {notice.message && ` ${notice.message}`}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MaintenanceBanner;
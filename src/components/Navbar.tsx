@@ -2,6 +2,7 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
 import { Button } from "@/components/ui/button";
 import {
   Sheet,
@@ -33,6 +34,7 @@ import {
 
 const Navbar = () => {
   const { user, logout, isAuthenticated } = useAuth();
+  const { settings } = useSystemSettings();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
   return (
@@ -41,7 +43,7 @@ const Navbar = () => {
         {/* Logo */}
         <Link to="/" className="flex items-center">
           <span className="text-2xl font-bold bg-gradient-to-r from-primary-purple to-secondary-purple bg-clip-text text-transparent">
-            BigBSubz
+            {settings.site_name}
           </span>
         </Link>
 
@@ -124,7 +126,7 @@ const Navbar = () => {
                 <SheetTitle>
                   <Link to="/" className="flex items-center">
                     <span className="text-2xl font-bold bg-gradient-to-r from-primary-purple to-secondary-purple bg-clip-text text-transparent">
-                      BigBSubz
+                      {settings.site_name}
                     </span>
                   </Link>
                 </SheetTitle>
@@ -7,14 +7,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
-import { debugAuth } from "@/integrations/supabase/client";
+import { supabase, debugAuth } from "@/integrations/supabase/client";
+
+const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
 
 const LoginForm = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [formLoading, setFormLoading] = useState(false);
   const [error, setError] = useState("");
-  const { login, isAuthenticated, user, isLoading } = useAuth();
+  // Second step, for accounts with 2FA: a TOTP code or a recovery code
+  const [totpCode, setTotpCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, logout, isAuthenticated, user, isLoading, mfaRequired, refreshAssurance } = useAuth();
   const navigate = useNavigate();
 
   // Debug auth state when component mounts and when auth state changes
@@ -25,13 +31,13 @@ const LoginForm = () => {
 
   // Redirect if already authenticated
   useEffect(() => {
-    if (!isLoading && isAuthenticated && user) {
+    if (!isLoading && isAuthenticated && user && !mfaRequired) {
       console.log("LoginForm - User authenticated, redirecting to dashboard", user);
       const redirectPath = user.role === "admin" ? "/admin" : "/dashboard";
       console.log("Redirecting to:", redirectPath);
       navigate(redirectPath, { replace: true });
     }
-  }, [isAuthenticated, user, navigate, isLoading]);
+  }, [isAuthenticated, user, navigate, isLoading, mfaRequired]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,6 +59,161 @@ const LoginForm = () => {
     }
   };
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setFormLoading(true);
+
+    try {
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      const factor = factors.totp[0];
+      if (!factor) {
+        throw new Error("No authenticator is set up for this account");
+      }
+
+      const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: factor.id,
+        code: totpCode,
+      });
+
+      if (verifyError) {
+        throw new Error("That code didn't match. Check your authenticator app and try again.");
+      }
+      // The upgraded session clears mfaRequired and the useEffect redirects
+    } catch (error) {
+      setError(error.message || "Could not verify your code");
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  // A recovery code removes the account's authenticator; the user is then
+  // signed in with their password alone and can set 2FA up again
+  const handleRecoveryCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setFormLoading(true);
+
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+
+      if (!sessionData.session) {
+        throw new Error("Your session has expired. Please log in again.");
+      }
+
+      const response = await fetch(`${functionUrl}/functions/v1/mfa-recovery`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionData.session.access_token}`,
+        },
+        body: JSON.stringify({ code: recoveryCode }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Could not use that recovery code");
+      }
+
+      await refreshAssurance();
+    } catch (error) {
+      setError(error.message || "Could not use that recovery code");
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleStartOver = async () => {
+    setTotpCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+    setError("");
+    await logout();
+  };
+
+  if (isAuthenticated && mfaRequired) {
+    return (
+      <Card className="w-full max-w-md mx-auto glass-card">
+        <CardHeader>
+          <CardTitle className="text-center text-2xl">Two-Factor Authentication</CardTitle>
+          <CardDescription className="text-center">
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you set up 2FA"
+              : "Enter the 6-digit code from your authenticator app"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={useRecoveryCode ? handleRecoveryCode : handleVerifyCode} className="space-y-4">
+            {useRecoveryCode ? (
+              <div className="space-y-2">
+                <Label htmlFor="recovery-code">Recovery Code</Label>
+                <Input
+                  id="recovery-code"
+                  placeholder="XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value.toUpperCase())}
+                  className="font-mono"
+                  required
+                />
+                <p className="text-xs text-gray-500">
+                  This turns off two-factor authentication so you can set it up again on a new device.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="totp-code">Authentication Code</Label>
+                <Input
+                  id="totp-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                  maxLength={6}
+                  className="tracking-widest"
+                  autoFocus
+                  required
+                />
+              </div>
+            )}
+            {error && <div className="text-red-500 text-sm">{error}</div>}
+            <Button
+              type="submit"
+              className="w-full bg-primary-purple hover:bg-primary-purple/90"
+              disabled={formLoading || (!useRecoveryCode && totpCode.length !== 6)}
+            >
+              {formLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : "Verify"}
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <button
+            type="button"
+            className="text-sm text-primary-purple hover:underline"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setError("");
+            }}
+          >
+            {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+          </button>
+          <button type="button" className="text-sm text-gray-600 hover:underline" onClick={handleStartOver}>
+            Log in as someone else
+          </button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto glass-card">
       <CardHeader>
@@ -9,13 +9,16 @@ import { Button } from "@/components/ui/button";
 interface ProtectedRouteProps {
   allowedRoles?: Array<"customer" | "admin">;
   redirectPath?: string;
+  // Only for the 2FA setup page itself, which admins must reach without it
+  allowWithoutTwoFactor?: boolean;
 }
 
 const ProtectedRoute = ({
   allowedRoles = ["customer", "admin"],
   redirectPath = "/login",
+  allowWithoutTwoFactor = false,
 }: ProtectedRouteProps) => {
-  const { user, isLoading, isAuthenticated } = useAuth();
+  const { user, isLoading, isAuthenticated, mfaRequired, hasTwoFactor } = useAuth();
   const [loadingTimeExceeded, setLoadingTimeExceeded] = useState(false);
   
   // Debug auth state on mount and when auth state changes
@@ -79,6 +82,19 @@ const ProtectedRoute = ({
     return <Navigate to={redirectPath} replace />;
   }
   
+  // Signed in with a password but hasn't entered their TOTP code yet;
+  // LoginForm picks up from there
+  if (mfaRequired) {
+    console.log("Two-factor code outstanding. Redirecting to login.");
+    return <Navigate to="/login" replace />;
+  }
+  
+  // Every admin account must have 2FA set up
+  if (user.role === "admin" && !hasTwoFactor && !allowWithoutTwoFactor) {
+    console.log("Admin without 2FA. Redirecting to setup.");
+    return <Navigate to="/setup-2fa" replace />;
+  }
+  
   // Check if user has required role
   if (!allowedRoles.includes(user.role)) {
     console.log("User doesn't have required role. Redirecting to unauthorized.");
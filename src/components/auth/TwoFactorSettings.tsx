@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/context/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+
+interface Enrolment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+const describeMfaError = (message: string) =>
+  message.includes("MFA_REQUIRED")
+    ? "Sign out and back in with your authentication code, then try again"
+    : message;
+
+// TOTP two-factor authentication: set up an authenticator app, keep a set of
+// one-time recovery codes, and (for customers) turn it off again. Admin
+// accounts can't turn it off; ProtectedRoute requires it for them.
+const TwoFactorSettings = () => {
+  const { user, hasTwoFactor, refreshAssurance } = useAuth();
+  const { toast } = useToast();
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: codesRemaining, refetch: refetchRemaining } = useQuery({
+    queryKey: ["mfaRecoveryCodesRemaining"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("mfa_recovery_codes_remaining");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: hasTwoFactor,
+  });
+
+  const showFailure = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: describeMfaError(error instanceof Error ? error.message : "Something went wrong"),
+      variant: "destructive",
+    });
+  };
+
+  const generateRecoveryCodes = async () => {
+    const { data, error } = await supabase.rpc("generate_mfa_recovery_codes");
+    if (error) throw error;
+
+    setRecoveryCodes(data as string[]);
+    refetchRemaining();
+  };
+
+  const handleStart = async () => {
+    setIsWorking(true);
+
+    try {
+      // A setup that was abandoned part way leaves an unverified factor behind
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const factor of factors.all.filter((f) => f.status === "unverified")) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "BigBSubz",
+      });
+      if (error) throw error;
+
+      setEnrolment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+      setCode("");
+    } catch (error) {
+      showFailure("Could not start setup", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrolment) return;
+
+    setIsWorking(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrolment.factorId,
+        code,
+      });
+
+      if (error) {
+        throw new Error("That code didn't match. Check your authenticator app and try again.");
+      }
+
+      setEnrolment(null);
+      setCode("");
+      await generateRecoveryCodes();
+
+      toast({
+        title: "Two-factor authentication is on",
+        description: "Save your recovery codes somewhere safe.",
+      });
+    } catch (error) {
+      showFailure("Could not verify code", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsWorking(true);
+
+    try {
+      await generateRecoveryCodes();
+      toast({
+        title: "New recovery codes",
+        description: "Your previous recovery codes no longer work.",
+      });
+    } catch (error) {
+      showFailure("Could not create recovery codes", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsWorking(true);
+
+    try {
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const factor of factors.totp) {
+        const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (error) throw error;
+      }
+
+      await refreshAssurance();
+      setRecoveryCodes(null);
+
+      toast({
+        title: "Two-factor authentication is off",
+        description: "You'll only need your password to sign in.",
+      });
+    } catch (error) {
+      showFailure("Could not turn off 2FA", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {hasTwoFactor
+            ? "Signing in needs your password and a code from your authenticator app."
+            : "Secure your account with a code from an authenticator app such as Google Authenticator or Authy."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-4 space-y-3">
+            <p className="text-sm text-amber-900">
+              These recovery codes are shown only once. Each can be used a single time to get back into
+              your account if you lose your authenticator.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={handleCopyCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {hasTwoFactor ? (
+          <div className="flex items-start gap-3">
+            <ShieldCheck className="h-5 w-5 text-green-600 mt-0.5" />
+            <div>
+              <h3 className="font-medium">2FA is enabled</h3>
+              <p className="text-sm text-gray-500">
+                {codesRemaining ?? 0} unused recovery code(s) left.
+                {user?.role === "admin" && " Two-factor authentication is required for admin accounts."}
+              </p>
+            </div>
+          </div>
+        ) : enrolment ? (
+          <form id="two-factor-verify" onSubmit={handleVerify} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={enrolment.qrCode} alt="Authenticator QR code" className="h-44 w-44 border rounded-md" />
+            <p className="text-xs text-gray-500">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrolment.secret}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="totp-setup-code">Authentication Code</Label>
+              <Input
+                id="totp-setup-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                maxLength={6}
+                className="w-40 tracking-widest"
+                required
+              />
+            </div>
+          </form>
+        ) : (
+          <div>
+            <h3 className="font-medium">Enable 2FA</h3>
+            <p className="text-sm text-gray-500">
+              Add an extra layer of security to your account
+            </p>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        {hasTwoFactor ? (
+          <>
+            <Button type="button" variant="outline" onClick={handleRegenerate} disabled={isWorking}>
+              {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              New Recovery Codes
+            </Button>
+            {user?.role !== "admin" && (
+              <Button type="button" variant="destructive" onClick={handleDisable} disabled={isWorking}>
+                Turn Off 2FA
+              </Button>
+            )}
+          </>
+        ) : enrolment ? (
+          <>
+            <Button
+              type="submit"
+              form="two-factor-verify"
+              className="bg-primary-purple hover:bg-primary-purple/90"
+              disabled={isWorking || code.length !== 6}
+            >
+              {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Verify and Enable
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setEnrolment(null)} disabled={isWorking}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <Button
+            type="button"
+            className="bg-primary-purple hover:bg-primary-purple/90"
+            onClick={handleStart}
+            disabled={isWorking}
+          >
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Setup 2FA
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -3,6 +3,7 @@ import { useState } from "react";
 import { Outlet } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
 import Sidebar from "./Sidebar";
+import NotificationBell from "./NotificationBell";
 import { Button } from "@/components/ui/button";
 import { Menu, X } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -42,6 +43,7 @@ const DashboardLayout = () => {
             {user?.role === "admin" ? "Admin Dashboard" : "Customer Dashboard"}
           </h1>
           <div className="flex items-center space-x-4">
+            {user?.role !== "admin" && <NotificationBell />}
             <div className="text-sm text-right">
               <div className="font-medium">{user?.name}</div>
               <div className="text-muted-foreground">{user?.role}</div>
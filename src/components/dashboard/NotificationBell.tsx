@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+
+// Header bell for notices left by background jobs, such as a scheduled
+// purchase that could not run
+const NotificationBell = () => {
+  const { user } = useAuth();
+
+  const { data: notifications, refetch } = useQuery({
+    queryKey: ["notifications", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+    refetchInterval: 60_000
+  });
+
+  const unread = notifications?.filter((notification) => !notification.read_at) ?? [];
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .in("id", ids);
+
+    refetch();
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute top-1 right-1 h-4 min-w-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-white">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-medium">Notifications</span>
+          {unread.length > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="p-0 h-auto text-primary-purple"
+              onClick={() => markRead(unread.map((notification) => notification.id))}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto divide-y">
+          {notifications?.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+          )}
+          {notifications?.map((notification) => {
+            const content = (
+              <div className={`px-4 py-3 text-sm ${notification.read_at ? "" : "bg-primary-soft-purple/40"}`}>
+                <p className="font-medium">{notification.title}</p>
+                <p className="text-gray-500">{notification.message}</p>
+                <p className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+              </div>
+            );
+
+            return notification.link ? (
+              <Link key={notification.id} to={notification.link} onClick={() => markRead([notification.id])} className="block hover:bg-gray-50">
+                {content}
+              </Link>
+            ) : (
+              <div key={notification.id} onClick={() => markRead([notification.id])}>
+                {content}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -10,8 +10,11 @@ import {
   Database, 
   Zap, 
   Tv, 
+  Layers,
+  CalendarClock,
   Users, 
   Activity,
+  ScrollText,
   Settings,
   LogOut,
   X
@@ -35,6 +38,8 @@ const Sidebar = ({ closeSidebar }: SidebarProps) => {
     { name: "Buy Data", href: "/dashboard/data", icon: Database },
     { name: "Pay Electricity", href: "/dashboard/electricity", icon: Zap },
     { name: "Cable Subscription", href: "/dashboard/cable", icon: Tv },
+    { name: "Bulk Purchase", href: "/dashboard/bulk", icon: Layers },
+    { name: "Scheduled Purchases", href: "/dashboard/schedules", icon: CalendarClock },
     { name: "Settings", href: "/dashboard/settings", icon: Settings }
   ];
 
@@ -44,6 +49,7 @@ const Sidebar = ({ closeSidebar }: SidebarProps) => {
     { name: "Transactions", href: "/admin/transactions", icon: History },
     { name: "API Balance", href: "/admin/api-balance", icon: Database },
     { name: "Sales Report", href: "/admin/sales", icon: Activity },
+    { name: "Audit Log", href: "/admin/audit-log", icon: ScrollText },
     { name: "Settings", href: "/admin/settings", icon: Settings }
   ];
 
@@ -1,162 +1,295 @@
-
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { AdminStats } from "@/types";
-import { getAdminDashboardStats } from "@/services/mockData";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { 
-  Users, 
-  CreditCard, 
-  TrendingUp, 
+import {
+  Users,
+  CreditCard,
+  TrendingUp,
   Activity,
   BarChart3,
-  ArrowRight
+  ArrowRight,
+  Loader2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
 import { Link } from "react-router-dom";
-import { 
+import {
+  Area,
+  AreaChart,
   BarChart,
   Bar,
   XAxis,
   YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer
+  CartesianGrid
 } from "recharts";
 
+// Date ranges offered on the dashboard, with the trend granularity for each
+const RANGES = {
+  "7d": { label: "Last 7 days", days: 7, bucket: "day" },
+  "30d": { label: "Last 30 days", days: 30, bucket: "day" },
+  "90d": { label: "Last 90 days", days: 90, bucket: "week" },
+  "12m": { label: "Last 12 months", days: 365, bucket: "month" },
+} as const;
+
+type RangeKey = keyof typeof RANGES;
+
+const trendConfig = {
+  sales: { label: "Sales", color: "#9b87f5" },
+  fundings: { label: "Wallet Fundings", color: "#7E69AB" },
+} satisfies ChartConfig;
+
+const serviceConfig = {
+  amount: { label: "Revenue", color: "#9b87f5" },
+} satisfies ChartConfig;
+
+const balanceConfig = {
+  balance: { label: "Balance", color: "#7E69AB" },
+} satisfies ChartConfig;
+
+const formatNaira = (value: number) => `₦${value.toLocaleString()}`;
+
+const formatCompactNaira = (value: number) =>
+  value >= 1000000 ? `₦${(value / 1000000).toFixed(1)}M` :
+  value >= 1000 ? `₦${(value / 1000).toFixed(0)}K` :
+  `₦${value}`;
+
+const formatPeriod = (period: string, bucket: AdminStats["range"]["bucket"]) =>
+  new Date(period).toLocaleDateString(undefined, bucket === "month"
+    ? { month: "short", year: "2-digit" }
+    : { month: "short", day: "numeric" });
+
 const AdminDashboard = () => {
-  const stats: AdminStats = getAdminDashboardStats();
-
-  // Mock chart data
-  const salesData = [
-    { name: "Jan", amount: 1234000 },
-    { name: "Feb", amount: 2345000 },
-    { name: "Mar", amount: 1876000 },
-    { name: "Apr", amount: 2567000 },
-    { name: "May", amount: 3456000 },
-    { name: "Jun", amount: 3789000 },
-  ];
+  const [range, setRange] = useState<RangeKey>("30d");
+
+  const { data: stats, isLoading, error } = useQuery({
+    queryKey: ["adminStats", range],
+    queryFn: async () => {
+      const { days, bucket } = RANGES[range];
+      const { data, error } = await supabase.rpc("admin_stats", {
+        start_date: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+        end_date: new Date().toISOString(),
+        bucket,
+      });
+
+      if (error) throw error;
+      return data as unknown as AdminStats;
+    }
+  });
+
+  // Latest transactions across all users
+  const { data: recentTransactions } = useQuery({
+    queryKey: ["adminRecentTransactions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(5);
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const totalApiBalance = stats?.providerBalances.reduce((sum, provider) => sum + provider.balance, 0) ?? 0;
+  const trendData = stats?.trend.map((point) => ({
+    ...point,
+    label: formatPeriod(point.period, stats.range.bucket),
+  })) ?? [];
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Admin Dashboard</h1>
-        <p className="text-gray-500">Manage users and monitor sales</p>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Admin Dashboard</h1>
+          <p className="text-gray-500">Manage users and monitor sales</p>
+        </div>
+        <Select value={range} onValueChange={(value) => setRange(value as RangeKey)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Date range" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RANGES).map(([key, option]) => (
+              <SelectItem key={key} value={key}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
-      {/* Stats cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card className="glass-card card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <Users className="mr-2 h-5 w-5 text-primary-purple" />
-              Total Users
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold">{stats.totalUsers.toLocaleString()}</p>
-            <Link to="/admin/users" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
-              View All <ArrowRight className="ml-1 h-4 w-4" />
-            </Link>
-          </CardContent>
-        </Card>
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-purple" />
+        </div>
+      )}
 
-        <Card className="glass-card card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <Activity className="mr-2 h-5 w-5 text-primary-purple" />
-              Transactions
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold">{stats.totalTransactions.toLocaleString()}</p>
-            <Link to="/admin/transactions" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
-              View Details <ArrowRight className="ml-1 h-4 w-4" />
-            </Link>
+      {error && (
+        <Card className="glass-card">
+          <CardContent className="p-6 text-red-600">
+            Failed to load dashboard statistics: {error.message}
           </CardContent>
         </Card>
+      )}
 
-        <Card className="glass-card card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <CreditCard className="mr-2 h-5 w-5 text-primary-purple" />
-              Total Sales
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold">₦{(stats.totalSales / 1000000).toFixed(2)}M</p>
-            <Link to="/admin/sales" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
-              View Report <ArrowRight className="ml-1 h-4 w-4" />
-            </Link>
-          </CardContent>
-        </Card>
+      {stats && (
+        <>
+          {/* Stats cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card className="glass-card card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <Users className="mr-2 h-5 w-5 text-primary-purple" />
+                  Total Users
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-3xl font-bold">{stats.totalUsers.toLocaleString()}</p>
+                <p className="text-sm text-gray-500">{stats.newUsers.toLocaleString()} new in this period</p>
+                <Link to="/admin/users" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
+                  View All <ArrowRight className="ml-1 h-4 w-4" />
+                </Link>
+              </CardContent>
+            </Card>
 
-        <Card className="glass-card card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center">
-              <TrendingUp className="mr-2 h-5 w-5 text-primary-purple" />
-              API Balance
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold">₦{(Object.values(stats.providerBalances).reduce((a, b) => a + b, 0) / 1000).toFixed(1)}K</p>
-            <Link to="/admin/api-balance" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
-              Check Details <ArrowRight className="ml-1 h-4 w-4" />
-            </Link>
-          </CardContent>
-        </Card>
-      </div>
+            <Card className="glass-card card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <Activity className="mr-2 h-5 w-5 text-primary-purple" />
+                  Transactions
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-3xl font-bold">{stats.totalTransactions.toLocaleString()}</p>
+                <Link to="/admin/transactions" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
+                  View Details <ArrowRight className="ml-1 h-4 w-4" />
+                </Link>
+              </CardContent>
+            </Card>
 
-      {/* Charts */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card className="glass-card">
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              <BarChart3 className="mr-2 h-5 w-5 text-primary-purple" />
-              Monthly Sales
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={salesData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
-                <YAxis 
-                  tickFormatter={(value) => `₦${(value / 1000000).toFixed(1)}M`}
-                />
-                <Tooltip 
-                  formatter={(value: number) => [`₦${value.toLocaleString()}`, "Amount"]}
-                />
-                <Bar dataKey="amount" fill="#9b87f5" />
-              </BarChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
+            <Card className="glass-card card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <CreditCard className="mr-2 h-5 w-5 text-primary-purple" />
+                  Total Sales
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-3xl font-bold">₦{(stats.totalSales / 1000000).toFixed(2)}M</p>
+                <p className="text-sm text-gray-500">{formatNaira(stats.totalFundings)} wallet fundings</p>
+                <Link to="/admin/sales" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
+                  View Report <ArrowRight className="ml-1 h-4 w-4" />
+                </Link>
+              </CardContent>
+            </Card>
 
-        <Card className="glass-card">
-          <CardHeader>
-            <CardTitle>API Balance by Provider</CardTitle>
-          </CardHeader>
-          <CardContent className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart
-                data={Object.entries(stats.providerBalances).map(([provider, balance]) => ({
-                  provider: provider.toUpperCase(),
-                  balance,
-                }))}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="provider" />
-                <YAxis 
-                  tickFormatter={(value) => `₦${(value / 1000).toFixed(0)}K`}
-                />
-                <Tooltip 
-                  formatter={(value: number) => [`₦${value.toLocaleString()}`, "Balance"]}
-                />
-                <Bar dataKey="balance" fill="#7E69AB" />
-              </BarChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
-      </div>
+            <Card className="glass-card card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <TrendingUp className="mr-2 h-5 w-5 text-primary-purple" />
+                  API Balance
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-3xl font-bold">₦{(totalApiBalance / 1000).toFixed(1)}K</p>
+                <Link to="/admin/api-balance" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
+                  Check Details <ArrowRight className="ml-1 h-4 w-4" />
+                </Link>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Charts */}
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <BarChart3 className="mr-2 h-5 w-5 text-primary-purple" />
+                Sales Trend
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trendConfig} className="h-80 w-full aspect-auto">
+                <AreaChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickFormatter={formatCompactNaira} tickLine={false} axisLine={false} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent formatter={(value, name) => (
+                      <span>{trendConfig[name as keyof typeof trendConfig]?.label}: {formatNaira(Number(value))}</span>
+                    )} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Area dataKey="sales" type="monotone" stroke="var(--color-sales)" fill="var(--color-sales)" fillOpacity={0.3} />
+                  <Area dataKey="fundings" type="monotone" stroke="var(--color-fundings)" fill="var(--color-fundings)" fillOpacity={0.15} />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Revenue by Service</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={serviceConfig} className="h-80 w-full aspect-auto">
+                  <BarChart data={stats.revenueByService}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="service" tickFormatter={(value) => value.charAt(0).toUpperCase() + value.slice(1)} />
+                    <YAxis tickFormatter={formatCompactNaira} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value, _name, item) => (
+                        <span>{formatNaira(Number(value))} from {item.payload.transactions} transactions</span>
+                      )} />}
+                    />
+                    <Bar dataKey="amount" fill="var(--color-amount)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>API Balance by Provider</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={balanceConfig} className="h-80 w-full aspect-auto">
+                  <BarChart
+                    data={stats.providerBalances.map((provider) => ({
+                      provider: provider.code.toUpperCase(),
+                      balance: provider.balance,
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="provider" />
+                    <YAxis tickFormatter={formatCompactNaira} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value) => (
+                        <span>Balance: {formatNaira(Number(value))}</span>
+                      )} />}
+                    />
+                    <Bar dataKey="balance" fill="var(--color-balance)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
 
       {/* Recent activities */}
       <Card className="glass-card">
@@ -170,34 +303,20 @@ const AdminDashboard = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
-              <div>
-                <p className="font-medium">User Registration</p>
-                <p className="text-sm text-gray-500">New user registered: john@example.com</p>
-              </div>
-              <p className="text-sm text-gray-500">5 mins ago</p>
-            </div>
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
-              <div>
-                <p className="font-medium">Data Transaction</p>
-                <p className="text-sm text-gray-500">User purchased MTN 10GB data: ₦3,000</p>
-              </div>
-              <p className="text-sm text-gray-500">15 mins ago</p>
-            </div>
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
-              <div>
-                <p className="font-medium">Wallet Funding</p>
-                <p className="text-sm text-gray-500">User funded wallet with ₦10,000</p>
-              </div>
-              <p className="text-sm text-gray-500">38 mins ago</p>
-            </div>
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
-              <div>
-                <p className="font-medium">Electricity Payment</p>
-                <p className="text-sm text-gray-500">User paid IKEDC bill: ₦5,000</p>
+            {recentTransactions?.map((tx) => (
+              <div key={tx.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+                <div>
+                  <p className="font-medium capitalize">{tx.type} Transaction</p>
+                  <p className="text-sm text-gray-500">
+                    {tx.recipient ? `${tx.recipient}: ` : ""}{formatNaira(tx.amount)} ({tx.status})
+                  </p>
+                </div>
+                <p className="text-sm text-gray-500">{new Date(tx.created_at).toLocaleString()}</p>
               </div>
-              <p className="text-sm text-gray-500">1 hour ago</p>
-            </div>
+            ))}
+            {recentTransactions?.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No transactions yet</p>
+            )}
           </div>
         </CardContent>
       </Card>
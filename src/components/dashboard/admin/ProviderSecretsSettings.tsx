@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Copy, Loader2 } from "lucide-react";
+
+const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+const webhookUrl = `${functionUrl}/functions/v1/paystack-webhook`;
+
+interface ProviderSecret {
+  name: string;
+  source: "stored" | "env" | null;
+  hint: string | null;
+  rotatedAt: string | null;
+  rotatedBy: string | null;
+}
+
+const SECRET_LABELS: Record<string, string> = {
+  PAYSTACK_SECRET_KEY: "Paystack Secret Key",
+  MONNIFY_API_KEY: "Monnify API Key",
+  MONNIFY_SECRET_KEY: "Monnify Secret Key",
+  VTPASS_API_KEY: "VTPass API Key",
+  VTPASS_SECRET_KEY: "VTPass Secret Key",
+  CLUBKONNECT_USER_ID: "ClubKonnect User ID",
+  CLUBKONNECT_API_KEY: "ClubKonnect API Key",
+};
+
+const callProviderSecrets = async (body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${functionUrl}/functions/v1/provider-secrets`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Request failed");
+  }
+  return data;
+};
+
+// Provider credentials for the API Configuration tab. New values are
+// encrypted by the provider-secrets function before they are stored and are
+// never sent back; only the last four characters are shown. A credential
+// that hasn't been saved here comes from the edge function env.
+const ProviderSecretsSettings = () => {
+  const { toast } = useToast();
+  const { formatDate } = useSystemSettings();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [savingName, setSavingName] = useState<string | null>(null);
+
+  const { data: secrets, isLoading, refetch } = useQuery({
+    queryKey: ["providerSecrets"],
+    queryFn: async () => {
+      const data = await callProviderSecrets({ action: "list" });
+      return data.secrets as ProviderSecret[];
+    }
+  });
+
+  const handleRotate = async (name: string) => {
+    setSavingName(name);
+
+    try {
+      await callProviderSecrets({ action: "rotate", name, value: values[name] });
+
+      setValues({ ...values, [name]: "" });
+      refetch();
+
+      toast({
+        title: `${SECRET_LABELS[name]} saved`,
+        description: "Payments and purchases use the new key within a minute.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save key",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  const handleClear = async (name: string) => {
+    setSavingName(name);
+
+    try {
+      await callProviderSecrets({ action: "clear", name });
+      refetch();
+
+      toast({
+        title: `${SECRET_LABELS[name]} removed`,
+        description: "The value from the server environment is used again, if there is one.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not remove key",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  const copyToClipboard = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  const describe = (secret: ProviderSecret) => {
+    if (secret.source === "stored") {
+      return `Saved · Last rotated ${formatDate(secret.rotatedAt)}${secret.rotatedBy ? ` by ${secret.rotatedBy}` : ""}`;
+    }
+    return secret.source === "env" ? "From the server environment" : "Not set";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Configuration</CardTitle>
+        <CardDescription>
+          Provider credentials are encrypted before they are stored and can't be viewed again. Enter a new value to rotate a key.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && (
+          <p className="text-sm text-gray-500">Loading credentials...</p>
+        )}
+
+        {secrets?.map((secret) => (
+          <div key={secret.name} className="space-y-2">
+            <Label htmlFor={`secret-${secret.name}`}>{SECRET_LABELS[secret.name] ?? secret.name}</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                id={`secret-${secret.name}`}
+                type="password"
+                autoComplete="off"
+                value={values[secret.name] ?? ""}
+                onChange={(e) => setValues({ ...values, [secret.name]: e.target.value })}
+                placeholder={secret.hint ? `••••••••••••${secret.hint}` : "Not set"}
+              />
+              <Button
+                className="bg-primary-purple hover:bg-primary-purple/90"
+                onClick={() => handleRotate(secret.name)}
+                disabled={savingName !== null || !values[secret.name]?.trim()}
+              >
+                {savingName === secret.name ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : null}
+                {secret.source === "stored" ? "Rotate" : "Save"}
+              </Button>
+              {secret.source === "stored" && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleClear(secret.name)}
+                  disabled={savingName !== null}
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">{describe(secret)}</p>
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="paystack-webhook-url">Paystack Webhook URL</Label>
+          <div className="flex gap-2">
+            <Input id="paystack-webhook-url" value={webhookUrl} readOnly className="font-mono text-xs" />
+            <Button type="button" variant="outline" onClick={() => copyToClipboard(webhookUrl)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Set this as the webhook URL in your Paystack dashboard.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProviderSecretsSettings;
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Wrench } from "lucide-react";
+
+type Service = "airtime" | "data" | "electricity" | "cable" | "wallet";
+
+const SERVICES: { value: Service; label: string }[] = [
+  { value: "airtime", label: "Airtime" },
+  { value: "data", label: "Data" },
+  { value: "electricity", label: "Electricity" },
+  { value: "cable", label: "Cable TV" },
+  { value: "wallet", label: "Wallet funding" },
+];
+
+// Select items can't have an empty value, so "every provider" gets its own
+const ALL_PROVIDERS = "all";
+
+// Where each service's providers live. Wallet funding only goes through Paystack.
+const PROVIDER_TABLES = {
+  airtime: "network_providers",
+  data: "network_providers",
+  electricity: "electricity_providers",
+  cable: "cable_providers",
+} as const;
+
+// Put one service, or one provider of a service, into maintenance while
+// the rest of the site keeps selling. Site-wide maintenance is the
+// Maintenance Mode setting above.
+const ServiceMaintenanceSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatDate } = useSystemSettings();
+  const [service, setService] = useState<Service>("airtime");
+  const [provider, setProvider] = useState(ALL_PROVIDERS);
+  const [endsAt, setEndsAt] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: entries, isLoading, refetch } = useQuery({
+    queryKey: ["adminServiceMaintenance"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("service_maintenance")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: providers } = useQuery({
+    queryKey: ["maintenanceProviders", service],
+    queryFn: async () => {
+      if (service === "wallet") {
+        return [{ code: "paystack", name: "Paystack" }];
+      }
+
+      const { data, error } = await supabase
+        .from(PROVIDER_TABLES[service])
+        .select("code, name")
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase.from("service_maintenance").insert({
+        service,
+        provider: provider === ALL_PROVIDERS ? null : provider,
+        ends_at: endsAt ? new Date(endsAt).toISOString() : null,
+        message: message.trim() || null,
+        created_by: user?.id,
+      });
+
+      if (error) {
+        throw new Error(error.code === "23505"
+          ? "That service or provider is already under maintenance"
+          : error.message);
+      }
+
+      setProvider(ALL_PROVIDERS);
+      setEndsAt("");
+      setMessage("");
+      refetch();
+
+      toast({
+        title: "Maintenance started",
+        description: "Purchases for it are refused until you end the maintenance.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not start maintenance",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnd = async (entryId: string) => {
+    const { error } = await supabase
+      .from("service_maintenance")
+      .delete()
+      .eq("id", entryId);
+
+    if (error) {
+      toast({
+        title: "Could not end maintenance",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Maintenance ended" });
+    refetch();
+  };
+
+  const serviceLabel = (value: string) =>
+    SERVICES.find((option) => option.value === value)?.label ?? value;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Service Maintenance</CardTitle>
+        <CardDescription>
+          Take a single service or provider offline. Customers see a banner and purchases for it are refused.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAdd} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-service">Service</Label>
+            <Select
+              value={service}
+              onValueChange={(value) => {
+                setService(value as Service);
+                setProvider(ALL_PROVIDERS);
+              }}
+            >
+              <SelectTrigger id="maintenance-service">
+                <SelectValue placeholder="Select service" />
+              </SelectTrigger>
+              <SelectContent>
+                {SERVICES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-provider">Provider</Label>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger id="maintenance-provider">
+                <SelectValue placeholder="Select provider" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROVIDERS}>All providers</SelectItem>
+                {providers?.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-service-ends-at">Expected End (optional)</Label>
+            <Input
+              id="maintenance-service-ends-at"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-service-message">Message (optional)</Label>
+            <Input
+              id="maintenance-service-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={200}
+              placeholder="e.g. The provider is having an outage."
+            />
+          </div>
+
+          <div className="sm:col-span-2">
+            <Button
+              type="submit"
+              className="bg-primary-purple hover:bg-primary-purple/90"
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Wrench className="mr-2 h-4 w-4" />
+              )}
+              Start Maintenance
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          {isLoading && (
+            <p className="text-sm text-gray-500">Loading...</p>
+          )}
+          {!isLoading && entries?.length === 0 && (
+            <p className="text-sm text-gray-500">Every service is running normally</p>
+          )}
+          {entries?.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+              <div>
+                <p className="font-medium">
+                  {serviceLabel(entry.service)}
+                  {" · "}{entry.provider ? entry.provider.toUpperCase() : "All providers"}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Since {formatDate(entry.created_at)}
+                  {entry.ends_at && ` · Expected to end ${formatDate(entry.ends_at)}`}
+                  {entry.message && ` · ${entry.message}`}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleEnd(entry.id)}>
+                End
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ServiceMaintenanceSettings;
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { useSystemSettings, SystemSettings } from "@/context/SystemSettingsContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+interface StoredSetting {
+  key: keyof SystemSettings;
+  value: SystemSettings[keyof SystemSettings];
+  updated_at: string;
+  updated_by_name: string | null;
+}
+
+// An ISO timestamp as the local "YYYY-MM-DDTHH:mm" a datetime-local input takes
+const toLocalInput = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+// The System Settings tab. Saved values reach every visitor through
+// SystemSettingsProvider, which re-reads them every minute.
+const SystemSettingsForm = () => {
+  const { toast } = useToast();
+  const { settings, refreshSettings, formatDate } = useSystemSettings();
+  const [form, setForm] = useState<SystemSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: stored, isLoading, refetch } = useQuery({
+    queryKey: ["adminSystemSettings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("admin_system_settings");
+
+      if (error) throw error;
+      return data as unknown as StoredSetting[];
+    }
+  });
+
+  useEffect(() => {
+    if (stored) {
+      setForm((current) => ({
+        ...current,
+        ...Object.fromEntries(stored.map((setting) => [setting.key, setting.value])),
+      }));
+    }
+  }, [stored]);
+
+  const lastChange = stored
+    ?.filter((setting) => setting.updated_by_name)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("admin_update_system_settings", {
+        changes: { ...form, site_name: form.site_name.trim() },
+      });
+
+      if (error) {
+        throw new Error(error.message.includes("INVALID_SETTING: site_name")
+          ? "Site name must be between 1 and 60 characters"
+          : error.message);
+      }
+
+      await Promise.all([refreshSettings(), refetch()]);
+
+      toast({
+        title: "System settings saved",
+        description: "Changes reach everyone using the site within a minute.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save settings",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>System Configuration</CardTitle>
+        <CardDescription>
+          Manage general system settings
+          {lastChange && ` · Last changed by ${lastChange.updated_by_name} on ${formatDate(lastChange.updated_at)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="site-name">Site Name</Label>
+          <Input
+            id="site-name"
+            value={form.site_name}
+            onChange={(e) => setForm({ ...form, site_name: e.target.value })}
+            maxLength={60}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="maintenance-mode">Maintenance Mode</Label>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="maintenance-mode"
+              checked={form.maintenance_mode}
+              onCheckedChange={(checked) => setForm({ ...form, maintenance_mode: checked === true })}
+            />
+            <label
+              htmlFor="maintenance-mode"
+              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+            >
+              Enable maintenance mode
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            When enabled, purchases and wallet funding are refused and users see a maintenance banner.
+          </p>
+        </div>
+
+        {form.maintenance_mode && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-ends-at">Expected End</Label>
+              <Input
+                id="maintenance-ends-at"
+                type="datetime-local"
+                value={toLocalInput(form.maintenance_ends_at)}
+                onChange={(e) => setForm({
+                  ...form,
+                  maintenance_ends_at: e.target.value ? new Date(e.target.value).toISOString() : null,
+                })}
+              />
+              <p className="text-xs text-gray-500">
+                Shown in the banner. Maintenance stays on until you turn it off.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-message">Message (optional)</Label>
+              <Input
+                id="maintenance-message"
+                value={form.maintenance_message}
+                onChange={(e) => setForm({ ...form, maintenance_message: e.target.value })}
+                maxLength={200}
+                placeholder="e.g. We are upgrading our payment systems."
+              />
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="default-currency">Default Currency</Label>
+          <Select value={form.default_currency} disabled>
+            <SelectTrigger id="default-currency">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="NGN">Nigerian Naira (NGN)</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            Wallets, prices and provider payments are all in naira.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="date-format">Date Format</Label>
+          <Select
+            value={form.date_format}
+            onValueChange={(value) => setForm({ ...form, date_format: value as SystemSettings["date_format"] })}
+          >
+            <SelectTrigger id="date-format">
+              <SelectValue placeholder="Select date format" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+              <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+              <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          className="bg-primary-purple hover:bg-primary-purple/90"
+          onClick={handleSave}
+          disabled={isSaving || isLoading}
+        >
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : null}
+          Save System Settings
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default SystemSettingsForm;
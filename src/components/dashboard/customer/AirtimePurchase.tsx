@@ -1,6 +1,8 @@
 
-import { useState } from "react";
-import { networkProviders } from "@/services/mockData";
+import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,13 +10,40 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import BeneficiaryPicker from "./BeneficiaryPicker";
+import TransactionPinInput from "./TransactionPinInput";
 
 const AirtimePurchase = () => {
   const { user } = useAuth();
-  const [selectedProvider, setSelectedProvider] = useState("");
-  const [phoneNumber, setPhoneNumber] = useState("");
-  const [amount, setAmount] = useState("");
+  // "Buy again" links from the dashboard prefill the form
+  const [searchParams] = useSearchParams();
+  const [selectedProvider, setSelectedProvider] = useState(searchParams.get("network") ?? "");
+  const [phoneNumber, setPhoneNumber] = useState(searchParams.get("phone") ?? "");
+  const [amount, setAmount] = useState(searchParams.get("amount") ?? "");
+  const [pin, setPin] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Reference of the purchase being submitted. It is kept until the server
+  // answers, so retrying after a network error replays instead of charging again.
+  const pendingReference = useRef<string | null>(null);
+
+  // A changed order is a new purchase, not a retry of the unanswered one
+  useEffect(() => {
+    pendingReference.current = null;
+  }, [selectedProvider, phoneNumber, amount]);
+
+  // Fetch network providers
+  const { data: networkProviders, isLoading: isLoadingProviders } = useQuery({
+    queryKey: ["networkProviders"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("network_providers")
+        .select("*")
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    }
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,6 +76,15 @@ const AirtimePurchase = () => {
       return;
     }
 
+    if (pin.length !== 4) {
+      toast({
+        title: "Error",
+        description: "Please enter your 4-digit transaction PIN",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (user && amountValue > user.balance) {
       toast({
         title: "Insufficient Balance",
@@ -58,16 +96,62 @@ const AirtimePurchase = () => {
 
     setIsLoading(true);
 
-    // In a real application, this would call an edge function
-    setTimeout(() => {
+    try {
+      // Generate a unique reference (or reuse the one from an unanswered attempt)
+      const reference = pendingReference.current
+        ?? `AT-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      pendingReference.current = reference;
+
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError) throw sessionError;
+
+      // Call the airtime purchase edge function
+      const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+      const response = await fetch(`${functionUrl}/functions/v1/buy-airtime`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionData.session.access_token}`,
+        },
+        body: JSON.stringify({
+          provider: selectedProvider,
+          phoneNumber,
+          amount: amountValue,
+          reference,
+          pin
+        }),
+      });
+
+      const result = await response.json();
+      pendingReference.current = null;
+      setPin("");
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to purchase airtime");
+      }
+
       toast({
-        title: "Airtime Purchase Successful",
-        description: `₦${amount} airtime sent to ${phoneNumber}`,
+        title: result.status === 'pending' ? "Airtime Purchase Processing" : "Airtime Purchase Successful",
+        description: result.status === 'pending'
+          ? `₦${amountValue.toLocaleString()} airtime to ${phoneNumber} is being processed`
+          : `₦${amountValue.toLocaleString()} airtime sent to ${phoneNumber}`,
       });
-      setIsLoading(false);
+
       setPhoneNumber("");
       setAmount("");
-    }, 2000);
+
+      // Reload user data to reflect new balance
+      await supabase.auth.refreshSession();
+    } catch (error) {
+      console.error("Airtime purchase error:", error);
+      toast({
+        title: "Airtime Purchase Failed",
+        description: error.message || "An error occurred while processing your purchase",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const quickAmounts = [100, 200, 500, 1000, 2000];
@@ -90,7 +174,10 @@ const AirtimePurchase = () => {
             <div className="space-y-2">
               <Label>Select Network</Label>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                {networkProviders.map((provider) => (
+                {isLoadingProviders && (
+                  <p className="col-span-full text-sm text-gray-500">Loading networks...</p>
+                )}
+                {networkProviders?.map((provider) => (
                   <Button
                     key={provider.id}
                     type="button"
@@ -116,6 +203,15 @@ const AirtimePurchase = () => {
               </div>
             </div>
 
+            <BeneficiaryPicker
+              service="phone"
+              current={{ identifier: phoneNumber, provider: selectedProvider }}
+              onSelect={(beneficiary) => {
+                setSelectedProvider(beneficiary.provider);
+                setPhoneNumber(beneficiary.identifier);
+              }}
+            />
+
             {/* Phone Number */}
             <div className="space-y-2">
               <Label htmlFor="phoneNumber">Phone Number</Label>
@@ -160,6 +256,8 @@ const AirtimePurchase = () => {
               </div>
             </div>
 
+            <TransactionPinInput value={pin} onChange={setPin} />
+
             {/* Balance Info */}
             <div className="bg-gray-50 p-4 rounded-md">
               <div className="flex items-center justify-between">
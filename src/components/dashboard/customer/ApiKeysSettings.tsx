@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Copy, KeyRound, Loader2 } from "lucide-react";
+
+const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+const apiBaseUrl = `${functionUrl}/functions/v1/reseller-api/v1`;
+
+interface CreatedKey {
+  id: string;
+  name: string;
+  key: string;
+}
+
+// Create, list and revoke reseller API keys. The plain key is only shown
+// once, straight after it is created; the database keeps just its hash.
+// A key spends without a PIN, so creating one asks for the account password
+// first: signing in again gives create_api_key the recent login it requires.
+const ApiKeysSettings = () => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedKey | null>(null);
+
+  const { data: apiKeys, isLoading, refetch } = useQuery({
+    queryKey: ["apiKeys"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("api_keys")
+        .select("id, name, key_prefix, created_at, last_used_at, revoked_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error: signInError } = await supabase.auth.signInWithPassword({
+        email: user?.email ?? "",
+        password,
+      });
+
+      if (signInError) {
+        throw new Error("Your account password is incorrect");
+      }
+
+      const { data, error } = await supabase.rpc("create_api_key", { key_name: name });
+
+      if (error) {
+        throw new Error(error.message.includes("TOO_MANY_KEYS")
+          ? "You can have at most 10 active keys. Revoke one first."
+          : error.message.includes("RECENT_LOGIN_REQUIRED")
+            ? "Please confirm your account password and try again"
+            : error.message);
+      }
+
+      setCreatedKey(data as unknown as CreatedKey);
+      setName("");
+      setPassword("");
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Could not create key",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (keyId: string) => {
+    const { error } = await supabase.rpc("revoke_api_key", { key_id: keyId });
+
+    if (error) {
+      toast({
+        title: "Could not revoke key",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Key revoked",
+      description: "Requests using this key will now be rejected.",
+    });
+    refetch();
+  };
+
+  const copyToClipboard = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Keys</CardTitle>
+        <CardDescription>
+          Buy airtime, data, electricity and cable from your own systems. Send a key as{" "}
+          <code className="text-xs">Authorization: Bearer &lt;key&gt;</code> to{" "}
+          <code className="text-xs break-all">{apiBaseUrl}</code>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="api-key-name">Key name</Label>
+            <Input
+              id="api-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Production server"
+              maxLength={60}
+            />
+          </div>
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="api-key-password">Account password</Label>
+            <Input
+              id="api-key-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <Button
+            type="submit"
+            className="bg-primary-purple hover:bg-primary-purple/90"
+            disabled={isCreating || !name.trim() || !password}
+          >
+            {isCreating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <KeyRound className="mr-2 h-4 w-4" />
+            )}
+            Create Key
+          </Button>
+        </form>
+
+        {createdKey && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 space-y-2">
+            <p className="text-sm font-medium">
+              Copy your new key "{createdKey.name}" now. You won't be able to see it again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={createdKey.key} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" onClick={() => copyToClipboard(createdKey.key)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="link" className="p-0 h-auto" onClick={() => setCreatedKey(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {isLoading && (
+            <p className="text-sm text-gray-500">Loading keys...</p>
+          )}
+          {!isLoading && apiKeys?.length === 0 && (
+            <p className="text-sm text-gray-500">You have no API keys yet</p>
+          )}
+          {apiKeys?.map((apiKey) => (
+            <div key={apiKey.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+              <div>
+                <p className="font-medium">
+                  {apiKey.name}
+                  {apiKey.revoked_at && (
+                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      revoked
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  <span className="font-mono">{apiKey.key_prefix}…</span>
+                  {" · "}Created {new Date(apiKey.created_at).toLocaleDateString()}
+                  {" · "}{apiKey.last_used_at
+                    ? `Last used ${new Date(apiKey.last_used_at).toLocaleString()}`
+                    : "Never used"}
+                </p>
+              </div>
+              {!apiKey.revoked_at && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" className="text-red-600">Revoke</Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke "{apiKey.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Any system using this key will stop working immediately. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRevoke(apiKey.id)}>Revoke</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiKeysSettings;
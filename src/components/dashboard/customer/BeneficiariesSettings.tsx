@@ -0,0 +1,102 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Trash2 } from "lucide-react";
+
+const SERVICE_LABELS: Record<string, string> = {
+  phone: "Phone",
+  electricity: "Meter",
+  cable: "Smart card",
+};
+
+// Saved phone numbers, meters and smart cards. They are added from the
+// purchase forms; this is where they are removed.
+const BeneficiariesSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: beneficiaries, isLoading, refetch } = useQuery({
+    queryKey: ["beneficiaries", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("beneficiaries")
+        .select("*")
+        .order("service")
+        .order("nickname");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from("beneficiaries")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Could not remove beneficiary",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Beneficiary removed" });
+    refetch();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Beneficiaries</CardTitle>
+        <CardDescription>
+          Save numbers, meters and smart cards from the purchase forms to pick them next time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && (
+          <p className="text-sm text-gray-500">Loading beneficiaries...</p>
+        )}
+        {!isLoading && beneficiaries?.length === 0 && (
+          <p className="text-sm text-gray-500">You have no saved beneficiaries yet</p>
+        )}
+        {beneficiaries?.map((beneficiary) => (
+          <div key={beneficiary.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+            <div>
+              <p className="font-medium">{beneficiary.nickname}</p>
+              <p className="text-sm text-gray-500">
+                {SERVICE_LABELS[beneficiary.service]} {beneficiary.identifier}
+                {" · "}{beneficiary.provider.toUpperCase()}
+                {beneficiary.meter_type && ` (${beneficiary.meter_type})`}
+                {beneficiary.customer_name && ` · ${beneficiary.customer_name}`}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600"
+              onClick={() => handleDelete(beneficiary.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BeneficiariesSettings;
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { BookmarkPlus, Check, Loader2 } from "lucide-react";
+
+export type Beneficiary = Tables<"beneficiaries">;
+
+// 'phone' beneficiaries are shared by the airtime and data forms
+type BeneficiaryService = "phone" | "electricity" | "cable";
+
+interface BeneficiaryPickerProps {
+  service: BeneficiaryService;
+  // What the form currently holds, offered for saving
+  current: {
+    identifier: string;
+    provider: string;
+    meterType?: string;
+    customerName?: string;
+  };
+  onSelect: (beneficiary: Beneficiary) => void;
+}
+
+const LABELS: Record<BeneficiaryService, string> = {
+  phone: "number",
+  electricity: "meter",
+  cable: "smart card",
+};
+
+// Choose a saved phone number, meter or smart card, or save the one in the form
+const BeneficiaryPicker = ({ service, current, onSelect }: BeneficiaryPickerProps) => {
+  const { user } = useAuth();
+  const [nickname, setNickname] = useState("");
+  const [isNaming, setIsNaming] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: beneficiaries, refetch } = useQuery({
+    queryKey: ["beneficiaries", user?.id, service],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("beneficiaries")
+        .select("*")
+        .eq("service", service)
+        .order("last_used_at", { ascending: false, nullsFirst: false })
+        .order("nickname");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  const saved = beneficiaries?.find((beneficiary) =>
+    beneficiary.identifier === current.identifier && beneficiary.provider === current.provider);
+
+  const handleSelect = async (id: string) => {
+    const beneficiary = beneficiaries?.find((candidate) => candidate.id === id);
+    if (!beneficiary) return;
+
+    onSelect(beneficiary);
+
+    // Most recently used first next time
+    await supabase
+      .from("beneficiaries")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", beneficiary.id);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("beneficiaries")
+        .insert({
+          user_id: user?.id,
+          nickname: nickname.trim(),
+          service,
+          identifier: current.identifier,
+          provider: current.provider,
+          meter_type: service === "electricity" ? current.meterType : null,
+          customer_name: current.customerName || null,
+          verified_at: current.customerName ? new Date().toISOString() : null,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Beneficiary saved",
+        description: `${nickname.trim()} is now in your saved ${LABELS[service]}s.`,
+      });
+      setNickname("");
+      setIsNaming(false);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Could not save beneficiary",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = !!current.identifier && !!current.provider && !saved;
+
+  return (
+    <div className="space-y-2">
+      <Label>Saved {LABELS[service]}s</Label>
+      <div className="flex gap-2">
+        <Select value={saved?.id ?? ""} onValueChange={handleSelect} disabled={!beneficiaries?.length}>
+          <SelectTrigger>
+            <SelectValue placeholder={beneficiaries?.length ? `Choose a saved ${LABELS[service]}` : `No saved ${LABELS[service]}s yet`} />
+          </SelectTrigger>
+          <SelectContent>
+            {beneficiaries?.map((beneficiary) => (
+              <SelectItem key={beneficiary.id} value={beneficiary.id}>
+                {beneficiary.nickname} - {beneficiary.identifier} ({beneficiary.provider.toUpperCase()})
+                {beneficiary.customer_name ? ` · ${beneficiary.customer_name}` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {saved ? (
+          <Button type="button" variant="outline" disabled className="flex-shrink-0">
+            <Check className="mr-2 h-4 w-4" />
+            Saved
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setIsNaming(!isNaming)}
+            disabled={!canSave}
+            className="flex-shrink-0"
+          >
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+        )}
+      </div>
+      {isNaming && canSave && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Nickname, e.g. Mum or Shop meter"
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+            maxLength={40}
+          />
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || !nickname.trim()}
+            className="flex-shrink-0 bg-primary-purple hover:bg-primary-purple/90"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BeneficiaryPicker;
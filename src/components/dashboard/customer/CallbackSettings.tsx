@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, RefreshCw } from "lucide-react";
+
+const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+
+// 32 random bytes, hex encoded
+const generateSecret = () =>
+  "whsec_" + Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+// Why a callback URL can't be saved, or null. Mirrors is_public_callback_url:
+// callbacks only go to public host names, never IP addresses or internal
+// names.
+const callbackUrlProblem = (value: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return "Enter a full URL, e.g. https://example.com/vtu/callback";
+  }
+
+  if (parsed.protocol !== "https:") {
+    return "The callback URL must use https://";
+  }
+  if (parsed.username || parsed.password) {
+    return "The callback URL must not contain a username or password";
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  if (host.startsWith("[") || /^(0x[0-9a-f]+|\d+)(\.(0x[0-9a-f]+|\d+))*$/.test(host)) {
+    return "Use a host name rather than an IP address";
+  }
+  if (!host.includes(".") || /\.(localhost|local|localdomain|internal)$/.test(host)) {
+    return "The callback URL must be reachable on the public internet";
+  }
+
+  return null;
+};
+
+// Callback URL and signing secret for transaction status events, plus the
+// log of what was sent and a way to send an event again
+const CallbackSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [secret, setSecret] = useState("");
+  const [enabled, setEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const { data: endpoint, refetch: refetchEndpoint } = useQuery({
+    queryKey: ["callbackEndpoint", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("callback_endpoints")
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  const { data: deliveries, isLoading: deliveriesLoading, refetch: refetchDeliveries } = useQuery({
+    queryKey: ["callbackDeliveries", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("callback_deliveries")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  useEffect(() => {
+    if (endpoint) {
+      setUrl(endpoint.url);
+      setSecret(endpoint.secret);
+      setEnabled(endpoint.enabled);
+    }
+  }, [endpoint]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const urlProblem = callbackUrlProblem(url);
+    if (urlProblem) {
+      toast({
+        title: "Invalid callback URL",
+        description: urlProblem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (secret.length < 16) {
+      toast({
+        title: "Secret too short",
+        description: "Use a signing secret of at least 16 characters, or generate one.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("callback_endpoints")
+        .upsert({
+          user_id: user?.id,
+          url,
+          secret,
+          enabled,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Callback saved",
+        description: "Status changes on your transactions will be sent to this URL.",
+      });
+      refetchEndpoint();
+    } catch (error) {
+      toast({
+        title: "Could not save callback",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRedeliver = async (deliveryId: string) => {
+    setRedelivering(deliveryId);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${functionUrl}/functions/v1/deliver-callbacks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ deliveryId })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to redeliver callback');
+      }
+
+      toast({
+        title: result.success ? "Callback delivered" : "Delivery failed",
+        description: result.success
+          ? "Your endpoint accepted the event."
+          : `${result.data?.last_error ?? "Your endpoint did not accept the event"}. We'll keep retrying.`,
+        variant: result.success ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Redelivery failed",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setRedelivering(null);
+      refetchDeliveries();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Status Callbacks</CardTitle>
+          <CardDescription>
+            We POST a signed JSON event to this URL whenever one of your transactions changes
+            status. Verify the <code className="text-xs">X-Callback-Signature</code> header
+            (<code className="text-xs">t=&lt;timestamp&gt;,v1=&lt;HMAC-SHA256 of "timestamp.body"&gt;</code>)
+            with your signing secret.
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSave}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="callback-url">Callback URL</Label>
+              <Input
+                id="callback-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/vtu/callback"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="callback-secret">Signing Secret</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="callback-secret"
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  className="font-mono text-xs"
+                  required
+                />
+                <Button type="button" variant="outline" onClick={() => setSecret(generateSecret())}>
+                  Generate
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="callback-enabled" checked={enabled} onCheckedChange={setEnabled} />
+              <Label htmlFor="callback-enabled">Send callbacks</Label>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button
+              type="submit"
+              className="bg-primary-purple hover:bg-primary-purple/90"
+              disabled={isSaving || !url || !secret}
+            >
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : null}
+              Save Callback
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Delivery Log</span>
+            <Button variant="ghost" size="sm" onClick={() => refetchDeliveries()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+          <CardDescription>The 20 most recent events. Failed deliveries are retried with increasing delays.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Transaction</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Delivery</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Attempts</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Last Response</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {deliveries?.map((delivery) => {
+                  const data = (delivery.payload as { data?: { reference?: string; status?: string } }).data;
+
+                  return (
+                    <tr key={delivery.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">
+                        <p className="font-mono text-xs">{data?.reference}</p>
+                        <p className="text-gray-500">now {data?.status}</p>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          delivery.status === 'delivered' ? 'bg-green-100 text-green-800' :
+                          delivery.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                          'bg-red-100 text-red-800'
+                        }`}>
+                          {delivery.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">{delivery.attempts}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500 max-w-xs truncate" title={delivery.last_error ?? undefined}>
+                        {delivery.last_error ?? (delivery.response_status ? `HTTP ${delivery.response_status}` : "-")}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {new Date(delivery.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRedeliver(delivery.id)}
+                          disabled={redelivering !== null || !endpoint}
+                        >
+                          {redelivering === delivery.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Redeliver
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {deliveriesLoading && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      Loading deliveries...
+                    </td>
+                  </tr>
+                )}
+                {!deliveriesLoading && deliveries?.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      No callbacks sent yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CallbackSettings;
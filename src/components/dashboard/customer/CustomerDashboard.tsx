@@ -1,8 +1,13 @@
 
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
-import { getUserTransactions } from "@/services/mockData";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
+import { SpendAllowance, SpendUsage } from "@/types";
+import { Tables } from "@/integrations/supabase/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { 
   CreditCard, 
   TrendingUp, 
@@ -10,15 +15,157 @@ import {
   Database, 
   Zap, 
   Tv,
-  ArrowRight
+  ArrowRight,
+  Gauge,
+  RotateCcw
 } from "lucide-react";
 import { Link } from "react-router-dom";
 
+const UsageMeter = ({ label, allowance }: { label: string; allowance: SpendAllowance }) => {
+  const { formatCurrency } = useSystemSettings();
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-500">{label}</span>
+        <span className="font-medium">
+          {formatCurrency(allowance.spent)}
+          {allowance.limit === null ? " (no limit)" : ` of ${formatCurrency(allowance.limit)}`}
+        </span>
+      </div>
+      {allowance.limit !== null && (
+        <Progress value={Math.min((allowance.spent / allowance.limit) * 100, 100)} className="h-2" />
+      )}
+    </div>
+  );
+};
+
+type Transaction = Tables<"transactions">;
+
+// The parts of a purchase's details needed to repeat it
+interface PurchaseDetails {
+  face_amount?: number;
+  provider_name?: string;
+  plan_id?: string;
+  plan_name?: string;
+  meter_type?: string;
+  package_id?: string;
+  package_name?: string;
+}
+
+// What the recipient received; the charged amount includes fees
+const faceAmount = (tx: Transaction) =>
+  Number((tx.details as PurchaseDetails | null)?.face_amount ?? tx.amount);
+
+// A link that opens the purchase form prefilled with what this transaction bought
+const buyAgainLink = (tx: Transaction) => {
+  const details = (tx.details ?? {}) as PurchaseDetails;
+  const params = new URLSearchParams();
+
+  if (!tx.provider || !tx.recipient) return null;
+
+  switch (tx.type) {
+    case "airtime":
+      params.set("network", tx.provider);
+      params.set("phone", tx.recipient);
+      params.set("amount", String(faceAmount(tx)));
+      return `/dashboard/airtime?${params}`;
+    case "data":
+      params.set("network", tx.provider);
+      params.set("phone", tx.recipient);
+      if (details.plan_id) params.set("plan", details.plan_id);
+      return `/dashboard/data?${params}`;
+    case "electricity":
+      params.set("provider", tx.provider);
+      params.set("meter", tx.recipient);
+      params.set("meterType", details.meter_type ?? "prepaid");
+      params.set("amount", String(faceAmount(tx)));
+      return `/dashboard/electricity?${params}`;
+    case "cable":
+      params.set("provider", tx.provider);
+      params.set("smartcard", tx.recipient);
+      if (details.package_id) params.set("package", details.package_id);
+      return `/dashboard/cable?${params}`;
+    default:
+      return null;
+  }
+};
+
+const buyAgainLabel = (tx: Transaction, formatCurrency: (amount: number) => string) => {
+  const details = (tx.details ?? {}) as PurchaseDetails;
+
+  switch (tx.type) {
+    case "airtime":
+      return `${formatCurrency(faceAmount(tx))} ${details.provider_name ?? tx.provider?.toUpperCase()} airtime`;
+    case "data":
+      return details.plan_name ?? "Data bundle";
+    case "electricity":
+      return `${formatCurrency(faceAmount(tx))} ${details.provider_name ?? "electricity"}`;
+    default:
+      return details.package_name ?? "Cable subscription";
+  }
+};
+
 const CustomerDashboard = () => {
   const { user } = useAuth();
+  const { formatCurrency, formatDate } = useSystemSettings();
   
-  // Get recent transactions
-  const transactions = user ? getUserTransactions(user.id).slice(0, 5) : [];
+  // Fetch the latest transactions, plus how many there are in total
+  const { data: recent, isLoading } = useQuery({
+    queryKey: ["recentTransactions", user?.id],
+    queryFn: async () => {
+      const { data, count, error } = await supabase
+        .from("transactions")
+        .select("*", { count: "exact" })
+        .eq("user_id", user?.id)
+        .order("created_at", { ascending: false })
+        .limit(5);
+
+      if (error) throw error;
+      return { transactions: data, total: count ?? data.length };
+    },
+    enabled: !!user
+  });
+
+  const transactions = recent?.transactions ?? [];
+
+  // Spend against the tier's rolling daily and monthly limits
+  const { data: usage } = useQuery({
+    queryKey: ["spendUsage", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("spend_usage", { user_uuid: user!.id });
+
+      if (error) throw error;
+      return data as unknown as SpendUsage;
+    },
+    enabled: !!user
+  });
+
+  // The most recent distinct successful purchases, for one-tap repeats
+  const { data: repeatable } = useQuery({
+    queryKey: ["buyAgain", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*")
+        .eq("user_id", user?.id)
+        .eq("status", "success")
+        .in("type", ["airtime", "data", "electricity", "cable"])
+        .order("created_at", { ascending: false })
+        .limit(30);
+
+      if (error) throw error;
+
+      const seen = new Set<string>();
+      return data.filter((tx) => {
+        const link = buyAgainLink(tx);
+        if (!link || seen.has(link)) return false;
+        seen.add(link);
+        return true;
+      }).slice(0, 4);
+    },
+    enabled: !!user
+  });
 
   const quickActions = [
     { name: "Buy Airtime", icon: PhoneCall, href: "/dashboard/airtime", color: "bg-blue-100 text-blue-500" },
@@ -45,7 +192,7 @@ const CustomerDashboard = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-3xl font-bold">₦{user?.balance.toLocaleString()}</p>
+            <p className="text-3xl font-bold">{formatCurrency(user?.balance ?? 0)}</p>
             <Link to="/dashboard/wallet" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
               Fund Wallet <ArrowRight className="ml-1 h-4 w-4" />
             </Link>
@@ -56,16 +203,38 @@ const CustomerDashboard = () => {
           <CardHeader className="pb-2">
             <CardTitle className="text-lg flex items-center">
               <TrendingUp className="mr-2 h-5 w-5 text-primary-purple" />
-              Recent Transactions
+              Total Transactions
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-3xl font-bold">{transactions.length}</p>
+            <p className="text-3xl font-bold">{recent?.total ?? 0}</p>
             <Link to="/dashboard/transactions" className="inline-flex items-center text-sm text-primary-purple mt-2 hover:underline">
               View All <ArrowRight className="ml-1 h-4 w-4" />
             </Link>
           </CardContent>
         </Card>
+
+        <Card className="glass-card card-hover">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center">
+              <Gauge className="mr-2 h-5 w-5 text-primary-purple" />
+              Spend Limits
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {usage ? (
+              <>
+                <UsageMeter label="Last 24 hours" allowance={usage.daily} />
+                <UsageMeter label="Last 30 days" allowance={usage.monthly} />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Loading usage...</p>
+            )}
+            <Link to="/pricing" className="inline-flex items-center text-sm text-primary-purple hover:underline">
+              Compare Plans <ArrowRight className="ml-1 h-4 w-4" />
+            </Link>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Quick actions */}
@@ -87,6 +256,28 @@ const CustomerDashboard = () => {
         </div>
       </div>
 
+      {/* Buy again */}
+      {repeatable && repeatable.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4">Buy Again</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {repeatable.map((tx) => (
+              <Link key={tx.id} to={buyAgainLink(tx)!}>
+                <Card className="glass-card h-full card-hover">
+                  <CardContent className="p-4 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{buyAgainLabel(tx, formatCurrency)}</p>
+                      <p className="text-sm text-gray-500 truncate">{tx.recipient}</p>
+                    </div>
+                    <RotateCcw className="h-5 w-5 flex-shrink-0 text-primary-purple" />
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent transactions */}
       <div>
         <div className="flex items-center justify-between mb-4">
@@ -117,22 +308,30 @@ const CustomerDashboard = () => {
                         <span className="capitalize">{tx.type}</span>
                       </div>
                     </td>
-                    <td className="px-4 py-3 text-sm">₦{tx.amount.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm">{formatCurrency(tx.amount)}</td>
                     <td className="px-4 py-3 text-sm">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                         tx.status === 'success' ? 'bg-green-100 text-green-800' : 
                         tx.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 
+                        tx.status === 'reversed' ? 'bg-blue-100 text-blue-800' :
                         'bg-red-100 text-red-800'
                       }`}>
                         {tx.status}
                       </span>
                     </td>
                     <td className="px-4 py-3 text-sm">
-                      {new Date(tx.createdAt).toLocaleDateString()}
+                      {formatDate(tx.created_at, false)}
                     </td>
                   </tr>
                 ))}
-                {transactions.length === 0 && (
+                {isLoading && (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-8 text-center text-gray-500">
+                      Loading transactions...
+                    </td>
+                  </tr>
+                )}
+                {!isLoading && transactions.length === 0 && (
                   <tr>
                     <td colSpan={4} className="px-4 py-8 text-center text-gray-500">
                       No transactions yet
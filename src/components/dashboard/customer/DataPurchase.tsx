@@ -1,6 +1,8 @@
 
-import { useState, useEffect } from "react";
-import { networkProviders, getDataPlansByProvider } from "@/services/mockData";
+import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -15,25 +17,61 @@ import {
 } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import { DataPlan } from "@/types";
+import BeneficiaryPicker from "./BeneficiaryPicker";
+import TransactionPinInput from "./TransactionPinInput";
 
 const DataPurchase = () => {
   const { user } = useAuth();
-  const [selectedProvider, setSelectedProvider] = useState("");
-  const [phoneNumber, setPhoneNumber] = useState("");
-  const [selectedPlanId, setSelectedPlanId] = useState("");
-  const [dataPlans, setDataPlans] = useState<DataPlan[]>([]);
+  // "Buy again" links from the dashboard prefill the form
+  const [searchParams] = useSearchParams();
+  const [selectedProvider, setSelectedProvider] = useState(searchParams.get("network") ?? "");
+  const [phoneNumber, setPhoneNumber] = useState(searchParams.get("phone") ?? "");
+  const [selectedPlanId, setSelectedPlanId] = useState(searchParams.get("plan") ?? "");
+  const [pin, setPin] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Reference of the purchase being submitted. It is kept until the server
+  // answers, so retrying after a network error replays instead of charging again.
+  const pendingReference = useRef<string | null>(null);
 
+  // A changed order is a new purchase, not a retry of the unanswered one
   useEffect(() => {
-    if (selectedProvider) {
-      const plans = getDataPlansByProvider(selectedProvider);
-      setDataPlans(plans);
-      setSelectedPlanId("");
+    pendingReference.current = null;
+  }, [selectedProvider, phoneNumber, selectedPlanId]);
+
+  // Fetch network providers
+  const { data: networkProviders, isLoading: isLoadingProviders } = useQuery({
+    queryKey: ["networkProviders"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("network_providers")
+        .select("*")
+        .order("name");
+
+      if (error) throw error;
+      return data;
     }
-  }, [selectedProvider]);
+  });
+
+  // Fetch data plans when a network is selected
+  const { data: dataPlans, isLoading: isLoadingPlans } = useQuery({
+    queryKey: ["dataPlans", selectedProvider],
+    queryFn: async () => {
+      const provider = networkProviders?.find(p => p.code === selectedProvider);
+      if (!provider) return [];
 
-  const selectedPlan = dataPlans.find(plan => plan.id === selectedPlanId);
+      const { data, error } = await supabase
+        .from("data_plans")
+        .select("*")
+        .eq("provider_id", provider.id)
+        .order("amount");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedProvider && !!networkProviders
+  });
+
+  const selectedPlan = dataPlans?.find(plan => plan.id === selectedPlanId);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -65,6 +103,15 @@ const DataPurchase = () => {
       return;
     }
 
+    if (pin.length !== 4) {
+      toast({
+        title: "Error",
+        description: "Please enter your 4-digit transaction PIN",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (user && selectedPlan.amount > user.balance) {
       toast({
         title: "Insufficient Balance",
@@ -76,16 +123,61 @@ const DataPurchase = () => {
 
     setIsLoading(true);
 
-    // In a real application, this would call an edge function
-    setTimeout(() => {
+    try {
+      // Generate a unique reference (or reuse the one from an unanswered attempt)
+      const reference = pendingReference.current
+        ?? `DT-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      pendingReference.current = reference;
+
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError) throw sessionError;
+
+      // Call the data purchase edge function
+      const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+      const response = await fetch(`${functionUrl}/functions/v1/buy-data`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionData.session.access_token}`,
+        },
+        body: JSON.stringify({
+          planId: selectedPlan.id,
+          phoneNumber,
+          reference,
+          pin
+        }),
+      });
+
+      const result = await response.json();
+      pendingReference.current = null;
+      setPin("");
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to purchase data");
+      }
+
       toast({
-        title: "Data Purchase Successful",
-        description: `${selectedPlan.name} data bundle sent to ${phoneNumber}`,
+        title: result.status === 'pending' ? "Data Purchase Processing" : "Data Purchase Successful",
+        description: result.status === 'pending'
+          ? `${selectedPlan.name} data bundle for ${phoneNumber} is being processed`
+          : `${selectedPlan.name} data bundle sent to ${phoneNumber}`,
       });
-      setIsLoading(false);
+
       setPhoneNumber("");
       setSelectedPlanId("");
-    }, 2000);
+
+      // Reload user data to reflect new balance
+      await supabase.auth.refreshSession();
+    } catch (error) {
+      console.error("Data purchase error:", error);
+      toast({
+        title: "Data Purchase Failed",
+        description: error.message || "An error occurred while processing your purchase",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -106,7 +198,10 @@ const DataPurchase = () => {
             <div className="space-y-2">
               <Label>Select Network</Label>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                {networkProviders.map((provider) => (
+                {isLoadingProviders && (
+                  <p className="col-span-full text-sm text-gray-500">Loading networks...</p>
+                )}
+                {networkProviders?.map((provider) => (
                   <Button
                     key={provider.id}
                     type="button"
@@ -116,7 +211,10 @@ const DataPurchase = () => {
                         ? "border-primary-purple bg-primary-soft-purple"
                         : ""
                     }`}
-                    onClick={() => setSelectedProvider(provider.code)}
+                    onClick={() => {
+                      setSelectedProvider(provider.code);
+                      setSelectedPlanId("");
+                    }}
                   >
                     <div className="flex flex-col items-center space-y-2">
                       <div className="h-8 w-8 flex items-center justify-center bg-white rounded-full">
@@ -132,6 +230,18 @@ const DataPurchase = () => {
               </div>
             </div>
 
+            <BeneficiaryPicker
+              service="phone"
+              current={{ identifier: phoneNumber, provider: selectedProvider }}
+              onSelect={(beneficiary) => {
+                if (beneficiary.provider !== selectedProvider) {
+                  setSelectedProvider(beneficiary.provider);
+                  setSelectedPlanId("");
+                }
+                setPhoneNumber(beneficiary.identifier);
+              }}
+            />
+
             {/* Phone Number */}
             <div className="space-y-2">
               <Label htmlFor="phoneNumber">Phone Number</Label>
@@ -148,16 +258,20 @@ const DataPurchase = () => {
             {selectedProvider && (
               <div className="space-y-2">
                 <Label htmlFor="dataPlan">Select Data Plan</Label>
-                <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+                <Select value={selectedPlanId} onValueChange={setSelectedPlanId} disabled={isLoadingPlans}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select a data plan" />
                   </SelectTrigger>
                   <SelectContent>
-                    {dataPlans.map((plan) => (
-                      <SelectItem key={plan.id} value={plan.id}>
-                        {plan.name} - ₦{plan.amount.toLocaleString()} ({plan.validity})
-                      </SelectItem>
-                    ))}
+                    {isLoadingPlans ? (
+                      <SelectItem value="loading" disabled>Loading plans...</SelectItem>
+                    ) : (
+                      dataPlans?.map((plan) => (
+                        <SelectItem key={plan.id} value={plan.id}>
+                          {plan.name} - ₦{plan.amount.toLocaleString()} ({plan.validity})
+                        </SelectItem>
+                      ))
+                    )}
                   </SelectContent>
                 </Select>
               </div>
@@ -181,6 +295,8 @@ const DataPurchase = () => {
               </div>
             )}
 
+            <TransactionPinInput value={pin} onChange={setPin} />
+
             {/* Balance Info */}
             <div className="bg-gray-50 p-4 rounded-md">
               <div className="flex items-center justify-between">
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+interface Preferences {
+  email_notifications: boolean;
+  transaction_alerts: boolean;
+  marketing_emails: boolean;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  email_notifications: true,
+  transaction_alerts: true,
+  marketing_emails: false,
+};
+
+// The email switches, stored on the profile. Transaction alerts cover wallet
+// fundings, purchase results and electricity tokens; low balance warnings
+// only need Email Notifications, which turns every email off when unticked.
+const NotificationPreferences = () => {
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: saved, isLoading } = useQuery({
+    queryKey: ["notificationPreferences"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("notification_preferences");
+
+      if (error) throw error;
+      return data as unknown as Preferences | null;
+    }
+  });
+
+  useEffect(() => {
+    if (saved) {
+      setPreferences(saved);
+    }
+  }, [saved]);
+
+  const toggle = (key: keyof Preferences) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPreferences((current) => ({ ...current, [key]: e.target.checked }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase.rpc("update_notification_preferences", {
+        email_notifications: preferences.email_notifications,
+        transaction_alerts: preferences.transaction_alerts,
+        marketing_emails: preferences.marketing_emails,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Preferences saved",
+        description: "Your notification preferences have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save preferences",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Preferences</CardTitle>
+        <CardDescription>
+          Configure how and when you receive notifications
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="email-notifications"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={preferences.email_notifications}
+            onChange={toggle("email_notifications")}
+            disabled={isLoading}
+          />
+          <Label htmlFor="email-notifications">Email Notifications</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="transaction-alerts"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={preferences.transaction_alerts}
+            onChange={toggle("transaction_alerts")}
+            disabled={isLoading || !preferences.email_notifications}
+          />
+          <Label htmlFor="transaction-alerts">Transaction Alerts</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="marketing-emails"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={preferences.marketing_emails}
+            onChange={toggle("marketing_emails")}
+            disabled={isLoading || !preferences.email_notifications}
+          />
+          <Label htmlFor="marketing-emails">Marketing Emails</Label>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          className="bg-primary-purple hover:bg-primary-purple/90"
+          onClick={handleSave}
+          disabled={isSaving || isLoading}
+        >
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : null}
+          Save Preferences
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default NotificationPreferences;
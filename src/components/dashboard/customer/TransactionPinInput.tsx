@@ -0,0 +1,33 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Link } from "react-router-dom";
+
+interface TransactionPinInputProps {
+  id?: string;
+  value: string;
+  onChange: (pin: string) => void;
+}
+
+// The 4-digit PIN every wallet spend is confirmed with
+const TransactionPinInput = ({ id = "transaction-pin", value, onChange }: TransactionPinInputProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>Transaction PIN</Label>
+    <Input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      placeholder="••••"
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, "").slice(0, 4))}
+      maxLength={4}
+      className="w-32 tracking-widest"
+    />
+    <p className="text-xs text-gray-500">
+      No PIN yet, or forgotten it?{" "}
+      <Link to="/dashboard/settings?tab=pin" className="text-primary-purple hover:underline">Set or reset it in Settings</Link>
+    </p>
+  </div>
+);
+
+export default TransactionPinInput;
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+interface PinStatus {
+  is_set: boolean;
+  locked_until: string | null;
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "").slice(0, 4);
+
+// Set the transaction PIN, or replace it (change, forgotten or locked).
+// Replacing one asks for the account password first: signing in again gives
+// set_transaction_pin the recent login it requires.
+const TransactionPinSettings = () => {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: status, isLoading, refetch } = useQuery({
+    queryKey: ["transactionPinStatus"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("transaction_pin_status");
+
+      if (error) throw error;
+      return data as unknown as PinStatus;
+    }
+  });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (pin.length !== 4 || pin !== confirmPin) {
+      toast({
+        title: "PINs don't match",
+        description: "Enter the same 4-digit PIN in both fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      if (status?.is_set) {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error: signInError } = await supabase.auth.signInWithPassword({
+          email: user?.email ?? "",
+          password,
+        });
+
+        if (signInError) {
+          throw new Error("Your account password is incorrect");
+        }
+      }
+
+      const { error } = await supabase.rpc("set_transaction_pin", { new_pin: pin });
+
+      if (error) {
+        throw new Error(error.message.includes("RECENT_LOGIN_REQUIRED")
+          ? "Please confirm your account password and try again"
+          : error.message.includes("INVALID_PIN")
+            ? "Your PIN must be exactly 4 digits"
+            : error.message);
+      }
+
+      toast({
+        title: status?.is_set ? "PIN changed" : "PIN set",
+        description: "Use it to confirm purchases from your wallet.",
+      });
+      setPassword("");
+      setPin("");
+      setConfirmPin("");
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Could not save PIN",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transaction PIN</CardTitle>
+        <CardDescription>
+          {isLoading
+            ? "Loading..."
+            : status?.is_set
+              ? "Change your PIN, or reset it if you've forgotten it. You'll need your account password."
+              : "Set a 4-digit PIN. You'll need it for every purchase from your wallet."}
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSave}>
+        <CardContent className="space-y-4">
+          {status?.locked_until && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              Your PIN is locked until {new Date(status.locked_until).toLocaleTimeString()} after too many
+              incorrect attempts. Set a new one below to unlock it now.
+            </div>
+          )}
+          {status?.is_set && (
+            <div className="space-y-2">
+              <Label htmlFor="pin-password">Account Password</Label>
+              <Input
+                id="pin-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="new-pin">New PIN</Label>
+            <Input
+              id="new-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(digitsOnly(e.target.value))}
+              maxLength={4}
+              className="w-32 tracking-widest"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-pin">Confirm New PIN</Label>
+            <Input
+              id="confirm-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(digitsOnly(e.target.value))}
+              maxLength={4}
+              className="w-32 tracking-widest"
+              required
+            />
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button
+            type="submit"
+            className="bg-primary-purple hover:bg-primary-purple/90"
+            disabled={isSaving || isLoading}
+          >
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : null}
+            {status?.is_set ? "Change PIN" : "Set PIN"}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
+
+export default TransactionPinSettings;
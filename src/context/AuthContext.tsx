@@ -4,10 +4,22 @@ import { useToast } from "@/components/ui/use-toast";
 import { supabase, debugAuth } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 
+type AssuranceLevel = "aal1" | "aal2";
+
+interface Assurance {
+  currentLevel: AssuranceLevel | null;
+  nextLevel: AssuranceLevel | null;
+}
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  // Signed in with a password but the TOTP code is still outstanding
+  mfaRequired: boolean;
+  // The account has a verified TOTP authenticator
+  hasTwoFactor: boolean;
+  refreshAssurance: () => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -16,9 +28,31 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// What supabase.auth.mfa.getAuthenticatorAssuranceLevel() reports, worked out
+// from a session we already hold so it can run inside the auth listener
+// without waiting on the auth client's lock
+const assuranceOf = (session: Session | null): Assurance => {
+  if (!session) {
+    return { currentLevel: null, nextLevel: null };
+  }
+
+  let currentLevel: AssuranceLevel | null = null;
+  try {
+    const payload = session.access_token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    currentLevel = JSON.parse(atob(payload)).aal ?? null;
+  } catch (err) {
+    console.error("Could not read the session's assurance level:", err);
+  }
+
+  const hasVerifiedFactor = (session.user.factors ?? []).some((factor) => factor.status === "verified");
+
+  return { currentLevel, nextLevel: hasVerifiedFactor ? "aal2" : currentLevel };
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [assurance, setAssurance] = useState<Assurance>({ currentLevel: null, nextLevel: null });
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const { toast } = useToast();
 
@@ -71,6 +105,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         
         // Update session state immediately
         setSession(currentSession);
+        setAssurance(assuranceOf(currentSession));
         
         if (currentSession?.user) {
           try {
@@ -107,6 +142,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // If no session exists, we can stop loading immediately
       if (!session) {
         setSession(null);
+        setAssurance(assuranceOf(null));
         setUser(null);
         setIsLoading(false);
         return;
@@ -150,6 +186,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       // Set session immediately
       setSession(data.session);
+      const sessionAssurance = assuranceOf(data.session);
+      setAssurance(sessionAssurance);
       
       // Fetch profile data after successful login
       if (data.session?.user) {
@@ -162,10 +200,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setUser(profileData);
       }
       
-      toast({
-        title: "Login successful",
-        description: `Welcome back!`,
-      });
+      // With 2FA on, LoginForm asks for the TOTP code next
+      if (sessionAssurance.nextLevel !== "aal2" || sessionAssurance.currentLevel === "aal2") {
+        toast({
+          title: "Login successful",
+          description: `Welcome back!`,
+        });
+      }
       
       // Debug auth state
       debugAuth();
@@ -219,6 +260,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       await supabase.auth.signOut();
       setUser(null);
       setSession(null);
+      setAssurance(assuranceOf(null));
       
       toast({
         title: "Logged out",
@@ -233,6 +275,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Pick up a change of authenticators, e.g. after one is removed, which the
+  // current session doesn't reflect until it is refreshed
+  const refreshAssurance = async () => {
+    const { data, error } = await supabase.auth.refreshSession();
+    if (error) throw error;
+
+    setSession(data.session);
+    setAssurance(assuranceOf(data.session));
+  };
+
   const updateUserProfile = async (userData: Partial<User>) => {
     if (!user) return;
     
@@ -274,6 +326,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         user,
         isLoading,
         isAuthenticated: !!user && !!session,
+        mfaRequired: assurance.currentLevel === "aal1" && assurance.nextLevel === "aal2",
+        hasTwoFactor: assurance.nextLevel === "aal2",
+        refreshAssurance,
         login,
         register,
         logout,
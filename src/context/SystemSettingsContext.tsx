@@ -0,0 +1,89 @@
+import React, { createContext, useContext, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CurrencyCode,
+  DateFormat,
+  formatCurrency as formatCurrencyAs,
+  formatDate as formatDateAs,
+} from "@/lib/format";
+
+export interface SystemSettings {
+  site_name: string;
+  maintenance_mode: boolean;
+  maintenance_ends_at: string | null;
+  maintenance_message: string;
+  default_currency: CurrencyCode;
+  date_format: DateFormat;
+}
+
+// Used until the first load, and for any key missing from the table
+const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  site_name: "BigBSubz",
+  maintenance_mode: false,
+  maintenance_ends_at: null,
+  maintenance_message: "",
+  default_currency: "NGN",
+  date_format: "DD/MM/YYYY",
+};
+
+// The rest of the tab title, after the site name
+const TITLE_TAGLINE = " - Your Cheap Data Plug!";
+
+// Settings are re-read this often, so an admin's change reaches everyone
+// with the site open without them reloading
+const REFRESH_INTERVAL_MS = 60_000;
+
+interface SystemSettingsContextType {
+  settings: SystemSettings;
+  isLoading: boolean;
+  formatCurrency: (amount: number) => string;
+  formatDate: (value: string | Date, withTime?: boolean) => string;
+  refreshSettings: () => Promise<void>;
+}
+
+const SystemSettingsContext = createContext<SystemSettingsContextType | undefined>(undefined);
+
+export const SystemSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ["systemSettings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_system_settings");
+
+      if (error) throw error;
+      return data as unknown as Partial<SystemSettings>;
+    },
+    refetchInterval: REFRESH_INTERVAL_MS,
+    staleTime: REFRESH_INTERVAL_MS / 2,
+  });
+
+  const settings: SystemSettings = { ...DEFAULT_SYSTEM_SETTINGS, ...data };
+
+  useEffect(() => {
+    document.title = `${settings.site_name}${TITLE_TAGLINE}`;
+  }, [settings.site_name]);
+
+  return (
+    <SystemSettingsContext.Provider
+      value={{
+        settings,
+        isLoading,
+        formatCurrency: (amount) => formatCurrencyAs(amount, settings.default_currency),
+        formatDate: (value, withTime = true) => formatDateAs(value, settings.date_format, withTime),
+        refreshSettings: async () => {
+          await refetch();
+        },
+      }}
+    >
+      {children}
+    </SystemSettingsContext.Provider>
+  );
+};
+
+export const useSystemSettings = () => {
+  const context = useContext(SystemSettingsContext);
+  if (context === undefined) {
+    throw new Error("useSystemSettings must be used within a SystemSettingsProvider");
+  }
+  return context;
+};
@@ -9,6 +9,219 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          ip: string | null
+          target_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          ip?: string | null
+          target_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          ip?: string | null
+          target_id?: string | null
+          target_type?: string
+        }
+        Relationships: []
+      }
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      beneficiaries: {
+        Row: {
+          created_at: string
+          customer_name: string | null
+          id: string
+          identifier: string
+          last_used_at: string | null
+          meter_type: string | null
+          nickname: string
+          provider: string
+          service: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          customer_name?: string | null
+          id?: string
+          identifier: string
+          last_used_at?: string | null
+          meter_type?: string | null
+          nickname: string
+          provider: string
+          service: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          customer_name?: string | null
+          id?: string
+          identifier?: string
+          last_used_at?: string | null
+          meter_type?: string | null
+          nickname?: string
+          provider?: string
+          service?: string
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      bulk_purchase_items: {
+        Row: {
+          amount: number
+          batch_id: string
+          id: string
+          message: string | null
+          network: string
+          phone_number: string
+          plan_code: string | null
+          plan_id: string | null
+          processed_at: string | null
+          reference: string
+          row_number: number
+          service: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          batch_id: string
+          id?: string
+          message?: string | null
+          network: string
+          phone_number: string
+          plan_code?: string | null
+          plan_id?: string | null
+          processed_at?: string | null
+          reference: string
+          row_number: number
+          service: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          batch_id?: string
+          id?: string
+          message?: string | null
+          network?: string
+          phone_number?: string
+          plan_code?: string | null
+          plan_id?: string | null
+          processed_at?: string | null
+          reference?: string
+          row_number?: number
+          service?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_purchase_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_purchase_items_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "data_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_purchases: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          file_name: string | null
+          id: string
+          status: string
+          total_amount: number
+          total_items: number
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          status?: string
+          total_amount: number
+          total_items: number
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          status?: string
+          total_amount?: number
+          total_items?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       cable_packages: {
         Row: {
           amount: number
@@ -83,6 +296,95 @@ export type Database = {
         }
         Relationships: []
       }
+      callback_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          last_url: string | null
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_url?: string | null
+          next_attempt_at?: string
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_url?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "callback_deliveries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      callback_endpoints: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          secret: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       data_plans: {
         Row: {
           amount: number
@@ -127,6 +429,51 @@ export type Database = {
           },
         ]
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          data: Json
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          recipient: string
+          sent_at: string | null
+          status: string
+          template: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          data?: Json
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          template: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          data?: Json
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          template?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       electricity_providers: {
         Row: {
           api_balance: number | null
@@ -157,6 +504,30 @@ export type Database = {
         }
         Relationships: []
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       network_providers: {
         Row: {
           api_balance: number | null
@@ -187,33 +558,326 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          link: string | null
+          message: string
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          link?: string | null
+          message: string
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          link?: string | null
+          message?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      pricing_tiers: {
+        Row: {
+          airtime_fee_flat: number
+          airtime_fee_percent: number
+          cable_fee_flat: number
+          cable_fee_percent: number
+          code: string
+          created_at: string
+          daily_limit: number | null
+          data_fee_flat: number
+          data_fee_percent: number
+          description: string | null
+          electricity_fee_flat: number
+          electricity_fee_percent: number
+          features: string[]
+          highlighted: boolean
+          monthly_limit: number | null
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          airtime_fee_flat?: number
+          airtime_fee_percent?: number
+          cable_fee_flat?: number
+          cable_fee_percent?: number
+          code: string
+          created_at?: string
+          daily_limit?: number | null
+          data_fee_flat?: number
+          data_fee_percent?: number
+          description?: string | null
+          electricity_fee_flat?: number
+          electricity_fee_percent?: number
+          features?: string[]
+          highlighted?: boolean
+          monthly_limit?: number | null
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          airtime_fee_flat?: number
+          airtime_fee_percent?: number
+          cable_fee_flat?: number
+          cable_fee_percent?: number
+          code?: string
+          created_at?: string
+          daily_limit?: number | null
+          data_fee_flat?: number
+          data_fee_percent?: number
+          description?: string | null
+          electricity_fee_flat?: number
+          electricity_fee_percent?: number
+          features?: string[]
+          highlighted?: boolean
+          monthly_limit?: number | null
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           balance: number
           created_at: string
           email: string
+          email_notifications: boolean
           id: string
+          marketing_emails: boolean
           name: string | null
+          pricing_tier: string
           role: string
+          transaction_alerts: boolean
           updated_at: string
         }
         Insert: {
           balance?: number
           created_at?: string
           email: string
+          email_notifications?: boolean
           id: string
+          marketing_emails?: boolean
           name?: string | null
+          pricing_tier?: string
           role?: string
+          transaction_alerts?: boolean
           updated_at?: string
         }
         Update: {
           balance?: number
           created_at?: string
           email?: string
+          email_notifications?: boolean
           id?: string
+          marketing_emails?: boolean
           name?: string | null
+          pricing_tier?: string
           role?: string
+          transaction_alerts?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_pricing_tier_fkey"
+            columns: ["pricing_tier"]
+            isOneToOne: false
+            referencedRelation: "pricing_tiers"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      scheduled_purchases: {
+        Row: {
+          amount: number | null
+          claimed_until: string | null
+          created_at: string
+          day_of_month: number | null
+          day_of_week: number | null
+          failure_count: number
+          frequency: string
+          id: string
+          last_message: string | null
+          last_reference: string | null
+          last_run_at: string | null
+          last_status: string | null
+          meter_type: string | null
+          name: string
+          next_run_at: string | null
+          package_id: string | null
+          plan_id: string | null
+          provider: string
+          recipient: string
+          service: string
+          status: string
+          time_of_day: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          claimed_until?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          day_of_week?: number | null
+          failure_count?: number
+          frequency: string
+          id?: string
+          last_message?: string | null
+          last_reference?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          meter_type?: string | null
+          name: string
+          next_run_at?: string | null
+          package_id?: string | null
+          plan_id?: string | null
+          provider: string
+          recipient: string
+          service: string
+          status?: string
+          time_of_day?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          claimed_until?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          day_of_week?: number | null
+          failure_count?: number
+          frequency?: string
+          id?: string
+          last_message?: string | null
+          last_reference?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          meter_type?: string | null
+          name?: string
+          next_run_at?: string | null
+          package_id?: string | null
+          plan_id?: string | null
+          provider?: string
+          recipient?: string
+          service?: string
+          status?: string
+          time_of_day?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_purchases_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "cable_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_purchases_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "data_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_maintenance: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string | null
+          id: string
+          message: string | null
+          provider: string | null
+          service: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string | null
+          id?: string
+          message?: string | null
+          provider?: string | null
+          service: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string | null
+          id?: string
+          message?: string | null
+          provider?: string | null
+          service?: string
+        }
+        Relationships: []
+      }
+      system_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      transaction_pins: {
+        Row: {
+          created_at: string
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          salt: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          salt: string
           updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          salt?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -269,6 +933,50 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_reverse_transaction: {
+        Args: { transaction_id: string; reason: string }
+        Returns: {
+          amount: number
+          created_at: string
+          details: Json | null
+          id: string
+          provider: string | null
+          recipient: string | null
+          reference: string
+          status: string
+          type: string
+          user_id: string | null
+        }
+      }
+      admin_stats: {
+        Args: { start_date?: string; end_date?: string; bucket?: string }
+        Returns: Json
+      }
+      admin_system_settings: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          key: string
+          value: Json
+          updated_at: string
+          updated_by_name: string | null
+        }[]
+      }
+      admin_update_system_settings: {
+        Args: { changes: Json }
+        Returns: Json
+      }
+      check_transaction_pin: {
+        Args: { user_uuid: string; pin: string }
+        Returns: Json
+      }
+      create_api_key: {
+        Args: { key_name: string }
+        Returns: Json
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
       get_profile_by_id: {
         Args: { user_id: string }
         Returns: {
@@ -281,6 +989,75 @@ export type Database = {
           updated_at: string
         }[]
       }
+      get_system_settings: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      maintenance_status: {
+        Args: { service_name: string; provider_code?: string | null }
+        Returns: Json
+      }
+      mfa_recovery_codes_remaining: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      notification_preferences: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      record_admin_action: {
+        Args: {
+          action: string
+          target_type: string
+          target_id: string
+          before: Json
+          after: Json
+          actor?: string
+          ip?: string
+        }
+        Returns: undefined
+      }
+      redeem_mfa_recovery_code: {
+        Args: { user_uuid: string; code: string }
+        Returns: boolean
+      }
+      revoke_api_key: {
+        Args: { key_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          user_id: string
+        }
+      }
+      set_transaction_pin: {
+        Args: { new_pin: string }
+        Returns: Json
+      }
+      spend_usage: {
+        Args: { user_uuid: string }
+        Returns: Json
+      }
+      transaction_pin_status: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      update_notification_preferences: {
+        Args: {
+          email_notifications: boolean
+          transaction_alerts: boolean
+          marketing_emails: boolean
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,47 @@
+// Currency and date formatting for the formats the admin can choose under
+// System Settings. Components normally use the bound versions from
+// useSystemSettings() rather than calling these directly.
+
+// Wallets, prices and provider amounts are all in naira and nothing is
+// converted, so naira is the only currency amounts can be shown in
+export type CurrencyCode = "NGN";
+
+export type DateFormat = "DD/MM/YYYY" | "MM/DD/YYYY" | "YYYY-MM-DD";
+
+// The locale each currency reads most naturally in
+const CURRENCY_LOCALES: Record<CurrencyCode, string> = {
+  NGN: "en-NG",
+};
+
+export const formatCurrency = (amount: number, currency: CurrencyCode = "NGN") =>
+  new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? "en-NG", {
+    style: "currency",
+    currency,
+  }).format(Number(amount) || 0);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// e.g. 19/10/2026 14:05 for DD/MM/YYYY, in the viewer's time zone
+export const formatDate = (
+  value: string | Date,
+  format: DateFormat = "DD/MM/YYYY",
+  withTime = true
+) => {
+  const date = value instanceof Date ? value : new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+
+  const day = pad(date.getDate());
+  const month = pad(date.getMonth() + 1);
+  const year = String(date.getFullYear());
+
+  const datePart = format === "MM/DD/YYYY"
+    ? `${month}/${day}/${year}`
+    : format === "YYYY-MM-DD"
+      ? `${year}-${month}-${day}`
+      : `${day}/${month}/${year}`;
+
+  return withTime ? `${datePart} ${pad(date.getHours())}:${pad(date.getMinutes())}` : datePart;
+};
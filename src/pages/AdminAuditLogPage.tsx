@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Loader2, Search, FileDown, Eye } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type AuditEntry = Tables<"admin_audit_log">;
+
+const ITEMS_PER_PAGE = 20;
+
+// Exports are capped so a wide search can't pull the whole log into the browser
+const EXPORT_LIMIT = 5000;
+
+const ACTION_LABELS: Record<string, string> = {
+  "user.role_changed": "Role changed",
+  "user.pricing_tier_changed": "Pricing tier changed",
+  "wallet.adjusted": "Wallet adjusted",
+  "provider.balance_changed": "API balance changed",
+  "settings.changed": "Setting changed",
+  "maintenance.started": "Maintenance started",
+  "maintenance.ended": "Maintenance ended",
+  "transaction.reversed": "Transaction reversed",
+  "provider_secret.rotated": "Credential rotated",
+  "provider_secret.cleared": "Credential removed",
+};
+
+// Select items can't have an empty value
+const ALL_ACTIONS = "all";
+
+interface AuditFilters {
+  search: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+// PostgREST filter syntax uses commas and brackets, so they can't appear in
+// the search term
+const searchTerm = (search: string) => search.replace(/[,()%*]/g, " ").trim();
+
+const buildQuery = ({ search, action, from, to }: AuditFilters) => {
+  let query = supabase
+    .from("admin_audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false });
+
+  const term = searchTerm(search);
+  if (term) {
+    query = query.or(
+      `actor_name.ilike.%${term}%,target_id.ilike.%${term}%,ip.ilike.%${term}%,action.ilike.%${term}%`
+    );
+  }
+  if (action !== ALL_ACTIONS) {
+    query = query.eq("action", action);
+  }
+  if (from) {
+    query = query.gte("created_at", new Date(`${from}T00:00:00`).toISOString());
+  }
+  if (to) {
+    query = query.lt("created_at", new Date(new Date(`${to}T00:00:00`).getTime() + 86_400_000).toISOString());
+  }
+
+  return query;
+};
+
+const describeValue = (value: AuditEntry["before"]) =>
+  value === null ? "" : JSON.stringify(value);
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Read-only view of admin_audit_log. Entries are written by the database
+// and can't be edited or removed, here or anywhere else.
+const AdminAuditLogPage = () => {
+  const [filters, setFilters] = useState<AuditFilters>({ search: "", action: ALL_ACTIONS, from: "", to: "" });
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const { formatDate } = useSystemSettings();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-audit-log", filters, currentPage],
+    queryFn: async () => {
+      const { data, count, error } = await buildQuery(filters)
+        .range((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE - 1);
+
+      if (error) {
+        console.error("Error fetching audit log:", error);
+        throw new Error("Failed to fetch the audit log");
+      }
+
+      return { entries: data, total: count ?? 0 };
+    },
+  });
+
+  const totalPages = Math.ceil((data?.total ?? 0) / ITEMS_PER_PAGE);
+
+  const updateFilters = (changes: Partial<AuditFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setCurrentPage(1);
+  };
+
+  const exportToCsv = async () => {
+    setIsExporting(true);
+
+    try {
+      const { data: entries, count, error } = await buildQuery(filters).range(0, EXPORT_LIMIT - 1);
+      if (error) throw error;
+
+      const headers = ["Date", "Actor", "Actor ID", "Action", "Target Type", "Target", "Before", "After", "IP"];
+      const rows = entries.map((entry) => [
+        entry.created_at,
+        entry.actor_name,
+        entry.actor_id,
+        entry.action,
+        entry.target_type,
+        entry.target_id,
+        describeValue(entry.before),
+        describeValue(entry.after),
+        entry.ip,
+      ]);
+
+      const csvContent = [
+        headers.join(","),
+        ...rows.map((row) => row.map(csvCell).join(",")),
+      ].join("\n");
+
+      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", `admin-audit-log-${new Date().toISOString().split("T")[0]}.csv`);
+      link.click();
+
+      if ((count ?? 0) > EXPORT_LIMIT) {
+        toast({
+          title: "Export truncated",
+          description: `Only the latest ${EXPORT_LIMIT} of ${count} matching entries were exported. Narrow the dates to export the rest.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Failed to export the audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <h1 className="text-2xl font-bold tracking-tight">Audit Log</h1>
+        <Button
+          onClick={exportToCsv}
+          disabled={isExporting || !data?.total}
+          className="flex items-center gap-2 bg-primary-purple hover:bg-primary-purple/90"
+        >
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle>Admin Actions</CardTitle>
+          <CardDescription>
+            Every role change, API balance top-up, settings change and reversal, with who made it
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4 flex flex-col gap-4 lg:flex-row lg:items-end">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+              <Input
+                placeholder="Search by admin, target, IP or action..."
+                className="pl-9"
+                value={filters.search}
+                onChange={(e) => updateFilters({ search: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <Select value={filters.action} onValueChange={(action) => updateFilters({ action })}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="All actions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="space-y-1">
+                <Label htmlFor="audit-from" className="text-xs text-gray-500">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilters({ from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-to" className="text-xs text-gray-500">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilters({ to: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary-purple" />
+            </div>
+          ) : !data?.entries.length ? (
+            <div className="py-8 text-center">
+              <p className="text-gray-500">No audit entries found</p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Admin</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead className="hidden lg:table-cell">IP</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{formatDate(entry.created_at)}</TableCell>
+                        <TableCell>{entry.actor_name || (entry.actor_id ? "Unknown" : "System")}</TableCell>
+                        <TableCell>{ACTION_LABELS[entry.action] ?? entry.action}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.target_id || "-"}</TableCell>
+                        <TableCell className="hidden lg:table-cell font-mono text-xs">{entry.ip || "-"}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setSelectedEntry(entry)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {totalPages > 1 && (
+                <div className="mt-4 flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    Page {currentPage} of {totalPages} · {data.total} entries
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+                      disabled={currentPage === 1}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+                      disabled={currentPage === totalPages}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedEntry && (ACTION_LABELS[selectedEntry.action] ?? selectedEntry.action)}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && `${formatDate(selectedEntry.created_at)} by ${selectedEntry.actor_name || "System"}${selectedEntry.ip ? ` from ${selectedEntry.ip}` : ""}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm font-medium text-gray-500">Target</p>
+                <p className="font-mono text-sm break-all">
+                  {selectedEntry.target_type}{selectedEntry.target_id ? ` · ${selectedEntry.target_id}` : ""}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Before</p>
+                <pre className="mt-1 max-h-48 overflow-auto rounded-md bg-gray-50 p-3 text-xs">
+                  {selectedEntry.before ? JSON.stringify(selectedEntry.before, null, 2) : "—"}
+                </pre>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">After</p>
+                <pre className="mt-1 max-h-48 overflow-auto rounded-md bg-gray-50 p-3 text-xs">
+                  {selectedEntry.after ? JSON.stringify(selectedEntry.after, null, 2) : "—"}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminAuditLogPage;
@@ -19,16 +19,12 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
 import { Loader2 } from "lucide-react";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import SystemSettingsForm from "@/components/dashboard/admin/SystemSettingsForm";
+import ServiceMaintenanceSettings from "@/components/dashboard/admin/ServiceMaintenanceSettings";
+import ProviderSecretsSettings from "@/components/dashboard/admin/ProviderSecretsSettings";
 
 const AdminSettingsPage = () => {
   const { user, updateUserProfile } = useAuth();
@@ -228,149 +224,20 @@ const AdminSettingsPage = () => {
             </form>
           </Card>
 
-          <Card className="mt-4">
-            <CardHeader>
-              <CardTitle>Two-Factor Authentication</CardTitle>
-              <CardDescription>
-                Secure your account with 2FA
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex justify-between items-center">
-                <div>
-                  <h3 className="font-medium">Enable 2FA</h3>
-                  <p className="text-sm text-gray-500">
-                    Add an extra layer of security to your account
-                  </p>
-                </div>
-                <Button>Setup 2FA</Button>
-              </div>
-            </CardContent>
-          </Card>
+          <div className="mt-4">
+            <TwoFactorSettings />
+          </div>
         </TabsContent>
 
         {/* System Settings Tab */}
-        <TabsContent value="system" className="mt-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>System Configuration</CardTitle>
-              <CardDescription>
-                Manage general system settings
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="site-name">Site Name</Label>
-                <Input
-                  id="site-name"
-                  defaultValue="BigBSubz"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="maintenance-mode">Maintenance Mode</Label>
-                <div className="flex items-center space-x-2">
-                  <Checkbox id="maintenance-mode" />
-                  <label
-                    htmlFor="maintenance-mode"
-                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                  >
-                    Enable maintenance mode
-                  </label>
-                </div>
-                <p className="text-xs text-gray-500">
-                  When enabled, the site will display a maintenance message to all users.
-                </p>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="default-currency">Default Currency</Label>
-                <Select defaultValue="NGN">
-                  <SelectTrigger id="default-currency">
-                    <SelectValue placeholder="Select currency" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="NGN">Nigerian Naira (NGN)</SelectItem>
-                    <SelectItem value="USD">US Dollar (USD)</SelectItem>
-                    <SelectItem value="EUR">Euro (EUR)</SelectItem>
-                    <SelectItem value="GBP">British Pound (GBP)</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="date-format">Date Format</Label>
-                <Select defaultValue="DD/MM/YYYY">
-                  <SelectTrigger id="date-format">
-                    <SelectValue placeholder="Select date format" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
-                    <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
-                    <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </CardContent>
-            <CardFooter>
-              <Button className="bg-primary-purple hover:bg-primary-purple/90">
-                Save System Settings
-              </Button>
-            </CardFooter>
-          </Card>
+        <TabsContent value="system" className="mt-4 space-y-4">
+          <SystemSettingsForm />
+          <ServiceMaintenanceSettings />
         </TabsContent>
 
         {/* API Config Tab */}
         <TabsContent value="api" className="mt-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>API Configuration</CardTitle>
-              <CardDescription>
-                Manage API settings and credentials
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="paystack-key">Paystack Secret Key</Label>
-                <Input
-                  id="paystack-key"
-                  type="password"
-                  defaultValue="sk_test_••••••••••••••••••••••••••••••"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="monnify-key">Monnify API Key</Label>
-                <Input
-                  id="monnify-key"
-                  type="password"
-                  defaultValue="••••••••••••••••••••••••••••••"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="vtpass-key">VTPass API Key</Label>
-                <Input
-                  id="vtpass-key"
-                  type="password"
-                  defaultValue="••••••••••••••••••••••••••••••"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label>Webhook URLs</Label>
-                <Input
-                  placeholder="Paystack Webhook URL"
-                  defaultValue="https://bigbsubz.com/api/webhooks/paystack"
-                />
-              </div>
-            </CardContent>
-            <CardFooter>
-              <Button className="bg-primary-purple hover:bg-primary-purple/90">
-                Update API Settings
-              </Button>
-            </CardFooter>
-          </Card>
+          <ProviderSecretsSettings />
         </TabsContent>
       </Tabs>
     </div>
@@ -2,6 +2,8 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
 import {
   Card,
   CardContent,
@@ -19,6 +21,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -35,11 +39,12 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { Button } from "@/components/ui/button";
-import { Loader2, Search, FileDown, Eye } from "lucide-react";
+import { Loader2, Search, FileDown, Eye, Undo2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -65,6 +70,16 @@ type UserProfile = {
 
 const ITEMS_PER_PAGE = 10;
 
+// Purchases debit the wallet, so these are the only types a reversal applies to
+const REVERSIBLE_TYPES = ["airtime", "data", "electricity", "cable"];
+
+const REVERSAL_ERRORS: Record<string, string> = {
+  ALREADY_REVERSED: "This transaction has already been reversed",
+  NOT_REVERSIBLE: "Only purchases can be reversed",
+  REASON_REQUIRED: "Please give a reason for the reversal",
+  NOT_AUTHORIZED: "Only admins can reverse transactions",
+};
+
 const AdminTransactionsPage = () => {
   const [search, setSearch] = useState("");
   const [typeFilter, setTypeFilter] = useState<string>("");
@@ -72,8 +87,12 @@ const AdminTransactionsPage = () => {
   const [selectedTx, setSelectedTx] = useState<Transaction | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [userProfiles, setUserProfiles] = useState<Record<string, UserProfile>>({});
+  const [reversalReason, setReversalReason] = useState("");
+  const [isReversing, setIsReversing] = useState(false);
+  const { toast } = useToast();
+  const { formatDate, formatCurrency } = useSystemSettings();
 
-  const { data: transactions, isLoading } = useQuery({
+  const { data: transactions, isLoading, refetch } = useQuery({
     queryKey: ["admin-transactions"],
     queryFn: async () => {
       // Get all transactions as admin
@@ -133,21 +152,6 @@ const AdminTransactionsPage = () => {
     currentPage * ITEMS_PER_PAGE
   );
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return new Intl.DateTimeFormat("en-NG", {
-      dateStyle: "medium",
-      timeStyle: "short",
-    }).format(date);
-  };
-
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat("en-NG", {
-      style: "currency",
-      currency: "NGN",
-    }).format(amount);
-  };
-
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "completed":
@@ -157,11 +161,54 @@ const AdminTransactionsPage = () => {
         return "bg-yellow-100 text-yellow-800";
       case "failed":
         return "bg-red-100 text-red-800";
+      case "reversed":
+        return "bg-blue-100 text-blue-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
+  const canReverse = (tx: Transaction) =>
+    REVERSIBLE_TYPES.includes(tx.type) && tx.status !== "reversed";
+
+  const closeDetails = () => {
+    setSelectedTx(null);
+    setReversalReason("");
+  };
+
+  const handleReverse = async () => {
+    if (!selectedTx) return;
+    setIsReversing(true);
+
+    try {
+      const { data: reversal, error } = await supabase.rpc("admin_reverse_transaction", {
+        transaction_id: selectedTx.id,
+        reason: reversalReason.trim(),
+      });
+
+      if (error) {
+        const code = Object.keys(REVERSAL_ERRORS).find((key) => error.message.includes(key));
+        throw new Error(code ? REVERSAL_ERRORS[code] : error.message);
+      }
+
+      toast({
+        title: "Transaction Reversed",
+        description: `${formatCurrency(selectedTx.amount)} returned to the customer's wallet (${reversal.reference})`,
+      });
+
+      closeDetails();
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Reversal Failed",
+        description: error.message || "Failed to reverse transaction",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReversing(false);
+    }
+  };
+
   const exportToCsv = () => {
     if (!filteredTransactions?.length) return;
     
@@ -238,6 +285,7 @@ const AdminTransactionsPage = () => {
                   <SelectItem value="electricity">Electricity</SelectItem>
                   <SelectItem value="cable">Cable TV</SelectItem>
                   <SelectItem value="funding">Wallet Funding</SelectItem>
+                  <SelectItem value="reversal">Reversal</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -249,6 +297,7 @@ const AdminTransactionsPage = () => {
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="reversed">Reversed</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -286,7 +335,7 @@ const AdminTransactionsPage = () => {
                           <TableCell>{formatDate(tx.created_at)}</TableCell>
                           <TableCell>{user?.name || "Unknown"}</TableCell>
                           <TableCell className="capitalize">{tx.type}</TableCell>
-                          <TableCell>{formatAmount(tx.amount)}</TableCell>
+                          <TableCell>{formatCurrency(tx.amount)}</TableCell>
                           <TableCell>
                             <span
                               className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(
@@ -355,7 +404,7 @@ const AdminTransactionsPage = () => {
         </CardContent>
       </Card>
 
-      <Dialog open={!!selectedTx} onOpenChange={(open) => !open && setSelectedTx(null)}>
+      <Dialog open={!!selectedTx} onOpenChange={(open) => !open && closeDetails()}>
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>Transaction Details</DialogTitle>
@@ -372,7 +421,7 @@ const AdminTransactionsPage = () => {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Amount</p>
-                  <p>{formatAmount(selectedTx.amount)}</p>
+                  <p>{formatCurrency(selectedTx.amount)}</p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Type</p>
@@ -420,8 +469,39 @@ const AdminTransactionsPage = () => {
                   </div>
                 )}
               </div>
+              {canReverse(selectedTx) && (
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="reversal-reason">Reverse and refund</Label>
+                  <Textarea
+                    id="reversal-reason"
+                    placeholder="Reason for reversing this transaction"
+                    value={reversalReason}
+                    onChange={(e) => setReversalReason(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    The amount is credited back to the customer's wallet and this transaction is marked as reversed.
+                  </p>
+                </div>
+              )}
             </div>
           )}
+          {selectedTx && canReverse(selectedTx) && (
+            <DialogFooter>
+              <Button
+                variant="destructive"
+                onClick={handleReverse}
+                disabled={isReversing || !reversalReason.trim()}
+                className="flex items-center gap-2"
+              >
+                {isReversing ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Undo2 className="h-4 w-4" />
+                )}
+                Reverse Transaction
+              </Button>
+            </DialogFooter>
+          )}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,507 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/hooks/use-toast";
+import { FileDown, Loader2, Upload } from "lucide-react";
+import TransactionPinInput from "@/components/dashboard/customer/TransactionPinInput";
+
+const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+
+const TEMPLATE = "phone,network,amount,plan_code\n08031234567,mtn,500,\n08051234567,glo,,GLO-1GB\n";
+
+// Header names we accept for each column
+const COLUMNS = {
+  phone: ["phone", "phone_number", "phonenumber", "msisdn"],
+  network: ["network", "provider"],
+  amount: ["amount"],
+  planCode: ["plan_code", "plancode", "plan"],
+};
+
+interface BulkRow {
+  row: number;
+  phone: string;
+  network: string;
+  amount: string;
+  planCode: string;
+}
+
+interface ValidatedRow {
+  row: number;
+  service: "airtime" | "data" | null;
+  phoneNumber: string;
+  network: string;
+  amount: number;
+  planName: string | null;
+  fee: number;
+  charged: number;
+  error: string | null;
+}
+
+interface BatchSummary {
+  batchId?: string;
+  rows: ValidatedRow[];
+  totals: { rows: number; valid: number; invalid: number; amount: number; fees: number; charged: number };
+  balance: number;
+  usage?: { daily: { remaining: number | null }; monthly: { remaining: number | null } };
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF
+const parseCsv = (text: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((fields) => fields.some((value) => value.trim()));
+};
+
+const toRows = (records: string[][]): BulkRow[] => {
+  const [header = [], ...data] = records;
+  const names = header.map((name) => name.trim().toLowerCase());
+  const indexOf = (aliases: string[]) => names.findIndex((name) => aliases.includes(name));
+
+  const phone = indexOf(COLUMNS.phone);
+  const network = indexOf(COLUMNS.network);
+  const amount = indexOf(COLUMNS.amount);
+  const planCode = indexOf(COLUMNS.planCode);
+
+  if (phone === -1 || network === -1 || (amount === -1 && planCode === -1)) {
+    throw new Error("The CSV needs a header row with phone, network and amount or plan_code columns");
+  }
+
+  return data.map((fields, index) => ({
+    row: index + 1,
+    phone: fields[phone]?.trim() ?? "",
+    network: fields[network]?.trim() ?? "",
+    amount: amount === -1 ? "" : fields[amount]?.trim() ?? "",
+    planCode: planCode === -1 ? "" : fields[planCode]?.trim() ?? "",
+  }));
+};
+
+const escapeCsv = (value: string | number | null | undefined) => {
+  const text = String(value ?? "");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadCsv = (fileName: string, rows: (string | number | null)[][]) => {
+  const csvContent = rows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.click();
+};
+
+const statusClass = (status: string) =>
+  status === "success" || status === "completed" ? "bg-green-100 text-green-800" :
+  status === "pending" || status === "processing" || status === "queued" ? "bg-yellow-100 text-yellow-800" :
+  status === "reversed" ? "bg-blue-100 text-blue-800" :
+  "bg-red-100 text-red-800";
+
+const BulkPurchasePage = () => {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pin, setPin] = useState("");
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+
+  const { data: batches, refetch: refetchBatches } = useQuery({
+    queryKey: ["bulkPurchases", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("bulk_purchases")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+    refetchInterval: (query) =>
+      query.state.data?.some((batch) => batch.status !== "completed") ? 5000 : false
+  });
+
+  const selectedBatch = batches?.find((batch) => batch.id === selectedBatchId);
+
+  // Per-row status of the selected batch, polled until it completes
+  const { data: items } = useQuery({
+    queryKey: ["bulkPurchaseItems", selectedBatchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("bulk_purchase_items")
+        .select("*")
+        .eq("batch_id", selectedBatchId)
+        .order("row_number");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedBatchId,
+    refetchInterval: selectedBatch?.status === "completed" ? false : 5000
+  });
+
+  // Post the rows to bulk-purchase; a dry run only validates and prices them.
+  // Queuing the batch spends from the wallet, so it carries the PIN.
+  const callBulkPurchase = async (dryRun: boolean, batchRows: BulkRow[]) => {
+    const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError) throw sessionError;
+
+    const response = await fetch(`${functionUrl}/functions/v1/bulk-purchase`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${sessionData.session.access_token}`,
+      },
+      body: JSON.stringify({ rows: batchRows, fileName, dryRun, ...(dryRun ? {} : { pin }) }),
+    });
+
+    const result = await response.json();
+    if (result.data) {
+      setSummary(result.data);
+    }
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || "Bulk purchase request failed");
+    }
+    return result.data as BatchSummary;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setSummary(null);
+    setIsValidating(true);
+
+    try {
+      const parsed = toRows(parseCsv(await file.text()));
+      if (parsed.length === 0) {
+        throw new Error("The CSV has no rows");
+      }
+      setRows(parsed);
+      await callBulkPurchase(true, parsed);
+    } catch (error) {
+      setRows([]);
+      toast({
+        title: "Could not read CSV",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const result = await callBulkPurchase(false, rows);
+      setPin("");
+      toast({
+        title: "Batch queued",
+        description: `${result.totals.valid} purchases will be processed in the background.`,
+      });
+      setRows([]);
+      setSummary(null);
+      setSelectedBatchId(result.batchId ?? null);
+      refetchBatches();
+    } catch (error) {
+      setPin("");
+      toast({
+        title: "Batch not queued",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const exportResults = () => {
+    if (!items?.length || !selectedBatch) return;
+
+    downloadCsv(`bulk-${selectedBatch.created_at.split("T")[0]}-${selectedBatch.id.slice(0, 8)}.csv`, [
+      ["row", "phone", "network", "service", "amount", "plan_code", "status", "message", "reference"],
+      ...items.map((item) => [
+        item.row_number,
+        item.phone_number,
+        item.network,
+        item.service,
+        item.amount,
+        item.plan_code,
+        item.status,
+        item.message,
+        item.reference,
+      ]),
+    ]);
+  };
+
+  const remainingAllowance = summary?.usage
+    ? Math.min(
+      summary.usage.daily.remaining ?? Infinity,
+      summary.usage.monthly.remaining ?? Infinity
+    )
+    : Infinity;
+  const canSubmit = !!summary && summary.totals.invalid === 0 && summary.totals.charged <= summary.balance;
+  const finishedItems = items?.filter((item) => !["queued", "processing"].includes(item.status)).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Bulk Purchase</h1>
+        <p className="text-gray-500">Send airtime or data to many numbers from a CSV file</p>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Upload CSV</CardTitle>
+          <CardDescription>
+            One purchase per row with the columns phone, network, amount and plan_code. Leave
+            plan_code empty for airtime; for data the plan's price is used and amount is ignored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="bulk-file">CSV file</Label>
+              <Input id="bulk-file" type="file" accept=".csv,text/csv" onChange={handleFile} disabled={isValidating} />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => downloadCsv("bulk-purchase-template.csv", parseCsv(TEMPLATE))}
+            >
+              <FileDown className="mr-2 h-4 w-4" />
+              Template
+            </Button>
+          </div>
+
+          {isValidating && (
+            <p className="flex items-center text-sm text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Checking {fileName}...
+            </p>
+          )}
+
+          {summary && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-3 bg-gray-50 rounded-md">
+                  <p className="text-sm text-gray-500">Rows</p>
+                  <p className="text-xl font-bold">{summary.totals.rows}</p>
+                  {summary.totals.invalid > 0 && (
+                    <p className="text-sm text-red-600">{summary.totals.invalid} invalid</p>
+                  )}
+                </div>
+                <div className="p-3 bg-gray-50 rounded-md">
+                  <p className="text-sm text-gray-500">Face value</p>
+                  <p className="text-xl font-bold">₦{summary.totals.amount.toLocaleString()}</p>
+                  <p className="text-sm text-gray-500">+ ₦{summary.totals.fees.toLocaleString()} fees</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-md">
+                  <p className="text-sm text-gray-500">Total cost</p>
+                  <p className="text-xl font-bold">₦{summary.totals.charged.toLocaleString()}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-md">
+                  <p className="text-sm text-gray-500">Wallet balance</p>
+                  <p className={`text-xl font-bold ${summary.totals.charged > summary.balance ? "text-red-600" : ""}`}>
+                    ₦{summary.balance.toLocaleString()}
+                  </p>
+                  {summary.totals.charged > summary.balance && (
+                    <p className="text-sm text-red-600">
+                      ₦{(summary.totals.charged - summary.balance).toLocaleString()} short
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {summary.totals.charged > remainingAllowance && (
+                <p className="text-sm text-yellow-700 bg-yellow-50 p-3 rounded-md">
+                  This batch is more than your remaining transaction limit
+                  (₦{remainingAllowance.toLocaleString()}). Rows past the limit will fail and be refunded.
+                </p>
+              )}
+
+              <div className="overflow-x-auto max-h-96 border rounded-md">
+                <table className="w-full">
+                  <thead className="sticky top-0">
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Row</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Phone</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Network</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Purchase</th>
+                      <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {summary.rows.map((row) => (
+                      <tr key={row.row} className={row.error ? "bg-red-50" : ""}>
+                        <td className="px-4 py-2 text-sm">{row.row}</td>
+                        <td className="px-4 py-2 text-sm">{row.phoneNumber}</td>
+                        <td className="px-4 py-2 text-sm uppercase">{row.network}</td>
+                        <td className="px-4 py-2 text-sm">
+                          {row.error
+                            ? <span className="text-red-600">{row.error}</span>
+                            : row.service === "data" ? row.planName : `₦${row.amount.toLocaleString()} airtime`}
+                        </td>
+                        <td className="px-4 py-2 text-sm">{row.error ? "-" : `₦${row.charged.toLocaleString()}`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <TransactionPinInput id="bulk-pin" value={pin} onChange={setPin} />
+
+              <Button
+                onClick={handleSubmit}
+                className="bg-primary-purple hover:bg-primary-purple/90"
+                disabled={!canSubmit || isSubmitting || pin.length !== 4}
+              >
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Buy {summary.totals.valid} for ₦{summary.totals.charged.toLocaleString()}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Batches</CardTitle>
+          <CardDescription>Select a batch to see the status of each row</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {batches?.length === 0 && (
+            <p className="text-sm text-gray-500">No bulk purchases yet</p>
+          )}
+          {batches?.map((batch) => (
+            <button
+              key={batch.id}
+              type="button"
+              onClick={() => setSelectedBatchId(batch.id)}
+              className={`w-full flex items-center justify-between p-3 rounded-md text-left ${
+                batch.id === selectedBatchId ? "bg-primary-purple/10" : "bg-gray-50 hover:bg-gray-100"
+              }`}
+            >
+              <div>
+                <p className="font-medium">{batch.file_name || "Bulk purchase"}</p>
+                <p className="text-sm text-gray-500">
+                  {batch.total_items} rows · ₦{batch.total_amount.toLocaleString()} · {new Date(batch.created_at).toLocaleString()}
+                </p>
+              </div>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusClass(batch.status)}`}>
+                {batch.status}
+              </span>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selectedBatch && (
+        <Card className="glass-card overflow-hidden">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{selectedBatch.file_name || "Bulk purchase"}</span>
+              <Button
+                onClick={exportResults}
+                disabled={!items?.length}
+                className="flex items-center gap-2 bg-primary-purple hover:bg-primary-purple/90"
+              >
+                <FileDown className="h-4 w-4" />
+                Download Results
+              </Button>
+            </CardTitle>
+            <div className="space-y-1">
+              <Progress value={(finishedItems / selectedBatch.total_items) * 100} className="h-2" />
+              <p className="text-sm text-gray-500">{finishedItems} of {selectedBatch.total_items} processed</p>
+            </div>
+          </CardHeader>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Row</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Phone</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Purchase</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Message</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {items?.map((item) => (
+                  <tr key={item.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">{item.row_number}</td>
+                    <td className="px-4 py-3 text-sm">{item.phone_number}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className="uppercase">{item.network}</span>{" "}
+                      {item.service === "data" ? item.plan_code : `₦${item.amount.toLocaleString()} airtime`}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusClass(item.status)}`}>
+                        {item.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{item.message ?? ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BulkPurchasePage;
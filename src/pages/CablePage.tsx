@@ -1,5 +1,6 @@
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
@@ -10,16 +11,31 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import BeneficiaryPicker from "@/components/dashboard/customer/BeneficiaryPicker";
+import TransactionPinInput from "@/components/dashboard/customer/TransactionPinInput";
 
 const CablePage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  // "Buy again" links from the dashboard prefill the form
+  const [searchParams] = useSearchParams();
   const [processing, setProcessing] = useState(false);
-  const [smartCardNumber, setSmartCardNumber] = useState("");
+  const [smartCardNumber, setSmartCardNumber] = useState(searchParams.get("smartcard") ?? "");
   const [customerName, setCustomerName] = useState("");
-  const [selectedProvider, setSelectedProvider] = useState("");
-  const [selectedPackage, setSelectedPackage] = useState("");
+  const [currentBouquet, setCurrentBouquet] = useState("");
+  const [verificationToken, setVerificationToken] = useState("");
+  const [selectedProvider, setSelectedProvider] = useState(searchParams.get("provider") ?? "");
+  const [selectedPackage, setSelectedPackage] = useState(searchParams.get("package") ?? "");
   const [isVerifying, setIsVerifying] = useState(false);
+  const [pin, setPin] = useState("");
+  // Reference of the purchase being submitted. It is kept until the server
+  // answers, so retrying after a network error replays instead of charging again.
+  const pendingReference = useRef<string | null>(null);
+
+  // A changed order is a new purchase, not a retry of the unanswered one
+  useEffect(() => {
+    pendingReference.current = null;
+  }, [selectedProvider, selectedPackage, smartCardNumber]);
 
   // Fetch cable providers
   const { data: providers, isLoading: isLoadingProviders } = useQuery({
@@ -58,8 +74,16 @@ const CablePage = () => {
 
   const selectedPackageDetails = packages?.find(pkg => pkg.id === selectedPackage);
 
-  // Simulate smart card verification
-  const verifySmartCard = () => {
+  // The verified customer belongs to one provider and smart card number;
+  // changing either means verifying again
+  const clearVerification = () => {
+    setCustomerName("");
+    setCurrentBouquet("");
+    setVerificationToken("");
+  };
+
+  // Look the smart card up with the provider before payment
+  const verifySmartCard = async () => {
     if (!smartCardNumber || !selectedProvider) {
       toast({
         title: "Error",
@@ -70,22 +94,55 @@ const CablePage = () => {
     }
     
     setIsVerifying(true);
+    clearVerification();
     
-    // Simulate API call with timeout
-    setTimeout(() => {
-      setIsVerifying(false);
-      setCustomerName("John Viewer");
+    try {
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError) throw sessionError;
+      
+      const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+      const response = await fetch(`${functionUrl}/functions/v1/verify-customer`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionData.session.access_token}`,
+        },
+        body: JSON.stringify({
+          service: 'cable',
+          provider: selectedProvider,
+          customerId: smartCardNumber
+        }),
+      });
+      
+      const result = await response.json();
+      
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to verify smart card number");
+      }
+      
+      setCustomerName(result.data.customerName);
+      setCurrentBouquet(result.data.currentBouquet || "");
+      setVerificationToken(result.data.verificationToken);
       toast({
         title: "Smart Card Verified",
         description: "Customer details retrieved successfully",
       });
-    }, 1500);
+    } catch (error) {
+      console.error("Smart card verification error:", error);
+      toast({
+        title: "Verification Failed",
+        description: error.message || "We could not verify this smart card number",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
   const handleSubmit = async (e) => {
     e.preventDefault();
     
-    if (!smartCardNumber || !selectedProvider || !selectedPackage || !customerName) {
+    if (!smartCardNumber || !selectedProvider || !selectedPackage || !verificationToken) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields",
@@ -94,11 +151,22 @@ const CablePage = () => {
       return;
     }
     
+    if (pin.length !== 4) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your 4-digit transaction PIN",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setProcessing(true);
     
     try {
-      // Generate a unique reference
-      const reference = `CB-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      // Generate a unique reference (or reuse the one from an unanswered attempt)
+      const reference = pendingReference.current
+        ?? `CB-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      pendingReference.current = reference;
       
       const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
       if (sessionError) throw sessionError;
@@ -114,12 +182,15 @@ const CablePage = () => {
         body: JSON.stringify({
           packageId: selectedPackage,
           smartCardNumber,
-          customerName,
-          reference
+          verificationToken,
+          reference,
+          pin
         }),
       });
       
       const result = await response.json();
+      pendingReference.current = null;
+      setPin("");
       
       if (!response.ok || !result.success) {
         throw new Error(result.error || "Failed to process cable subscription");
@@ -132,7 +203,7 @@ const CablePage = () => {
       
       // Reset form
       setSmartCardNumber("");
-      setCustomerName("");
+      clearVerification();
       setSelectedPackage("");
       
     } catch (error) {
@@ -158,6 +229,19 @@ const CablePage = () => {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            <BeneficiaryPicker
+              service="cable"
+              current={{ identifier: smartCardNumber, provider: selectedProvider, customerName }}
+              onSelect={(beneficiary) => {
+                if (beneficiary.provider !== selectedProvider) {
+                  setSelectedProvider(beneficiary.provider);
+                  setSelectedPackage("");
+                }
+                setSmartCardNumber(beneficiary.identifier);
+                clearVerification();
+              }}
+            />
+
             <div className="space-y-2">
               <Label htmlFor="provider">Select Provider</Label>
               <Select
@@ -165,6 +249,7 @@ const CablePage = () => {
                 onValueChange={(value) => {
                   setSelectedProvider(value);
                   setSelectedPackage("");
+                  clearVerification();
                 }}
                 disabled={isLoadingProviders}
               >
@@ -192,7 +277,10 @@ const CablePage = () => {
                   id="smartcard"
                   placeholder="Enter your smart card number"
                   value={smartCardNumber}
-                  onChange={(e) => setSmartCardNumber(e.target.value)}
+                  onChange={(e) => {
+                    setSmartCardNumber(e.target.value);
+                    clearVerification();
+                  }}
                   className="bg-white/50"
                 />
                 <Button 
@@ -220,10 +308,12 @@ const CablePage = () => {
                 id="customer-name"
                 placeholder="Customer name will appear here after verification"
                 value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
                 readOnly={true}
                 className="bg-white/50"
               />
+              {currentBouquet && (
+                <p className="text-xs text-gray-500">Current bouquet: {currentBouquet}</p>
+              )}
             </div>
             
             <div className="space-y-2">
@@ -258,12 +348,14 @@ const CablePage = () => {
                 <p className="text-sm">{selectedPackageDetails.description}</p>
               </div>
             )}
+            
+            <TransactionPinInput value={pin} onChange={setPin} />
           </form>
         </CardContent>
         <CardFooter className="flex flex-col gap-4">
           <Button 
             onClick={handleSubmit}
-            disabled={processing || !customerName || !selectedPackage || !smartCardNumber || !selectedProvider}
+            disabled={processing || !verificationToken || !selectedPackage || !smartCardNumber || !selectedProvider || pin.length !== 4}
             className="w-full bg-primary-purple hover:bg-primary-purple/90"
           >
             {processing ? (
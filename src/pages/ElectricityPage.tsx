@@ -1,5 +1,6 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
@@ -10,16 +11,32 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import BeneficiaryPicker from "@/components/dashboard/customer/BeneficiaryPicker";
+import TransactionPinInput from "@/components/dashboard/customer/TransactionPinInput";
 
 const ElectricityPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  // "Buy again" links from the dashboard prefill the form
+  const [searchParams] = useSearchParams();
   const [processing, setProcessing] = useState(false);
-  const [meterNumber, setMeterNumber] = useState("");
+  const [meterNumber, setMeterNumber] = useState(searchParams.get("meter") ?? "");
   const [customerName, setCustomerName] = useState("");
-  const [amount, setAmount] = useState("");
-  const [selectedProvider, setSelectedProvider] = useState("");
+  const [customerAddress, setCustomerAddress] = useState("");
+  const [verificationToken, setVerificationToken] = useState("");
+  const [meterType, setMeterType] = useState(searchParams.get("meterType") ?? "prepaid");
+  const [amount, setAmount] = useState(searchParams.get("amount") ?? "");
+  const [selectedProvider, setSelectedProvider] = useState(searchParams.get("provider") ?? "");
   const [isVerifying, setIsVerifying] = useState(false);
+  const [pin, setPin] = useState("");
+  // Reference of the purchase being submitted. It is kept until the server
+  // answers, so retrying after a network error replays instead of charging again.
+  const pendingReference = useRef<string | null>(null);
+
+  // A changed order is a new purchase, not a retry of the unanswered one
+  useEffect(() => {
+    pendingReference.current = null;
+  }, [selectedProvider, meterNumber, meterType, amount]);
 
   // Fetch electricity providers
   const { data: providers, isLoading: isLoadingProviders } = useQuery({
@@ -35,8 +52,16 @@ const ElectricityPage = () => {
     }
   });
 
-  // Simulate meter number verification
-  const verifyMeterNumber = () => {
+  // The verified customer belongs to one provider, meter type and meter
+  // number; changing any of them means verifying again
+  const clearVerification = () => {
+    setCustomerName("");
+    setCustomerAddress("");
+    setVerificationToken("");
+  };
+
+  // Look the meter up with the provider before payment
+  const verifyMeterNumber = async () => {
     if (!meterNumber || !selectedProvider) {
       toast({
         title: "Error",
@@ -47,22 +72,56 @@ const ElectricityPage = () => {
     }
     
     setIsVerifying(true);
+    clearVerification();
     
-    // Simulate API call with timeout
-    setTimeout(() => {
-      setIsVerifying(false);
-      setCustomerName("John Customer");
+    try {
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError) throw sessionError;
+      
+      const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+      const response = await fetch(`${functionUrl}/functions/v1/verify-customer`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionData.session.access_token}`,
+        },
+        body: JSON.stringify({
+          service: 'electricity',
+          provider: selectedProvider,
+          customerId: meterNumber,
+          meterType
+        }),
+      });
+      
+      const result = await response.json();
+      
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to verify meter number");
+      }
+      
+      setCustomerName(result.data.customerName);
+      setCustomerAddress(result.data.address || "");
+      setVerificationToken(result.data.verificationToken);
       toast({
         title: "Meter Verified",
         description: "Customer details retrieved successfully",
       });
-    }, 1500);
+    } catch (error) {
+      console.error("Meter verification error:", error);
+      toast({
+        title: "Verification Failed",
+        description: error.message || "We could not verify this meter number",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
   const handleSubmit = async (e) => {
     e.preventDefault();
     
-    if (!meterNumber || !selectedProvider || !amount || !customerName) {
+    if (!meterNumber || !selectedProvider || !amount || !verificationToken) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields",
@@ -80,12 +139,23 @@ const ElectricityPage = () => {
       return;
     }
     
+    if (pin.length !== 4) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your 4-digit transaction PIN",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     const parsedAmount = parseFloat(amount);
     setProcessing(true);
     
     try {
-      // Generate a unique reference
-      const reference = `EL-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      // Generate a unique reference (or reuse the one from an unanswered attempt)
+      const reference = pendingReference.current
+        ?? `EL-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      pendingReference.current = reference;
       
       const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
       if (sessionError) throw sessionError;
@@ -101,26 +171,39 @@ const ElectricityPage = () => {
         body: JSON.stringify({
           provider: selectedProvider,
           meterNumber,
+          meterType,
           amount: parsedAmount,
-          customerName,
-          reference
+          verificationToken,
+          reference,
+          pin
         }),
       });
       
       const result = await response.json();
+      pendingReference.current = null;
+      setPin("");
       
       if (!response.ok || !result.success) {
         throw new Error(result.error || "Failed to process electricity payment");
       }
       
-      toast({
-        title: "Payment Successful",
-        description: `Your electricity token is: ${result.data.token}`,
-      });
+      if (result.status === 'pending') {
+        toast({
+          title: "Payment Processing",
+          description: "Your payment is being processed. Your token will appear in your transactions once it is issued.",
+        });
+      } else {
+        toast({
+          title: "Payment Successful",
+          description: result.data.token
+            ? `Your electricity token is: ${result.data.token}`
+            : "Your electricity bill has been paid",
+        });
+      }
       
       // Reset form
       setMeterNumber("");
-      setCustomerName("");
+      clearVerification();
       setAmount("");
       setSelectedProvider("");
       
@@ -147,11 +230,25 @@ const ElectricityPage = () => {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            <BeneficiaryPicker
+              service="electricity"
+              current={{ identifier: meterNumber, provider: selectedProvider, meterType, customerName }}
+              onSelect={(beneficiary) => {
+                setSelectedProvider(beneficiary.provider);
+                setMeterNumber(beneficiary.identifier);
+                setMeterType(beneficiary.meter_type ?? "prepaid");
+                clearVerification();
+              }}
+            />
+
             <div className="space-y-2">
               <Label htmlFor="provider">Select Provider</Label>
               <Select
                 value={selectedProvider}
-                onValueChange={setSelectedProvider}
+                onValueChange={(value) => {
+                  setSelectedProvider(value);
+                  clearVerification();
+                }}
                 disabled={isLoadingProviders}
               >
                 <SelectTrigger id="provider">
@@ -171,6 +268,25 @@ const ElectricityPage = () => {
               </Select>
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="meter-type">Meter Type</Label>
+              <Select
+                value={meterType}
+                onValueChange={(value) => {
+                  setMeterType(value);
+                  clearVerification();
+                }}
+              >
+                <SelectTrigger id="meter-type">
+                  <SelectValue placeholder="Select meter type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="prepaid">Prepaid</SelectItem>
+                  <SelectItem value="postpaid">Postpaid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
             <div className="space-y-2">
               <Label htmlFor="meter-number">Meter Number</Label>
               <div className="flex gap-2">
@@ -178,7 +294,10 @@ const ElectricityPage = () => {
                   id="meter-number"
                   placeholder="Enter your meter number"
                   value={meterNumber}
-                  onChange={(e) => setMeterNumber(e.target.value)}
+                  onChange={(e) => {
+                    setMeterNumber(e.target.value);
+                    clearVerification();
+                  }}
                   className="bg-white/50"
                 />
                 <Button 
@@ -206,10 +325,12 @@ const ElectricityPage = () => {
                 id="customer-name"
                 placeholder="Customer name will appear here after verification"
                 value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
                 readOnly={true}
                 className="bg-white/50"
               />
+              {customerAddress && (
+                <p className="text-xs text-gray-500">{customerAddress}</p>
+              )}
             </div>
             
             <div className="space-y-2">
@@ -225,12 +346,14 @@ const ElectricityPage = () => {
                 className="bg-white/50"
               />
             </div>
+            
+            <TransactionPinInput value={pin} onChange={setPin} />
           </form>
         </CardContent>
         <CardFooter className="flex flex-col gap-4">
           <Button 
             onClick={handleSubmit}
-            disabled={processing || !customerName || !amount || !meterNumber || !selectedProvider}
+            disabled={processing || !verificationToken || !amount || !meterNumber || !selectedProvider || pin.length !== 4}
             className="w-full bg-primary-purple hover:bg-primary-purple/90"
           >
             {processing ? (
@@ -10,7 +10,7 @@ import { debugAuth } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 
 const Login = () => {
-  const { isAuthenticated, user, isLoading } = useAuth();
+  const { isAuthenticated, user, isLoading, mfaRequired } = useAuth();
   const navigate = useNavigate();
   const [loadingTimeExceeded, setLoadingTimeExceeded] = useState(false);
   
@@ -39,13 +39,13 @@ const Login = () => {
   
   // Redirect if already authenticated
   useEffect(() => {
-    if (!isLoading && isAuthenticated && user) {
+    if (!isLoading && isAuthenticated && user && !mfaRequired) {
       console.log("Login page - User authenticated, redirecting to dashboard", user);
       const redirectPath = user.role === "admin" ? "/admin" : "/dashboard";
       console.log("Redirecting to:", redirectPath);
       navigate(redirectPath, { replace: true });
     }
-  }, [isAuthenticated, user, navigate, isLoading]);
+  }, [isAuthenticated, user, navigate, isLoading, mfaRequired]);
 
   // Handle manual refresh
   const handleRefresh = () => {
@@ -1,11 +1,38 @@
 
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Check } from "lucide-react";
+import { Check, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
 
+type PricingTier = Tables<"pricing_tiers">;
+
+const SERVICES = [
+  { key: "airtime", label: "Airtime Recharge" },
+  { key: "data", label: "Data Bundle Purchase" },
+  { key: "electricity", label: "Electricity Bill Payment" },
+  { key: "cable", label: "Cable TV Subscription" },
+] as const;
+
+// e.g. "0.5% of amount", "₦50", "0.5% + ₦50" or "Free"
+const formatFee = (percent: number, flat: number) => {
+  if (percent > 0 && flat > 0) return `${percent}% + ₦${flat.toLocaleString()}`;
+  if (percent > 0) return `${percent}% of amount`;
+  if (flat > 0) return `₦${flat.toLocaleString()}`;
+  return "Free";
+};
+
+const formatLimit = (limit: number | null) =>
+  limit ? `₦${limit.toLocaleString()}` : "Unlimited";
+
+// Range of flat fees per transaction; wallet funding is always free
+const feeRange = (tier: PricingTier) =>
+  `0 - ${Math.max(...SERVICES.map(({ key }) => tier[`${key}_fee_flat`]))}`;
+
 const PricingCard = ({ title, description, price, features, buttonText, buttonLink, highlighted = false }) => {
   return (
     <Card className={`relative overflow-hidden transition-all card-hover ${highlighted 
@@ -47,7 +74,7 @@ const PricingCard = ({ title, description, price, features, buttonText, buttonLi
   );
 };
 
-const ComparisonTable = () => {
+const ComparisonTable = ({ tiers }: { tiers: PricingTier[] }) => {
   return (
     <div className="overflow-x-auto backdrop-blur-xl bg-white/20 border border-white/30 rounded-lg">
       <table className="min-w-full divide-y divide-gray-200">
@@ -56,101 +83,72 @@ const ComparisonTable = () => {
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Feature
             </th>
-            <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Basic Fee
-            </th>
-            <th className="px-6 py-3 text-center text-xs font-medium text-primary-purple uppercase tracking-wider bg-primary-purple/10">
-              Standard Fee
-            </th>
-            <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Premium Fee
-            </th>
+            {tiers.map((tier) => (
+              <th
+                key={tier.code}
+                className={`px-6 py-3 text-center text-xs font-medium uppercase tracking-wider ${tier.highlighted
+                  ? "text-primary-purple bg-primary-purple/10"
+                  : "text-gray-500"}`}
+              >
+                {tier.name} Fee
+              </th>
+            ))}
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-200">
+          {SERVICES.map(({ key, label }) => (
+            <tr key={key}>
+              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                {label}
+              </td>
+              {tiers.map((tier) => (
+                <td
+                  key={tier.code}
+                  className={`px-6 py-4 whitespace-nowrap text-sm text-center ${tier.highlighted ? "font-medium bg-primary-purple/5" : ""}`}
+                >
+                  {formatFee(tier[`${key}_fee_percent`], tier[`${key}_fee_flat`])}
+                </td>
+              ))}
+            </tr>
+          ))}
           <tr>
             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-              Airtime Recharge
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              0.5% of amount
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium bg-primary-purple/5">
-              0.3% of amount
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              Free
-            </td>
-          </tr>
-          <tr>
-            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-              Data Bundle Purchase
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              ₦50
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium bg-primary-purple/5">
-              ₦25
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              Free
-            </td>
-          </tr>
-          <tr>
-            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-              Electricity Bill Payment
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              ₦100
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium bg-primary-purple/5">
-              ₦50
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              ₦25
-            </td>
-          </tr>
-          <tr>
-            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-              Cable TV Subscription
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              ₦100
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium bg-primary-purple/5">
-              ₦50
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              ₦25
+              Wallet Funding
             </td>
+            {tiers.map((tier) => (
+              <td
+                key={tier.code}
+                className={`px-6 py-4 whitespace-nowrap text-sm text-center ${tier.highlighted ? "font-medium bg-primary-purple/5" : ""}`}
+              >
+                Free
+              </td>
+            ))}
           </tr>
           <tr>
             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-              Wallet Funding
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              Free
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium bg-primary-purple/5">
-              Free
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              Free
+              Daily Transaction Limit
             </td>
+            {tiers.map((tier) => (
+              <td
+                key={tier.code}
+                className={`px-6 py-4 whitespace-nowrap text-sm text-center ${tier.highlighted ? "font-medium bg-primary-purple/5" : ""}`}
+              >
+                {formatLimit(tier.daily_limit)}
+              </td>
+            ))}
           </tr>
           <tr>
             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
               Monthly Transaction Limit
             </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              ₦50,000
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium bg-primary-purple/5">
-              ₦500,000
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
-              Unlimited
-            </td>
+            {tiers.map((tier) => (
+              <td
+                key={tier.code}
+                className={`px-6 py-4 whitespace-nowrap text-sm text-center ${tier.highlighted ? "font-medium bg-primary-purple/5" : ""}`}
+              >
+                {formatLimit(tier.monthly_limit)}
+              </td>
+            ))}
           </tr>
         </tbody>
       </table>
@@ -159,6 +157,21 @@ const ComparisonTable = () => {
 };
 
 const Pricing = () => {
+  // Tiers, fees and limits come from the same table the purchase functions
+  // price orders with
+  const { data: tiers, isLoading } = useQuery({
+    queryKey: ["pricingTiers"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("pricing_tiers")
+        .select("*")
+        .order("sort_order");
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
@@ -182,53 +195,31 @@ const Pricing = () => {
             </p>
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            <PricingCard 
-              title="Basic"
-              description="Perfect for occasional users"
-              price="0 - 100"
-              features={[
-                "All services available",
-                "Regular transaction fees",
-                "Standard customer support",
-                "Normal transaction processing speed",
-                "₦50,000 monthly transaction limit"
-              ]}
-              buttonText="Get Started"
-              buttonLink="/register"
-            />
-            
-            <PricingCard 
-              title="Standard"
-              description="Ideal for regular users"
-              price="0 - 50"
-              features={[
-                "All services available",
-                "Reduced transaction fees",
-                "Priority customer support",
-                "Faster transaction processing",
-                "₦500,000 monthly transaction limit"
-              ]}
-              buttonText="Get Started"
-              buttonLink="/register"
-              highlighted={true}
-            />
-            
-            <PricingCard 
-              title="Premium"
-              description="For high-volume users"
-              price="0 - 25"
-              features={[
-                "All services available",
-                "Minimal to no transaction fees",
-                "24/7 dedicated customer support",
-                "Instant transaction processing",
-                "Unlimited monthly transactions"
-              ]}
-              buttonText="Get Started"
-              buttonLink="/register"
-            />
-          </div>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary-purple" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              {tiers?.map((tier) => (
+                <PricingCard
+                  key={tier.code}
+                  title={tier.name}
+                  description={tier.description}
+                  price={feeRange(tier)}
+                  features={[
+                    ...tier.features,
+                    tier.monthly_limit
+                      ? `₦${tier.monthly_limit.toLocaleString()} monthly transaction limit`
+                      : "Unlimited monthly transactions"
+                  ]}
+                  buttonText="Get Started"
+                  buttonLink="/register"
+                  highlighted={tier.highlighted}
+                />
+              ))}
+            </div>
+          )}
         </div>
       </section>
       
@@ -242,7 +233,7 @@ const Pricing = () => {
             </p>
           </div>
           
-          <ComparisonTable />
+          {tiers && <ComparisonTable tiers={tiers} />}
           
           <div className="mt-8 text-center text-sm text-gray-500">
             <p>* All fees subject to change with prior notice to users</p>
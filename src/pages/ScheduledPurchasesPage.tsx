@@ -0,0 +1,613 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2 } from "lucide-react";
+import TransactionPinInput from "@/components/dashboard/customer/TransactionPinInput";
+
+type Service = "airtime" | "data" | "electricity" | "cable";
+type Frequency = "daily" | "weekly" | "monthly";
+type Schedule = Tables<"scheduled_purchases">;
+
+const functionUrl = import.meta.env.VITE_SUPABASE_URL || 'https://iqcbotozmhvaspkqiaik.supabase.co';
+
+const PROVIDER_TABLES = {
+  airtime: "network_providers",
+  data: "network_providers",
+  electricity: "electricity_providers",
+  cable: "cable_providers",
+} as const;
+
+const RECIPIENT_LABELS: Record<Service, string> = {
+  airtime: "Phone Number",
+  data: "Phone Number",
+  electricity: "Meter Number",
+  cable: "Smart Card Number",
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const ordinal = (day: number) => {
+  const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+  return `${day}${suffix}`;
+};
+
+// "Every Monday at 08:00", "Monthly on the 1st at 08:00"
+const describeTiming = (schedule: Schedule) => {
+  const time = schedule.time_of_day.slice(0, 5);
+  if (schedule.frequency === "weekly") return `Every ${WEEKDAYS[schedule.day_of_week ?? 0]} at ${time}`;
+  if (schedule.frequency === "monthly") return `Monthly on the ${ordinal(schedule.day_of_month ?? 1)} at ${time}`;
+  return `Daily at ${time}`;
+};
+
+const statusClass = (status: string | null) =>
+  status === "success" || status === "active" ? "bg-green-100 text-green-800" :
+  status === "pending" || status === "paused" ? "bg-yellow-100 text-yellow-800" :
+  "bg-red-100 text-red-800";
+
+const ScheduledPurchasesPage = () => {
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [service, setService] = useState<Service>("airtime");
+  const [provider, setProvider] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [planId, setPlanId] = useState("");
+  const [packageId, setPackageId] = useState("");
+  const [meterType, setMeterType] = useState("prepaid");
+  const [frequency, setFrequency] = useState<Frequency>("monthly");
+  const [dayOfWeek, setDayOfWeek] = useState("1");
+  const [dayOfMonth, setDayOfMonth] = useState("1");
+  const [timeOfDay, setTimeOfDay] = useState("08:00");
+  const [pin, setPin] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: schedules, isLoading, refetch } = useQuery({
+    queryKey: ["scheduledPurchases", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("scheduled_purchases")
+        .select("*")
+        .neq("status", "cancelled")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  const { data: providers } = useQuery({
+    queryKey: ["scheduleProviders", PROVIDER_TABLES[service]],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from(PROVIDER_TABLES[service])
+        .select("id, code, name")
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const selectedProvider = providers?.find((candidate) => candidate.code === provider);
+
+  const { data: plans } = useQuery({
+    queryKey: ["dataPlans", provider],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("data_plans")
+        .select("*")
+        .eq("provider_id", selectedProvider!.id)
+        .order("amount");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: service === "data" && !!selectedProvider
+  });
+
+  const { data: packages } = useQuery({
+    queryKey: ["cablePackages", provider],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cable_packages")
+        .select("*")
+        .eq("provider_id", selectedProvider!.id)
+        .order("amount");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: service === "cable" && !!selectedProvider
+  });
+
+  const resetForm = () => {
+    setName("");
+    setPin("");
+    setRecipient("");
+    setAmount("");
+    setPlanId("");
+    setPackageId("");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const needsAmount = service === "airtime" || service === "electricity";
+    const amountValue = parseFloat(amount);
+
+    if (!name.trim() || !provider || !recipient) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if ((service === "airtime" || service === "data") && recipient.length !== 11) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid 11-digit phone number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (needsAmount && (isNaN(amountValue) || amountValue < (service === "airtime" ? 50 : 100))) {
+      toast({
+        title: "Invalid Amount",
+        description: service === "airtime" ? "Minimum amount is ₦50" : "Minimum amount is ₦100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if ((service === "data" && !planId) || (service === "cable" && !packageId)) {
+      toast({
+        title: "Error",
+        description: service === "data" ? "Please select a data plan" : "Please select a package",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (pin.length !== 4) {
+      toast({
+        title: "Error",
+        description: "Please enter your 4-digit transaction PIN",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError) throw sessionError;
+
+      // Schedules spend without anyone present, so they are created through
+      // scheduled-purchases, which checks the PIN
+      const response = await fetch(`${functionUrl}/functions/v1/scheduled-purchases`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionData.session.access_token}`,
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          service,
+          provider,
+          recipient,
+          amount: needsAmount ? amountValue : null,
+          planId: service === "data" ? planId : null,
+          packageId: service === "cable" ? packageId : null,
+          meterType: service === "electricity" ? meterType : null,
+          frequency,
+          dayOfWeek: frequency === "weekly" ? Number(dayOfWeek) : null,
+          dayOfMonth: frequency === "monthly" ? Number(dayOfMonth) : null,
+          timeOfDay,
+          pin
+        }),
+      });
+
+      const result = await response.json();
+      setPin("");
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to create schedule");
+      }
+
+      toast({
+        title: "Schedule created",
+        description: `"${name.trim()}" will run automatically from your wallet.`,
+      });
+      resetForm();
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Could not create schedule",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setStatus = async (schedule: Schedule, status: "active" | "paused" | "cancelled") => {
+    const { error } = await supabase
+      .from("scheduled_purchases")
+      .update({ status })
+      .eq("id", schedule.id);
+
+    if (error) {
+      toast({
+        title: "Could not update schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: status === "active" ? "Schedule resumed" : status === "paused" ? "Schedule paused" : "Schedule cancelled",
+      description: `"${schedule.name}"`,
+    });
+    refetch();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Scheduled Purchases</h1>
+        <p className="text-gray-500">Recharge, renew and pay bills automatically from your wallet</p>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>New Schedule</CardTitle>
+          <CardDescription>
+            Each run buys from your wallet balance at Nigerian time. We'll notify you if a run fails
+            because your balance is too low.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="e.g. Mum's weekly airtime"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select
+                value={service}
+                onValueChange={(value: Service) => {
+                  setService(value);
+                  setProvider("");
+                  setPlanId("");
+                  setPackageId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="airtime">Airtime</SelectItem>
+                  <SelectItem value="data">Data</SelectItem>
+                  <SelectItem value="electricity">Electricity</SelectItem>
+                  <SelectItem value="cable">Cable TV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select
+                value={provider}
+                onValueChange={(value) => {
+                  setProvider(value);
+                  setPlanId("");
+                  setPackageId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers?.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.code}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-recipient">{RECIPIENT_LABELS[service]}</Label>
+              <Input
+                id="schedule-recipient"
+                value={recipient}
+                onChange={(e) => setRecipient(
+                  service === "airtime" || service === "data"
+                    ? e.target.value.replace(/\D/g, "").slice(0, 11)
+                    : e.target.value
+                )}
+              />
+            </div>
+
+            {(service === "airtime" || service === "electricity") && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-amount">Amount (₦)</Label>
+                <Input
+                  id="schedule-amount"
+                  type="number"
+                  min={service === "airtime" ? 50 : 100}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            )}
+
+            {service === "electricity" && (
+              <div className="space-y-2">
+                <Label>Meter Type</Label>
+                <Select value={meterType} onValueChange={setMeterType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="prepaid">Prepaid</SelectItem>
+                    <SelectItem value="postpaid">Postpaid</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {service === "data" && (
+              <div className="space-y-2">
+                <Label>Data Plan</Label>
+                <Select value={planId} onValueChange={setPlanId} disabled={!provider}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a data plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {plans?.map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {plan.name} - ₦{plan.amount.toLocaleString()} ({plan.validity})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {service === "cable" && (
+              <div className="space-y-2">
+                <Label>Package</Label>
+                <Select value={packageId} onValueChange={setPackageId} disabled={!provider}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a package" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {packages?.map((pkg) => (
+                      <SelectItem key={pkg.id} value={pkg.id}>
+                        {pkg.name} - ₦{pkg.amount.toLocaleString()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select value={frequency} onValueChange={(value: Frequency) => setFrequency(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {frequency === "weekly" && (
+              <div className="space-y-2">
+                <Label>Day of Week</Label>
+                <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {frequency === "monthly" && (
+              <div className="space-y-2">
+                <Label>Day of Month</Label>
+                <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 28 }, (_, index) => index + 1).map((day) => (
+                      <SelectItem key={day} value={String(day)}>{ordinal(day)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-time">Time</Label>
+              <Input
+                id="schedule-time"
+                type="time"
+                value={timeOfDay}
+                onChange={(e) => setTimeOfDay(e.target.value)}
+              />
+            </div>
+
+            <TransactionPinInput id="schedule-pin" value={pin} onChange={setPin} />
+
+            <div className="md:col-span-2">
+              <Button
+                type="submit"
+                className="bg-primary-purple hover:bg-primary-purple/90"
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                )}
+                Create Schedule
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card overflow-hidden">
+        <CardHeader>
+          <CardTitle>Your Schedules</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Schedule</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Timing</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Last Run</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {schedules?.map((schedule) => (
+                  <tr key={schedule.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-medium">{schedule.name}</p>
+                      <p className="text-gray-500">
+                        <span className="capitalize">{schedule.service}</span>
+                        {" · "}{schedule.provider.toUpperCase()} {schedule.recipient}
+                        {schedule.amount !== null && ` · ₦${schedule.amount.toLocaleString()}`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <p>{describeTiming(schedule)}</p>
+                      {schedule.next_run_at && (
+                        <p className="text-gray-500">Next: {new Date(schedule.next_run_at).toLocaleString()}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusClass(schedule.status)}`}>
+                        {schedule.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm max-w-xs">
+                      {schedule.last_run_at ? (
+                        <>
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusClass(schedule.last_status)}`}>
+                            {schedule.last_status ?? "running"}
+                          </span>
+                          <p className="text-gray-500 truncate" title={schedule.last_message ?? undefined}>
+                            {new Date(schedule.last_run_at).toLocaleString()}
+                            {schedule.last_message && ` · ${schedule.last_message}`}
+                          </p>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">Not run yet</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-2">
+                      {schedule.status === "active" ? (
+                        <Button variant="outline" size="sm" onClick={() => setStatus(schedule, "paused")}>
+                          Pause
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => setStatus(schedule, "active")}>
+                          Resume
+                        </Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="text-red-600">Cancel</Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel "{schedule.name}"?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              It will not run again. Pause it instead if you only want to skip a few runs.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => setStatus(schedule, "cancelled")}>Cancel Schedule</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </td>
+                  </tr>
+                ))}
+                {isLoading && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                      Loading schedules...
+                    </td>
+                  </tr>
+                )}
+                {!isLoading && schedules?.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                      No scheduled purchases yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ScheduledPurchasesPage;
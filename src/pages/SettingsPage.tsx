@@ -1,5 +1,6 @@
 
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
@@ -32,10 +33,18 @@ import {
 } from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { Loader2 } from "lucide-react";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import TransactionPinSettings from "@/components/dashboard/customer/TransactionPinSettings";
+import NotificationPreferences from "@/components/dashboard/customer/NotificationPreferences";
+import BeneficiariesSettings from "@/components/dashboard/customer/BeneficiariesSettings";
+import ApiKeysSettings from "@/components/dashboard/customer/ApiKeysSettings";
+import CallbackSettings from "@/components/dashboard/customer/CallbackSettings";
 
 const SettingsPage = () => {
   const { user, updateUserProfile } = useAuth();
   const { toast } = useToast();
+  // Other pages link straight to a tab, e.g. ?tab=pin
+  const [searchParams] = useSearchParams();
   const [isLoading, setIsLoading] = useState(false);
   const [name, setName] = useState(user?.name || "");
   const [currentPassword, setCurrentPassword] = useState("");
@@ -108,11 +117,16 @@ const SettingsPage = () => {
         <p className="text-gray-500">Manage your account settings and preferences</p>
       </div>
 
-      <Tabs defaultValue="profile">
+      <Tabs defaultValue={searchParams.get("tab") ?? "profile"}>
         <TabsList>
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="password">Password</TabsTrigger>
+          <TabsTrigger value="security">Two-Factor</TabsTrigger>
+          <TabsTrigger value="pin">Transaction PIN</TabsTrigger>
           <TabsTrigger value="preferences">Preferences</TabsTrigger>
+          <TabsTrigger value="beneficiaries">Beneficiaries</TabsTrigger>
+          <TabsTrigger value="api-keys">API Keys</TabsTrigger>
+          <TabsTrigger value="callbacks">Callbacks</TabsTrigger>
         </TabsList>
 
         {/* Profile Tab */}
@@ -236,47 +250,7 @@ const SettingsPage = () => {
 
         {/* Preferences Tab */}
         <TabsContent value="preferences" className="mt-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Notification Preferences</CardTitle>
-              <CardDescription>
-                Configure how and when you receive notifications
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="email-notifications"
-                  className="h-4 w-4 rounded border-gray-300"
-                  defaultChecked
-                />
-                <Label htmlFor="email-notifications">Email Notifications</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="transaction-alerts"
-                  className="h-4 w-4 rounded border-gray-300"
-                  defaultChecked
-                />
-                <Label htmlFor="transaction-alerts">Transaction Alerts</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="marketing-emails"
-                  className="h-4 w-4 rounded border-gray-300"
-                />
-                <Label htmlFor="marketing-emails">Marketing Emails</Label>
-              </div>
-            </CardContent>
-            <CardFooter>
-              <Button className="bg-primary-purple hover:bg-primary-purple/90">
-                Save Preferences
-              </Button>
-            </CardFooter>
-          </Card>
+          <NotificationPreferences />
 
           <Card className="mt-4">
             <CardHeader>
@@ -307,6 +281,31 @@ const SettingsPage = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Two-Factor Tab */}
+        <TabsContent value="security" className="mt-4">
+          <TwoFactorSettings />
+        </TabsContent>
+
+        {/* Transaction PIN Tab */}
+        <TabsContent value="pin" className="mt-4">
+          <TransactionPinSettings />
+        </TabsContent>
+
+        {/* Beneficiaries Tab */}
+        <TabsContent value="beneficiaries" className="mt-4">
+          <BeneficiariesSettings />
+        </TabsContent>
+
+        {/* API Keys Tab */}
+        <TabsContent value="api-keys" className="mt-4">
+          <ApiKeysSettings />
+        </TabsContent>
+
+        {/* Callbacks Tab */}
+        <TabsContent value="callbacks" className="mt-4">
+          <CallbackSettings />
+        </TabsContent>
       </Tabs>
     </div>
   );
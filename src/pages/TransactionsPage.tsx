@@ -3,6 +3,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
+import { useSystemSettings } from "@/context/SystemSettingsContext";
 import {
   Card,
   CardContent,
@@ -51,6 +52,7 @@ type Transaction = {
 
 const TransactionsPage = () => {
   const { user } = useAuth();
+  const { formatDate, formatCurrency } = useSystemSettings();
   const [search, setSearch] = useState("");
   const [typeFilter, setTypeFilter] = useState<string>("");
   const [statusFilter, setStatusFilter] = useState<string>("");
@@ -90,21 +92,6 @@ const TransactionsPage = () => {
     return matchesSearch && matchesType && matchesStatus;
   });
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return new Intl.DateTimeFormat("en-NG", {
-      dateStyle: "medium",
-      timeStyle: "short",
-    }).format(date);
-  };
-
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat("en-NG", {
-      style: "currency",
-      currency: "NGN",
-    }).format(amount);
-  };
-
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "completed":
@@ -114,6 +101,8 @@ const TransactionsPage = () => {
         return "bg-yellow-100 text-yellow-800";
       case "failed":
         return "bg-red-100 text-red-800";
+      case "reversed":
+        return "bg-blue-100 text-blue-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -190,6 +179,7 @@ const TransactionsPage = () => {
                   <SelectItem value="electricity">Electricity</SelectItem>
                   <SelectItem value="cable">Cable TV</SelectItem>
                   <SelectItem value="funding">Wallet Funding</SelectItem>
+                  <SelectItem value="reversal">Reversal</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -201,6 +191,7 @@ const TransactionsPage = () => {
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="reversed">Reversed</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -237,7 +228,7 @@ const TransactionsPage = () => {
                     >
                       <TableCell>{formatDate(tx.created_at)}</TableCell>
                       <TableCell className="capitalize">{tx.type}</TableCell>
-                      <TableCell>{formatAmount(tx.amount)}</TableCell>
+                      <TableCell>{formatCurrency(tx.amount)}</TableCell>
                       <TableCell>
                         <span
                           className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(
@@ -282,7 +273,7 @@ const TransactionsPage = () => {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Amount</p>
-                  <p>{formatAmount(selectedTx.amount)}</p>
+                  <p>{formatCurrency(selectedTx.amount)}</p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Type</p>
@@ -0,0 +1,38 @@
+import { Link } from "react-router-dom";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+
+// Where ProtectedRoute sends admins who haven't set up 2FA yet
+const TwoFactorSetupPage = () => {
+  const { user, hasTwoFactor } = useAuth();
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      <main className="flex-1 flex items-center justify-center p-4 bg-gradient-to-br from-primary-soft-purple/20 to-transparent">
+        <div className="w-full max-w-lg space-y-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Set up two-factor authentication</h1>
+            <p className="text-gray-500">
+              {user?.role === "admin"
+                ? "Admin accounts must use two-factor authentication before they can open the admin dashboard."
+                : "Protect your account with a code from an authenticator app."}
+            </p>
+          </div>
+          <TwoFactorSettings />
+          {hasTwoFactor && (
+            <Button asChild className="w-full bg-primary-purple hover:bg-primary-purple/90">
+              <Link to={user?.role === "admin" ? "/admin" : "/dashboard"}>Continue to Dashboard</Link>
+            </Button>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default TwoFactorSetupPage;
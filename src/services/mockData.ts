@@ -6,8 +6,7 @@ import {
   DiscoProvider, 
   NetworkProvider,
   CableProvider,
-  User,
-  AdminStats
+  User
 } from "../types";
 
 export const networkProviders: NetworkProvider[] = [
@@ -339,18 +338,6 @@ export const mockUsers: User[] = [
   }
 ];
 
-export const adminStats: AdminStats = {
-  totalUsers: 245,
-  totalTransactions: 1289,
-  totalSales: 4578900,
-  providerBalances: {
-    mtn: 250000,
-    airtel: 180000,
-    glo: 120000,
-    "9mobile": 80000
-  }
-};
-
 // Service functions
 
 export function getDataPlansByProvider(providerCode: string): DataPlan[] {
@@ -365,10 +352,6 @@ export function getUserTransactions(userId: string): Transaction[] {
   return mockTransactions.filter(tx => tx.userId === userId);
 }
 
-export function getAdminDashboardStats(): AdminStats {
-  return adminStats;
-}
-
 export function getAllUsers(): User[] {
   return mockUsers;
 }
@@ -13,10 +13,10 @@ export interface User {
 export interface Transaction {
   id: string;
   userId: string;
-  type: 'airtime' | 'data' | 'electricity' | 'cable' | 'wallet';
+  type: 'airtime' | 'data' | 'electricity' | 'cable' | 'wallet' | 'reversal';
   amount: number;
   reference: string;
-  status: 'pending' | 'success' | 'failed';
+  status: 'pending' | 'success' | 'failed' | 'reversed';
   details: {
     provider?: string;
     phoneNumber?: string;
@@ -75,10 +75,44 @@ export interface PaymentMethod {
 }
 
 export interface AdminStats {
+  range: {
+    start: string;
+    end: string;
+    bucket: 'day' | 'week' | 'month';
+  };
   totalUsers: number;
+  newUsers: number;
   totalTransactions: number;
   totalSales: number;
+  totalFundings: number;
+  revenueByService: {
+    service: 'airtime' | 'data' | 'electricity' | 'cable';
+    transactions: number;
+    amount: number;
+  }[];
+  trend: {
+    period: string;
+    transactions: number;
+    sales: number;
+    fundings: number;
+  }[];
   providerBalances: {
-    [provider: string]: number;
-  }
+    category: 'network' | 'electricity' | 'cable';
+    code: string;
+    name: string;
+    balance: number;
+  }[];
+}
+
+// limit and remaining are null when the tier has no limit for the period
+export interface SpendAllowance {
+  limit: number | null;
+  spent: number;
+  remaining: number | null;
+}
+
+export interface SpendUsage {
+  tier: string;
+  daily: SpendAllowance;
+  monthly: SpendAllowance;
 }
@@ -0,0 +1,40 @@
+// Reseller API keys (see the api_keys table). Keys are looked up by the hex
+// SHA-256 of the presented key, the same hash create_api_key stores.
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Resolve an active key to its row, and note when it was last used
+export const authenticateApiKey = async (supabase, key: string | undefined) => {
+  if (!key) {
+    return { apiKey: null, error: { code: 'MISSING_API_KEY', message: 'No API key provided' } };
+  }
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .select('*')
+    .eq('key_hash', await sha256Hex(key))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!apiKey) {
+    return { apiKey: null, error: { code: 'INVALID_API_KEY', message: 'Invalid or revoked API key' } };
+  }
+
+  const { error: touchError } = await supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiKey.id);
+
+  if (touchError) {
+    console.error('API key usage record error:', touchError);
+  }
+
+  return { apiKey, error: null };
+};
@@ -0,0 +1,176 @@
+// Outbound transaction callbacks (see callback_endpoints and
+// callback_deliveries). Each POST carries the event JSON as its body and
+//
+//   X-Callback-Id:        the delivery id, for de-duplicating retries
+//   X-Callback-Event:     e.g. transaction.status_changed
+//   X-Callback-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+//
+// keyed with the endpoint's signing secret. Anything but a 2xx is retried.
+
+// Attempt n waits BACKOFF_SECONDS * 2^(n-1) before attempt n+1
+const BACKOFF_SECONDS = Number(Deno.env.get("CALLBACK_BACKOFF_SECONDS") ?? 30);
+const MAX_ATTEMPTS = Number(Deno.env.get("CALLBACK_MAX_ATTEMPTS") ?? 8);
+const TIMEOUT_MS = Number(Deno.env.get("CALLBACK_TIMEOUT_MS") ?? 10_000);
+// How long a worker holds a delivery it is sending, so an overlapping run
+// doesn't send it too
+const LEASE_MS = TIMEOUT_MS + 60_000;
+
+export type DeliveryOutcome = 'delivered' | 'retrying' | 'failed' | 'skipped';
+
+// Callback URLs must name a public host. is_public_callback_url applies the
+// same rules when a URL is saved; they are checked again before each send,
+// with the name resolved, so one that points at a private or internal
+// address is never posted to.
+const IP_LITERAL = /^(0x[0-9a-f]+|\d+)(\.(0x[0-9a-f]+|\d+))*$/;
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.localdomain', '.internal'];
+
+// Loopback, private, shared, link-local, benchmarking, multicast and reserved
+const isPrivateIpv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && (b === 0 || b === 168))
+    || (a === 198 && (b === 18 || b === 19));
+};
+
+// Loopback, unspecified, unique local, link-local, multicast and mapped IPv4
+const isPrivateIpv6 = (address: string) => {
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIpv4(mapped[1]);
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith('ff');
+};
+
+// Why a callback URL may not be sent to, or null when it may
+export const callbackUrlProblem = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Callback URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') return 'Callback URL must use https://';
+  if (parsed.username || parsed.password) return 'Callback URL must not contain credentials';
+
+  // URL has already normalised IPv4 written in hex or short forms
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (host.startsWith('[') || IP_LITERAL.test(host)) {
+    return 'Callback URL must use a host name, not an IP address';
+  }
+  if (!host.includes('.') || host === 'localhost' || INTERNAL_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return 'Callback URL must be a public host';
+  }
+
+  const [ipv4, ipv6] = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  const ipv4Addresses = ipv4.status === 'fulfilled' ? ipv4.value : [];
+  const ipv6Addresses = ipv6.status === 'fulfilled' ? ipv6.value : [];
+
+  if (!ipv4Addresses.length && !ipv6Addresses.length) return `Could not resolve ${host}`;
+  if (ipv4Addresses.some(isPrivateIpv4) || ipv6Addresses.some(isPrivateIpv6)) {
+    return `${host} resolves to a private address`;
+  }
+
+  return null;
+};
+
+export const signCallback = async (secret: string, timestamp: number, body: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Send one pending delivery to the owner's endpoint and record the attempt
+export const deliverCallback = async (supabase, delivery, endpoint): Promise<DeliveryOutcome> => {
+  // Claim it first; if another run got there, leave it alone
+  const { data: claimed, error: claimError } = await supabase
+    .from('callback_deliveries')
+    .update({ next_attempt_at: new Date(Date.now() + LEASE_MS).toISOString() })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('attempts', delivery.attempts)
+    .lte('next_attempt_at', new Date().toISOString())
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed?.length) return 'skipped';
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let lastError: string | null = null;
+
+  const urlProblem = endpoint?.enabled ? await callbackUrlProblem(endpoint.url) : null;
+
+  if (!endpoint?.enabled) {
+    lastError = 'Callback endpoint is disabled or was removed';
+  } else if (urlProblem) {
+    lastError = urlProblem;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Callback-Id': delivery.id,
+          'X-Callback-Event': delivery.event,
+          'X-Callback-Signature': `t=${timestamp},v1=${await signCallback(endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        // A redirect could point anywhere, so it counts as a failed attempt
+        redirect: 'manual',
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, 1000);
+      if (!response.ok) {
+        lastError = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      lastError = err.name === 'TimeoutError'
+        ? `No response within ${TIMEOUT_MS / 1000} seconds`
+        : err.message;
+    }
+  }
+
+  const delivered = lastError === null;
+  // A disabled endpoint won't come back by retrying
+  const exhausted = !delivered && (attempts >= MAX_ATTEMPTS || !endpoint?.enabled);
+  const outcome: DeliveryOutcome = delivered ? 'delivered' : exhausted ? 'failed' : 'retrying';
+
+  const { error: recordError } = await supabase
+    .from('callback_deliveries')
+    .update({
+      status: outcome === 'retrying' ? 'pending' : outcome,
+      attempts,
+      last_attempt_at: new Date().toISOString(),
+      last_url: endpoint?.url ?? null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      last_error: lastError,
+      delivered_at: delivered ? new Date().toISOString() : null,
+      next_attempt_at: new Date(Date.now() + BACKOFF_SECONDS * 2 ** (attempts - 1) * 1000).toISOString(),
+    })
+    .eq('id', delivery.id);
+
+  if (recordError) {
+    console.error('Callback delivery record error:', delivery.id, recordError);
+  }
+
+  return outcome;
+};
@@ -0,0 +1,47 @@
+import { createLogTransport } from './log.ts';
+import { createSmtpTransport } from './smtp.ts';
+import { EmailTransport } from './types.ts';
+
+export * from './types.ts';
+export { renderEmail } from './templates.ts';
+export type { EmailData, RenderedEmail } from './templates.ts';
+
+// The transport is chosen with EMAIL_TRANSPORT, defaulting to the log:
+//   EMAIL_TRANSPORT=log    print emails to the function log
+//   EMAIL_TRANSPORT=file   write .eml files to EMAIL_OUTBOX_DIR
+//   EMAIL_TRANSPORT=smtp   send through EMAIL_SMTP_HOST:EMAIL_SMTP_PORT
+const EMAIL_FROM = Deno.env.get('EMAIL_FROM') ?? 'BigBSubz <no-reply@bigbsubz.com>';
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+export const getEmailTransport = (): EmailTransport => {
+  const name = (Deno.env.get('EMAIL_TRANSPORT') ?? 'log').toLowerCase();
+
+  switch (name) {
+    case 'log':
+      return createLogTransport({ from: EMAIL_FROM });
+    case 'file':
+      return createLogTransport({
+        from: EMAIL_FROM,
+        directory: Deno.env.get('EMAIL_OUTBOX_DIR') ?? '/tmp/emails',
+      });
+    case 'smtp':
+      return createSmtpTransport({
+        host: requireEnv('EMAIL_SMTP_HOST'),
+        port: Number(Deno.env.get('EMAIL_SMTP_PORT') ?? 1025),
+        from: EMAIL_FROM,
+        secure: Deno.env.get('EMAIL_SMTP_SECURE') === 'true',
+        startTls: Deno.env.get('EMAIL_SMTP_STARTTLS') === 'true',
+        username: Deno.env.get('EMAIL_SMTP_USERNAME'),
+        password: Deno.env.get('EMAIL_SMTP_PASSWORD'),
+      });
+    default:
+      throw new Error(`Unknown email transport "${name}"`);
+  }
+};
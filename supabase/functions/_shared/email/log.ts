@@ -0,0 +1,25 @@
+import { formatMessage } from './mime.ts';
+import { EmailMessage, EmailTransport } from './types.ts';
+
+// Development transport: nothing leaves the machine. With a directory each
+// email is written there as an .eml file (open it in any mail client);
+// without one the text part is printed to the function log.
+
+export interface LogTransportConfig {
+  from: string;
+  directory?: string;
+}
+
+export const createLogTransport = (config: LogTransportConfig): EmailTransport => ({
+  name: config.directory ? 'file' : 'log',
+  send: async (message: EmailMessage) => {
+    if (!config.directory) {
+      console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+      return;
+    }
+
+    await Deno.mkdir(config.directory, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.eml`;
+    await Deno.writeTextFile(`${config.directory}/${name}`, formatMessage(message, config.from));
+  },
+});
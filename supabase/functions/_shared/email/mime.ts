@@ -0,0 +1,49 @@
+import { EmailMessage } from './types.ts';
+
+// Base64 of the UTF-8 bytes (btoa alone only takes Latin-1)
+export const encodeBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// In lines of 76 characters, as MIME requires
+const base64Lines = (value: string) => (encodeBase64(value).match(/.{1,76}/g) ?? []).join('\r\n');
+
+// RFC 2047 encoded word, so subjects can carry ₦ and friends
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${encodeBase64(value)}?=`;
+
+// The full RFC 5322 message: a multipart/alternative with the text part
+// first and the HTML part second. Both parts are base64 encoded, so no body
+// line can start with a dot or run past the SMTP line limit.
+export const formatMessage = (message: EmailMessage, from: string) => {
+  const boundary = `=_${crypto.randomUUID().replace(/-/g, '')}`;
+  const domain = from.split('@')[1]?.replace(/>$/, '') || 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
@@ -0,0 +1,136 @@
+import { encodeBase64, formatMessage } from './mime.ts';
+import { EmailMessage, EmailTransport } from './types.ts';
+
+// A small SMTP client: one connection per email, plain or implicit TLS, with
+// optional STARTTLS and AUTH PLAIN. Pointed at a local catcher such as
+// MailHog (EMAIL_SMTP_HOST=localhost, EMAIL_SMTP_PORT=1025) it needs no
+// credentials; a real relay usually wants port 465 with EMAIL_SMTP_SECURE
+// or 2525 with EMAIL_SMTP_STARTTLS, plus a username and password.
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  from: string;
+  secure?: boolean;
+  startTls?: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// "BigBSubz <no-reply@example.com>" -> "no-reply@example.com"
+const addressOf = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+const writeAll = async (conn: Deno.Conn, data: string) => {
+  const bytes = new TextEncoder().encode(data);
+  let written = 0;
+  while (written < bytes.length) {
+    written += await conn.write(bytes.subarray(written));
+  }
+};
+
+// Reads whole replies; a multi-line reply ends with "<code> <text>" rather
+// than "<code>-<text>"
+const createReplyReader = (conn: Deno.Conn) => {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  return async (): Promise<{ code: number; text: string }> => {
+    const lines: string[] = [];
+
+    while (true) {
+      const end = buffered.indexOf('\r\n');
+
+      if (end === -1) {
+        const chunk = new Uint8Array(4096);
+        const read = await conn.read(chunk);
+        if (read === null) {
+          throw new Error('SMTP server closed the connection');
+        }
+        buffered += decoder.decode(chunk.subarray(0, read), { stream: true });
+        continue;
+      }
+
+      const line = buffered.slice(0, end);
+      buffered = buffered.slice(end + 2);
+      lines.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        return { code: Number(line.slice(0, 3)), text: lines.join(' ') };
+      }
+    }
+  };
+};
+
+export const createSmtpTransport = (config: SmtpTransportConfig): EmailTransport => ({
+  name: 'smtp',
+  send: async (message: EmailMessage) => {
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let conn: Deno.Conn = config.secure
+      ? await Deno.connectTls({ hostname: config.host, port: config.port })
+      : await Deno.connect({ hostname: config.host, port: config.port });
+    let readReply = createReplyReader(conn);
+    let timedOut = false;
+
+    // Closing the connection makes the pending read or write throw
+    const timer = setTimeout(() => {
+      timedOut = true;
+      conn.close();
+    }, timeoutMs);
+
+    // Send a command (or nothing, for the greeting) and check the reply code.
+    // Errors name only the verb so credentials never reach a log.
+    const expect = async (command: string | null, codes: number[]) => {
+      if (command !== null) {
+        await writeAll(conn, `${command}\r\n`);
+      }
+      const reply = await readReply();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP ${command?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.text}`);
+      }
+      return reply;
+    };
+
+    try {
+      await expect(null, [220]);
+      await expect('EHLO localhost', [250]);
+
+      if (config.startTls && !config.secure) {
+        await expect('STARTTLS', [220]);
+        // Not secure, so still the plain TCP connection
+        conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: config.host });
+        readReply = createReplyReader(conn);
+        await expect('EHLO localhost', [250]);
+      }
+
+      if (config.username) {
+        const credentials = encodeBase64(`\u0000${config.username}\u0000${config.password ?? ''}`);
+        await expect(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await expect(`MAIL FROM:<${addressOf(config.from)}>`, [250]);
+      await expect(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await expect('DATA', [354]);
+      // formatMessage ends with a line break, so the terminating dot is on
+      // its own line
+      await expect(`${formatMessage(message, config.from)}.`, [250]);
+      await expect('QUIT', [221]).catch(() => undefined);
+    } catch (err) {
+      if (timedOut) {
+        throw new Error(`SMTP server ${config.host}:${config.port} did not respond within ${timeoutMs}ms`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      if (!timedOut) {
+        try {
+          conn.close();
+        } catch {
+          // Already closed by the server after QUIT
+        }
+      }
+    }
+  },
+});
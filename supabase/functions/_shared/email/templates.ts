@@ -0,0 +1,167 @@
+import { EmailTemplate } from './types.ts';
+
+// The values a template can use: a snapshot of the transaction or wallet
+// taken when the email was queued (email_outbox.data), plus whether a failed
+// purchase has since been refunded
+export interface EmailData {
+  name?: string | null;
+  type?: string;
+  reference?: string;
+  amount?: number;
+  fee?: number;
+  charged?: number;
+  provider?: string | null;
+  recipient?: string | null;
+  token?: string | null;
+  error?: string | null;
+  balance?: number;
+  threshold?: number;
+  date?: string;
+  refunded?: boolean;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  intro: string;
+  // Label / value rows, shown as a table in HTML and a list in text
+  rows: Array<[string, string]>;
+  // A line set apart from the rows, e.g. the meter token
+  highlight?: string;
+  outro?: string;
+  action?: { label: string; path: string };
+}
+
+const BRAND = 'BigBSubz';
+
+const SERVICE_LABELS: Record<string, string> = {
+  airtime: 'Airtime',
+  data: 'Data',
+  electricity: 'Electricity',
+  cable: 'Cable TV',
+};
+
+const naira = (value: number | undefined) => `₦${Number(value ?? 0).toLocaleString('en-NG', { maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (value: string | undefined) =>
+  new Date(value ?? Date.now()).toLocaleString('en-NG', { timeZone: 'Africa/Lagos', dateStyle: 'medium', timeStyle: 'short' });
+
+const serviceOf = (data: EmailData) => SERVICE_LABELS[data.type ?? ''] ?? 'Purchase';
+
+// Rows every purchase email shows
+const purchaseRows = (data: EmailData): Array<[string, string]> => [
+  ['Service', serviceOf(data)],
+  ...(data.provider ? [['Provider', data.provider] as [string, string]] : []),
+  ...(data.recipient ? [['Recipient', data.recipient] as [string, string]] : []),
+  ['Amount', naira(data.amount)],
+  ...(data.fee ? [['Fee', naira(data.fee)] as [string, string]] : []),
+  ['Reference', data.reference ?? ''],
+  ['Date', formatDate(data.date)],
+];
+
+const TEMPLATES: Record<EmailTemplate, (data: EmailData) => TemplateContent> = {
+  wallet_funded: (data) => ({
+    subject: `Your wallet has been funded with ${naira(data.amount)}`,
+    heading: 'Wallet funded',
+    intro: `We've added ${naira(data.amount)} to your ${BRAND} wallet.`,
+    rows: [
+      ['Amount', naira(data.amount)],
+      ['Reference', data.reference ?? ''],
+      ['Date', formatDate(data.date)],
+    ],
+    action: { label: 'View wallet', path: '/dashboard/wallet' },
+  }),
+  purchase_succeeded: (data) => ({
+    subject: `${serviceOf(data)} purchase of ${naira(data.amount)} successful`,
+    heading: 'Purchase successful',
+    intro: `Your ${serviceOf(data).toLowerCase()} purchase went through.`,
+    rows: purchaseRows(data),
+    action: { label: 'View transactions', path: '/dashboard/transactions' },
+  }),
+  purchase_failed: (data) => ({
+    subject: `${serviceOf(data)} purchase of ${naira(data.amount)} failed`,
+    heading: 'Purchase failed',
+    intro: `We couldn't complete your ${serviceOf(data).toLowerCase()} purchase${data.error ? `: ${data.error}` : '.'}`,
+    rows: purchaseRows(data),
+    outro: data.refunded
+      ? `${naira(data.charged)} has been refunded to your wallet.`
+      : 'If your wallet was charged, the amount will be refunded automatically.',
+    action: { label: 'Try again', path: `/dashboard/${data.type ?? ''}` },
+  }),
+  electricity_token: (data) => ({
+    subject: `Your ${data.provider ?? 'electricity'} token`,
+    heading: 'Electricity token',
+    intro: `Here is the token for meter ${data.recipient ?? ''}. Enter it on your meter to load ${naira(data.amount)} of units.`,
+    rows: purchaseRows(data),
+    highlight: data.token ?? '',
+    action: { label: 'View transactions', path: '/dashboard/transactions' },
+  }),
+  low_balance: (data) => ({
+    subject: `Your ${BRAND} wallet balance is low`,
+    heading: 'Low wallet balance',
+    intro: `Your wallet balance is down to ${naira(data.balance)}, below ${naira(data.threshold)}. Top up to keep purchases and scheduled payments going.`,
+    rows: [
+      ['Balance', naira(data.balance)],
+      ['Date', formatDate(data.date)],
+    ],
+    action: { label: 'Fund wallet', path: '/dashboard/wallet' },
+  }),
+};
+
+const renderHtml = (content: TemplateContent, greeting: string, appUrl: string) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f3ff;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    <h1 style="margin:0 0 16px;font-size:20px;color:#7c3aed;">${escapeHtml(content.heading)}</h1>
+    <p>${escapeHtml(greeting)}</p>
+    <p>${escapeHtml(content.intro)}</p>
+    ${content.highlight ? `<p style="font-size:22px;font-weight:bold;letter-spacing:2px;text-align:center;background:#f5f3ff;padding:12px;border-radius:6px;">${escapeHtml(content.highlight)}</p>` : ''}
+    <table style="width:100%;border-collapse:collapse;margin:16px 0;font-size:14px;">
+      ${content.rows.map(([label, value]) => `<tr><td style="padding:6px 0;color:#6b7280;">${escapeHtml(label)}</td><td style="padding:6px 0;text-align:right;">${escapeHtml(value)}</td></tr>`).join('\n      ')}
+    </table>
+    ${content.outro ? `<p>${escapeHtml(content.outro)}</p>` : ''}
+    ${content.action ? `<p><a href="${escapeHtml(appUrl + content.action.path)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;">${escapeHtml(content.action.label)}</a></p>` : ''}
+    <p style="margin-top:24px;font-size:12px;color:#9ca3af;">You're receiving this because of your notification settings on ${BRAND}. Change them under Settings &rsaquo; Preferences.</p>
+  </div>
+</body>
+</html>
+`;
+
+const renderText = (content: TemplateContent, greeting: string, appUrl: string) => [
+  greeting,
+  '',
+  content.intro,
+  ...(content.highlight ? ['', content.highlight] : []),
+  '',
+  ...content.rows.map(([label, value]) => `${label}: ${value}`),
+  ...(content.outro ? ['', content.outro] : []),
+  ...(content.action ? ['', `${content.action.label}: ${appUrl}${content.action.path}`] : []),
+  '',
+  `You're receiving this because of your notification settings on ${BRAND}. Change them under Settings > Preferences.`,
+  '',
+].join('\n');
+
+// appUrl is the site the links point at, without a trailing slash
+export const renderEmail = (template: EmailTemplate, data: EmailData, appUrl: string): RenderedEmail => {
+  const content = TEMPLATES[template](data);
+  const greeting = data.name ? `Hi ${data.name},` : 'Hi,';
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content, greeting, appUrl),
+    text: renderText(content, greeting, appUrl),
+  };
+};
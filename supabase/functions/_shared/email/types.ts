@@ -0,0 +1,22 @@
+// Shared types for transactional email (see the email_outbox table)
+
+export type EmailTemplate =
+  | 'wallet_funded'
+  | 'purchase_succeeded'
+  | 'purchase_failed'
+  | 'electricity_token'
+  | 'low_balance';
+
+// A rendered email, ready for a transport
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  // Resolves once the message has been handed over; throws if it wasn't
+  send(message: EmailMessage): Promise<void>;
+}
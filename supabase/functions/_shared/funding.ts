@@ -0,0 +1,33 @@
+export type FundingOutcome = 'credited' | 'rejected' | 'already_processed' | 'not_found';
+
+export interface FundingCheckFailure {
+  check: 'status' | 'reference' | 'amount' | 'currency';
+  expected: unknown;
+  received: unknown;
+}
+
+export interface FundingResult {
+  outcome: FundingOutcome;
+  transaction?: Record<string, unknown>;
+  failures?: FundingCheckFailure[];
+}
+
+// Settle a Paystack wallet funding from Paystack's view of the payment (the
+// verify API response data or a charge.success webhook payload).
+// verify-payment and paystack-webhook both go through here, so whichever
+// arrives first credits the wallet and the other sees already_processed.
+// Status, reference, amount and currency are checked against the stored
+// funding; failed checks are recorded on the transaction.
+export const creditWalletFunding = async (
+  supabase,
+  reference: string,
+  paystackData: Record<string, unknown>
+): Promise<FundingResult> => {
+  const { data, error } = await supabase.rpc('credit_wallet_funding', {
+    funding_reference: reference,
+    payment: paystackData,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,47 @@
+// transactions.reference is the idempotency key for every wallet operation.
+// A request that reuses a reference is a retry and gets the original result
+// back instead of moving money a second time.
+
+export const findTransactionByReference = async (supabase, reference: string) => {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('reference', reference)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// What a retried request asked for. amount is the face value of an
+// open-amount purchase; a plan or package purchase passes the chosen item's
+// id in details instead (e.g. { plan_id }), since that sets the amount.
+export interface ReplayRequest {
+  recipient: string;
+  amount?: number;
+  details?: Record<string, string>;
+}
+
+// A reference only replays for the same user and the same kind of purchase;
+// anything else is a client bug and is rejected with a 409
+export const isReplayOf = (
+  transaction: { user_id: string | null; type: string },
+  userId: string,
+  type: string
+) => transaction.user_id === userId && transaction.type === type;
+
+// A retry must also ask for the same thing as the original; a reference
+// reused for a different recipient or amount is rejected with a 409 rather
+// than answered with the original's result
+export const matchesReplayRequest = (
+  transaction: { recipient: string | null; amount: number; details: Record<string, unknown> | null },
+  request: ReplayRequest
+) => {
+  if (transaction.recipient !== request.recipient) return false;
+
+  const faceAmount = Number(transaction.details?.face_amount ?? transaction.amount);
+  if (request.amount !== undefined && faceAmount !== Number(request.amount)) return false;
+
+  return Object.entries(request.details ?? {})
+    .every(([key, value]) => String(transaction.details?.[key]) === String(value));
+};
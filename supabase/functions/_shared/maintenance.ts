@@ -0,0 +1,70 @@
+// Maintenance mode (see maintenance_status). The whole site, one service or
+// one provider within a service can be taken down from the admin settings
+// page; purchases and wallet funding check here before any money moves.
+
+export type MaintenanceService = 'airtime' | 'data' | 'electricity' | 'cable' | 'wallet';
+
+export interface MaintenanceFailure {
+  code: 'MAINTENANCE';
+  status: number;
+  message: string;
+  scope: 'site' | 'service' | 'provider';
+  endsAt: string | null;
+}
+
+const SERVICE_NAMES: Record<MaintenanceService, string> = {
+  airtime: 'Airtime purchases',
+  data: 'Data purchases',
+  electricity: 'Electricity payments',
+  cable: 'Cable TV payments',
+  wallet: 'Wallet funding',
+};
+
+export const checkMaintenance = async (
+  supabase,
+  service: MaintenanceService,
+  provider?: string
+): Promise<{ error: MaintenanceFailure | null }> => {
+  const { data: status, error } = await supabase.rpc('maintenance_status', {
+    service_name: service,
+    provider_code: provider ?? null,
+  });
+  if (error) throw error;
+
+  if (!status?.active) {
+    return { error: null };
+  }
+
+  const subject = status.scope === 'site'
+    ? 'The site is'
+    : status.scope === 'provider'
+      ? `${SERVICE_NAMES[service]} for ${status.provider.toUpperCase()} are`
+      : `${SERVICE_NAMES[service]} are`;
+
+  let message = `${subject} under maintenance`;
+  if (status.ends_at) {
+    message = `${message} until ${new Date(status.ends_at).toUTCString()}`;
+  }
+  if (status.message) {
+    message = `${message}. ${status.message}`;
+  }
+
+  return {
+    error: {
+      code: 'MAINTENANCE',
+      status: 503,
+      message,
+      scope: status.scope,
+      endsAt: status.ends_at ?? null,
+    },
+  };
+};
+
+// The response body for a request turned away by maintenance
+export const maintenanceFailureBody = (failure: MaintenanceFailure) => ({
+  success: false,
+  error: failure.message,
+  code: failure.code,
+  scope: failure.scope,
+  endsAt: failure.endsAt,
+});
@@ -0,0 +1,53 @@
+// Paystack signs webhook bodies with HMAC-SHA512 of the raw request body,
+// keyed with the account's secret key, sent hex-encoded in x-paystack-signature
+
+export const signPaystackPayload = async (secretKey: string, payload: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secretKey),
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Constant-time comparison so the signature can't be guessed byte by byte
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+export const verifyPaystackSignature = async (
+  secretKey: string,
+  payload: string,
+  signature: string | null
+) => {
+  if (!signature) return false;
+  const expected = await signPaystackPayload(secretKey, payload);
+  return timingSafeEqual(expected, signature.toLowerCase());
+};
+
+// Paystack's view of a transaction, from the verify endpoint
+export const fetchPaystackTransaction = async (secretKey: string, reference: string) => {
+  const response = await fetch(
+    `https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${secretKey}`,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  return await response.json();
+};
@@ -0,0 +1,59 @@
+// Transaction PINs (see the transaction_pins table). Purchases made from a
+// signed-in session must carry the customer's PIN; reseller API calls and
+// scheduled runs are authorised by their API key or schedule instead.
+
+export interface PinFailure {
+  code: string;
+  status: number;
+  message: string;
+  attemptsRemaining?: number;
+  lockedUntil?: string;
+}
+
+const PIN_ERRORS: Record<string, { status: number; message: string }> = {
+  PIN_REQUIRED: { status: 400, message: 'Enter your transaction PIN' },
+  PIN_NOT_SET: { status: 403, message: 'Set a transaction PIN in Settings before making purchases' },
+  INVALID_PIN: { status: 403, message: 'Incorrect transaction PIN' },
+  PIN_LOCKED: { status: 423, message: 'Your transaction PIN is locked after too many incorrect attempts' },
+};
+
+export const checkTransactionPin = async (
+  supabase,
+  userId: string,
+  pin: unknown
+): Promise<{ error: PinFailure | null }> => {
+  if (typeof pin !== 'string' || !/^\d{4}$/.test(pin)) {
+    return { error: { code: 'PIN_REQUIRED', ...PIN_ERRORS.PIN_REQUIRED } };
+  }
+
+  const { data: check, error } = await supabase.rpc('check_transaction_pin', { user_uuid: userId, pin });
+  if (error) throw error;
+
+  if (check.valid) {
+    return { error: null };
+  }
+
+  const failure: PinFailure = { code: check.code, ...PIN_ERRORS[check.code] };
+
+  if (check.code === 'INVALID_PIN') {
+    failure.attemptsRemaining = check.attempts_remaining;
+    failure.message = `${failure.message}. ${check.attempts_remaining} attempt(s) left before it is locked.`;
+  }
+
+  if (check.code === 'PIN_LOCKED') {
+    const minutes = Math.max(1, Math.ceil((new Date(check.locked_until).getTime() - Date.now()) / 60_000));
+    failure.lockedUntil = check.locked_until;
+    failure.message = `${failure.message}. Try again in ${minutes} minute(s) or reset it in Settings.`;
+  }
+
+  return { error: failure };
+};
+
+// The response body for a rejected PIN
+export const pinFailureBody = (failure: PinFailure) => ({
+  success: false,
+  error: failure.message,
+  code: failure.code,
+  ...(failure.attemptsRemaining !== undefined ? { attemptsRemaining: failure.attemptsRemaining } : {}),
+  ...(failure.lockedUntil ? { lockedUntil: failure.lockedUntil } : {}),
+});
@@ -0,0 +1,27 @@
+// Tier pricing for purchases (see the price_purchase database function).
+// face_amount is what the provider vends; charged_amount (face + fee) is
+// what comes out of the wallet.
+
+export interface PurchaseQuote {
+  tier: string;
+  face_amount: number;
+  fee: number;
+  charged_amount: number;
+}
+
+// price_purchase raises the same INVALID_AMOUNT / PROFILE_NOT_FOUND codes as
+// the debit, so callers can report errors with describeDebitError
+export const quotePurchase = async (
+  supabase,
+  userId: string,
+  service: 'airtime' | 'data' | 'electricity' | 'cable',
+  faceAmount: number
+): Promise<{ quote: PurchaseQuote | null; error: { message?: string } | null }> => {
+  const { data, error } = await supabase.rpc('price_purchase', {
+    user_uuid: userId,
+    purchase_type: service,
+    face_amount: faceAmount,
+  });
+
+  return { quote: data, error };
+};
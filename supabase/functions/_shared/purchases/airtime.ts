@@ -0,0 +1,94 @@
+import { getVtuProvider } from '../vtu/index.ts';
+import { checkMaintenance, maintenanceFailureBody } from '../maintenance.ts';
+import {
+  chargeWallet,
+  failure,
+  findReplay,
+  prepareVend,
+  PurchasePresenter,
+  PurchaseResult,
+  settleVend,
+} from './common.ts';
+
+export interface AirtimePurchase {
+  provider?: string;
+  phoneNumber?: string;
+  amount?: number;
+  reference?: string;
+}
+
+const present: PurchasePresenter = (transaction) => ({
+  success: `${transaction.details?.provider_name} airtime purchase successful`,
+  processing: `${transaction.details?.provider_name} airtime purchase is processing`,
+  data: {
+    phone: transaction.recipient,
+    provider: transaction.details?.provider_name,
+  },
+});
+
+export const buyAirtime = async (
+  supabase,
+  userId: string,
+  { provider, phoneNumber, amount, reference }: AirtimePurchase
+): Promise<PurchaseResult> => {
+  if (!provider || !phoneNumber || !amount || !reference) {
+    return failure(400, { error: 'Missing required parameters' });
+  }
+
+  const replayed = await findReplay(
+    supabase, userId, 'airtime', reference, { recipient: phoneNumber, amount }, present
+  );
+  if (replayed) {
+    return replayed;
+  }
+
+  // Get provider details
+  const { data: providerData, error: providerError } = await supabase
+    .from('network_providers')
+    .select('*')
+    .eq('code', provider.toLowerCase())
+    .single();
+
+  if (providerError || !providerData) {
+    return failure(404, { error: 'Provider not found' });
+  }
+
+  // Nothing is charged while the service or this provider is under maintenance
+  const { error: maintenance } = await checkMaintenance(supabase, 'airtime', providerData.code);
+  if (maintenance) {
+    return failure(maintenance.status, maintenanceFailureBody(maintenance));
+  }
+
+  // Resolve the VTU provider before any money moves
+  const vtu = await getVtuProvider(supabase, 'airtime');
+
+  const { transaction, failure: chargeFailure } = await chargeWallet(supabase, {
+    userId,
+    type: 'airtime',
+    faceAmount: amount,
+    reference,
+    provider: provider.toLowerCase(),
+    recipient: phoneNumber,
+    details: {
+      phone_number: phoneNumber,
+      provider_name: providerData.name,
+    },
+  }, present);
+
+  if (chargeFailure) {
+    return chargeFailure;
+  }
+
+  const prepared = await prepareVend(supabase, transaction, vtu);
+
+  // Vend through the VTU provider configured for airtime
+  const vend = prepared.failed ?? await vtu.buyAirtime({
+    reference,
+    providerReference: prepared.providerReference,
+    network: providerData.code,
+    phoneNumber,
+    amount,
+  });
+
+  return settleVend(supabase, prepared.transaction, vtu, vend, present);
+};
@@ -0,0 +1,116 @@
+import { getVtuProvider } from '../vtu/index.ts';
+import { checkCustomerVerification } from '../verification.ts';
+import { checkMaintenance, maintenanceFailureBody } from '../maintenance.ts';
+import {
+  chargeWallet,
+  failure,
+  findReplay,
+  prepareVend,
+  PurchasePresenter,
+  PurchaseResult,
+  settleVend,
+} from './common.ts';
+
+export interface CablePayment {
+  packageId?: string;
+  smartCardNumber?: string;
+  verificationToken?: string;
+  reference?: string;
+}
+
+const present: PurchasePresenter = (transaction) => ({
+  success: `${transaction.details?.package_name} subscription successful`,
+  processing: `${transaction.details?.package_name} subscription is processing`,
+  data: {
+    smartcard: transaction.recipient,
+    customer: transaction.details?.customer_name,
+    provider: transaction.details?.provider_name,
+    package: transaction.details?.package_name,
+    duration: transaction.details?.duration,
+  },
+});
+
+export const payCable = async (
+  supabase,
+  userId: string,
+  { packageId, smartCardNumber, verificationToken, reference }: CablePayment
+): Promise<PurchaseResult> => {
+  if (!packageId || !smartCardNumber || !reference) {
+    return failure(400, { error: 'Missing required parameters' });
+  }
+
+  const replayed = await findReplay(
+    supabase, userId, 'cable', reference, { recipient: smartCardNumber, details: { package_id: packageId } }, present
+  );
+  if (replayed) {
+    return replayed;
+  }
+
+  // Get the package details
+  const { data: packageData, error: packageError } = await supabase
+    .from('cable_packages')
+    .select('*, cable_providers(*)')
+    .eq('id', packageId)
+    .single();
+
+  if (packageError || !packageData) {
+    return failure(404, { error: 'Cable package not found' });
+  }
+
+  // Nothing is charged while the service or this provider is under maintenance
+  const { error: maintenance } = await checkMaintenance(supabase, 'cable', packageData.cable_providers.code);
+  if (maintenance) {
+    return failure(maintenance.status, maintenanceFailureBody(maintenance));
+  }
+
+  // Only pay a smart card the customer verified with verify-customer
+  const { verification, error: verificationFailure } = await checkCustomerVerification(
+    supabase,
+    verificationToken,
+    { userId, service: 'cable', provider: packageData.cable_providers.code, customerId: smartCardNumber }
+  );
+
+  if (verificationFailure) {
+    return failure(verificationFailure.status, { error: verificationFailure.message, code: verificationFailure.code });
+  }
+
+  // Resolve the VTU provider before any money moves
+  const vtu = await getVtuProvider(supabase, 'cable');
+
+  const { transaction, failure: chargeFailure } = await chargeWallet(supabase, {
+    userId,
+    type: 'cable',
+    faceAmount: packageData.amount,
+    reference,
+    provider: packageData.cable_providers.code,
+    recipient: smartCardNumber,
+    details: {
+      smart_card_number: smartCardNumber,
+      customer_name: verification.customer_name,
+      current_bouquet: verification.current_bouquet,
+      verification_id: verification.id,
+      provider_name: packageData.cable_providers.name,
+      package_id: packageData.id,
+      package_name: packageData.name,
+      duration: packageData.duration,
+    },
+  }, present);
+
+  if (chargeFailure) {
+    return chargeFailure;
+  }
+
+  const prepared = await prepareVend(supabase, transaction, vtu);
+
+  // Vend through the VTU provider configured for cable
+  const vend = prepared.failed ?? await vtu.payCable({
+    reference,
+    providerReference: prepared.providerReference,
+    provider: packageData.cable_providers.code,
+    packageCode: packageData.code,
+    smartCardNumber,
+    amount: packageData.amount,
+  });
+
+  return settleVend(supabase, prepared.transaction, vtu, vend, present);
+};
@@ -0,0 +1,257 @@
+// The purchase flow shared by the dashboard edge functions and the reseller
+// API: replay a known reference, price and debit, vend, then record the
+// outcome (reversing the debit if the vend failed). Each step returns a
+// PurchaseResult the caller turns into a Response with its own headers.
+import { describeDebitError } from '../wallet.ts';
+import { quotePurchase } from '../pricing.ts';
+import { findTransactionByReference, isReplayOf, matchesReplayRequest, ReplayRequest } from '../idempotency.ts';
+import { reverseTransaction } from '../reversal.ts';
+import { VendResult, VtuProvider } from '../vtu/types.ts';
+
+export type PurchaseType = 'airtime' | 'data' | 'electricity' | 'cable';
+
+export interface PurchaseResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// The service-specific part of a purchase response, built from the
+// transaction row
+export type PurchasePresenter = (transaction) => {
+  success: string;
+  processing: string;
+  data: Record<string, unknown>;
+};
+
+export const failure = (status: number, body: Record<string, unknown>): PurchaseResult => ({ status, body });
+
+// Build the result from the transaction row, so a retried reference gets
+// back exactly what the original request did
+export const purchaseResult = (transaction, present: PurchasePresenter, replayed = false): PurchaseResult => {
+  const details = transaction.details ?? {};
+
+  // A failed vend is reversed straight away, so 'reversed' means refunded
+  if (transaction.status === 'failed' || transaction.status === 'reversed') {
+    return failure(400, {
+      success: false,
+      error: details.error || 'Service provider API failure',
+      refunded: transaction.status === 'reversed',
+      reference: transaction.reference,
+      replayed
+    });
+  }
+
+  const { success, processing, data } = present(transaction);
+
+  // 202 while the provider is still processing
+  return {
+    status: transaction.status === 'success' ? 200 : 202,
+    body: {
+      success: true,
+      status: transaction.status,
+      replayed,
+      message: transaction.status === 'success' ? success : processing,
+      data: {
+        amount: details.face_amount ?? transaction.amount,
+        fee: details.fee ?? 0,
+        charged: transaction.amount,
+        ...data,
+        reference: transaction.reference,
+        date: details.transaction_date
+      }
+    }
+  };
+};
+
+// A reference we have already seen is a retry: replay the original result
+const replay = (existing, userId: string, type: PurchaseType, request: ReplayRequest, present: PurchasePresenter) => {
+  if (!existing || !isReplayOf(existing, userId, type)) {
+    return failure(409, { error: 'Reference has already been used', code: 'DUPLICATE_REFERENCE' });
+  }
+  if (!matchesReplayRequest(existing, request)) {
+    return failure(409, {
+      error: 'Reference was already used for a different purchase',
+      code: 'IDEMPOTENCY_MISMATCH'
+    });
+  }
+  return purchaseResult(existing, present, true);
+};
+
+export const findReplay = async (
+  supabase,
+  userId: string,
+  type: PurchaseType,
+  reference: string,
+  request: ReplayRequest,
+  present: PurchasePresenter
+): Promise<PurchaseResult | null> => {
+  const existing = await findTransactionByReference(supabase, reference);
+  return existing ? replay(existing, userId, type, request, present) : null;
+};
+
+export interface PurchaseCharge {
+  userId: string;
+  type: PurchaseType;
+  faceAmount: number;
+  reference: string;
+  provider: string;
+  recipient: string;
+  details: Record<string, unknown>;
+}
+
+const replayRequestOf = (charge: PurchaseCharge): ReplayRequest => ({
+  recipient: charge.recipient,
+  amount: charge.faceAmount,
+});
+
+// Price the order at the customer's tier, then debit the wallet and record
+// the pending transaction in one step. The provider vends the face value,
+// the wallet is charged face value plus fee.
+export const chargeWallet = async (
+  supabase,
+  charge: PurchaseCharge,
+  present: PurchasePresenter
+): Promise<{ transaction; failure: PurchaseResult | null }> => {
+  const { quote, error: quoteError } = await quotePurchase(supabase, charge.userId, charge.type, charge.faceAmount);
+
+  if (quoteError || !quote) {
+    const quoteFailure = describeDebitError(quoteError ?? {});
+    if (quoteFailure.status === 500) {
+      console.error('Pricing error:', quoteError);
+    }
+    return {
+      transaction: null,
+      failure: failure(quoteFailure.status, { error: quoteFailure.message, code: quoteFailure.code }),
+    };
+  }
+
+  const { data: transaction, error: debitError } = await supabase.rpc(
+    'debit_wallet_for_purchase',
+    {
+      user_uuid: charge.userId,
+      purchase_type: charge.type,
+      purchase_amount: quote.charged_amount,
+      purchase_reference: charge.reference,
+      purchase_provider: charge.provider,
+      purchase_recipient: charge.recipient,
+      purchase_details: {
+        ...charge.details,
+        face_amount: quote.face_amount,
+        fee: quote.fee,
+        pricing_tier: quote.tier,
+        transaction_date: new Date().toISOString()
+      }
+    }
+  );
+
+  if (debitError || !transaction) {
+    const debitFailure = describeDebitError(debitError ?? {});
+    // Lost a race with a concurrent request using the same reference
+    if (debitFailure.code === 'DUPLICATE_REFERENCE') {
+      const existing = await findTransactionByReference(supabase, charge.reference);
+      return {
+        transaction: null,
+        failure: replay(existing, charge.userId, charge.type, replayRequestOf(charge), present),
+      };
+    }
+    if (debitFailure.status === 500) {
+      console.error('Wallet debit error:', debitError);
+    }
+    return {
+      transaction: null,
+      failure: failure(debitFailure.status, {
+        error: debitFailure.message,
+        code: debitFailure.code,
+        limit: debitFailure.limit
+      }),
+    };
+  }
+
+  return { transaction, failure: null };
+};
+
+// Record the id the provider will be sent (see VtuProvider.vendReference)
+// before the vend goes out. If it can't be recorded nothing is sent, and the
+// returned failed result settles the purchase as a refund.
+export const prepareVend = async (
+  supabase,
+  transaction,
+  vtu: VtuProvider
+): Promise<{ transaction; providerReference?: string; failed: VendResult | null }> => {
+  const providerReference = vtu.vendReference?.(transaction.reference);
+  if (!providerReference) {
+    return { transaction, failed: null };
+  }
+
+  const details = { ...transaction.details, vtu_provider: vtu.name, provider_reference: providerReference };
+
+  const { error } = await supabase
+    .from('transactions')
+    .update({ details })
+    .eq('id', transaction.id);
+
+  if (error) {
+    console.error('Provider reference record error:', error);
+    return { transaction, failed: { status: 'failed', message: 'Could not start the vend. Please try again.' } };
+  }
+
+  return { transaction: { ...transaction, details }, providerReference, failed: null };
+};
+
+// Record the provider outcome on the transaction. A failed vend is recorded
+// with its reason and the debit reversed.
+export const settleVend = async (
+  supabase,
+  transaction,
+  vtu: VtuProvider,
+  vend: VendResult,
+  present: PurchasePresenter,
+  extraDetails: Record<string, unknown> = {}
+): Promise<PurchaseResult> => {
+  const vendDetails = {
+    ...transaction.details,
+    vtu_provider: vtu.name,
+    provider_reference: vend.providerReference ?? transaction.details?.provider_reference,
+    ...extraDetails,
+  };
+
+  if (vend.status !== 'failed') {
+    // Success, or pending while the provider processes it
+    const { error: transactionError } = await supabase
+      .from('transactions')
+      .update({ status: vend.status, details: vendDetails })
+      .eq('id', transaction.id);
+
+    if (transactionError) {
+      console.error('Transaction record error:', transactionError);
+    }
+
+    return purchaseResult({ ...transaction, status: vend.status, details: vendDetails }, present);
+  }
+
+  const failedDetails = {
+    ...vendDetails,
+    error: vend.message || 'Service provider API failure'
+  };
+
+  const { error: transactionError } = await supabase
+    .from('transactions')
+    .update({ status: 'failed', details: failedDetails })
+    .eq('id', transaction.id);
+
+  if (transactionError) {
+    console.error('Transaction record error:', transactionError);
+  }
+
+  const { reversal } = await reverseTransaction(supabase, transaction.id, failedDetails.error);
+
+  if (reversal) {
+    return purchaseResult({
+      ...transaction,
+      status: 'reversed',
+      details: { ...failedDetails, reversal: { reference: reversal.reference } }
+    }, present);
+  }
+
+  return purchaseResult({ ...transaction, status: 'failed', details: failedDetails }, present);
+};
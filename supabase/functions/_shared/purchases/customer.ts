@@ -0,0 +1,113 @@
+import { getVtuProvider } from '../vtu/index.ts';
+import { MeterType, VerifiableService } from '../vtu/types.ts';
+import { failure, PurchaseResult } from './common.ts';
+
+// Request bodies are checked at runtime, the types only describe what a
+// well-formed one looks like
+export interface CustomerLookup {
+  service?: VerifiableService;
+  provider?: string;
+  customerId?: string;
+  meterType?: MeterType;
+}
+
+const PROVIDER_TABLES = {
+  electricity: 'electricity_providers',
+  cable: 'cable_providers',
+};
+
+// Look a meter or smart card up through the VTU provider and record the
+// verification. customerId is the meter number or smart card number; the
+// returned verificationToken is what pay-electricity / pay-cable expect.
+export const verifyCustomer = async (
+  supabase,
+  userId: string,
+  { service, provider, customerId, meterType = 'prepaid' }: CustomerLookup
+): Promise<PurchaseResult> => {
+  if (!service || !provider || !customerId) {
+    return failure(400, { error: 'Missing required parameters' });
+  }
+
+  if (!(service in PROVIDER_TABLES) || (service === 'electricity' && !['prepaid', 'postpaid'].includes(meterType))) {
+    return failure(400, { error: 'Invalid service or meter type' });
+  }
+
+  // Get provider details
+  const { data: providerData, error: providerError } = await supabase
+    .from(PROVIDER_TABLES[service])
+    .select('*')
+    .eq('code', provider.toLowerCase())
+    .single();
+
+  if (providerError || !providerData) {
+    return failure(404, { error: 'Provider not found' });
+  }
+
+  // Look the customer up through the VTU provider configured for the service
+  const vtu = await getVtuProvider(supabase, service);
+  const result = await vtu.verifyCustomer({
+    service,
+    provider: providerData.code,
+    customerId,
+    meterType: service === 'electricity' ? meterType : undefined,
+  });
+
+  if (!result.valid || !result.customerName) {
+    return failure(404, {
+      success: false,
+      error: result.message || 'Customer could not be verified',
+      code: 'CUSTOMER_NOT_FOUND'
+    });
+  }
+
+  // Record the lookup; its id is the token the payment must present
+  const { data: verification, error: verificationError } = await supabase
+    .from('customer_verifications')
+    .insert({
+      user_id: userId,
+      service,
+      provider: providerData.code,
+      customer_id: customerId,
+      meter_type: service === 'electricity' ? meterType : null,
+      customer_name: result.customerName,
+      address: result.address ?? null,
+      current_bouquet: result.currentBouquet ?? null,
+      vtu_provider: vtu.name,
+    })
+    .select()
+    .single();
+
+  if (verificationError) {
+    console.error('Verification record error:', verificationError);
+    return failure(500, { error: 'Failed to record verification' });
+  }
+
+  // Keep the name on a saved beneficiary for this meter / smart card current
+  const { error: beneficiaryError } = await supabase
+    .from('beneficiaries')
+    .update({ customer_name: result.customerName, verified_at: verification.created_at })
+    .eq('user_id', userId)
+    .eq('service', service)
+    .eq('provider', providerData.code)
+    .eq('identifier', customerId);
+
+  if (beneficiaryError) {
+    console.error('Beneficiary update error:', beneficiaryError);
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      data: {
+        verificationToken: verification.id,
+        customerName: verification.customer_name,
+        address: verification.address,
+        currentBouquet: verification.current_bouquet,
+        meterType: verification.meter_type,
+        provider: providerData.name,
+        expiresAt: verification.expires_at
+      }
+    }
+  };
+};
@@ -0,0 +1,100 @@
+import { getVtuProvider } from '../vtu/index.ts';
+import { checkMaintenance, maintenanceFailureBody } from '../maintenance.ts';
+import {
+  chargeWallet,
+  failure,
+  findReplay,
+  prepareVend,
+  PurchasePresenter,
+  PurchaseResult,
+  settleVend,
+} from './common.ts';
+
+export interface DataPurchase {
+  planId?: string;
+  phoneNumber?: string;
+  reference?: string;
+}
+
+const present: PurchasePresenter = (transaction) => ({
+  success: `${transaction.details?.plan_name} purchase successful`,
+  processing: `${transaction.details?.plan_name} purchase is processing`,
+  data: {
+    phone: transaction.recipient,
+    provider: transaction.details?.provider_name,
+    plan: transaction.details?.plan_name,
+    validity: transaction.details?.validity,
+  },
+});
+
+export const buyData = async (
+  supabase,
+  userId: string,
+  { planId, phoneNumber, reference }: DataPurchase
+): Promise<PurchaseResult> => {
+  if (!planId || !phoneNumber || !reference) {
+    return failure(400, { error: 'Missing required parameters' });
+  }
+
+  const replayed = await findReplay(
+    supabase, userId, 'data', reference, { recipient: phoneNumber, details: { plan_id: planId } }, present
+  );
+  if (replayed) {
+    return replayed;
+  }
+
+  // Get the data plan details
+  const { data: plan, error: planError } = await supabase
+    .from('data_plans')
+    .select('*, network_providers(*)')
+    .eq('id', planId)
+    .single();
+
+  if (planError || !plan) {
+    return failure(404, { error: 'Data plan not found' });
+  }
+
+  // Nothing is charged while the service or this provider is under maintenance
+  const { error: maintenance } = await checkMaintenance(supabase, 'data', plan.network_providers.code);
+  if (maintenance) {
+    return failure(maintenance.status, maintenanceFailureBody(maintenance));
+  }
+
+  // Resolve the VTU provider before any money moves
+  const vtu = await getVtuProvider(supabase, 'data');
+
+  const { transaction, failure: chargeFailure } = await chargeWallet(supabase, {
+    userId,
+    type: 'data',
+    faceAmount: plan.amount,
+    reference,
+    provider: plan.network_providers.code,
+    recipient: phoneNumber,
+    details: {
+      phone_number: phoneNumber,
+      provider_name: plan.network_providers.name,
+      plan_id: plan.id,
+      plan_name: plan.name,
+      data_amount: plan.name,
+      validity: plan.validity,
+    },
+  }, present);
+
+  if (chargeFailure) {
+    return chargeFailure;
+  }
+
+  const prepared = await prepareVend(supabase, transaction, vtu);
+
+  // Vend through the VTU provider configured for data
+  const vend = prepared.failed ?? await vtu.buyData({
+    reference,
+    providerReference: prepared.providerReference,
+    network: plan.network_providers.code,
+    planCode: plan.code,
+    phoneNumber,
+    amount: plan.amount,
+  });
+
+  return settleVend(supabase, prepared.transaction, vtu, vend, present);
+};
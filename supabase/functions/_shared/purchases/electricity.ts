@@ -0,0 +1,116 @@
+import { getVtuProvider } from '../vtu/index.ts';
+import { MeterType } from '../vtu/types.ts';
+import { checkCustomerVerification } from '../verification.ts';
+import { checkMaintenance, maintenanceFailureBody } from '../maintenance.ts';
+import {
+  chargeWallet,
+  failure,
+  findReplay,
+  prepareVend,
+  PurchasePresenter,
+  PurchaseResult,
+  settleVend,
+} from './common.ts';
+
+export interface ElectricityPayment {
+  provider?: string;
+  meterNumber?: string;
+  meterType?: MeterType;
+  amount?: number;
+  verificationToken?: string;
+  reference?: string;
+}
+
+const present: PurchasePresenter = (transaction) => ({
+  success: `${transaction.details?.provider_name} bill payment successful`,
+  processing: `${transaction.details?.provider_name} bill payment is processing`,
+  data: {
+    meter: transaction.recipient,
+    customer: transaction.details?.customer_name,
+    provider: transaction.details?.provider_name,
+    token: transaction.details?.token ?? null,
+  },
+});
+
+export const payElectricity = async (
+  supabase,
+  userId: string,
+  { provider, meterNumber, meterType = 'prepaid', amount, verificationToken, reference }: ElectricityPayment
+): Promise<PurchaseResult> => {
+  if (!provider || !meterNumber || !amount || !reference) {
+    return failure(400, { error: 'Missing required parameters' });
+  }
+
+  const replayed = await findReplay(
+    supabase, userId, 'electricity', reference, { recipient: meterNumber, amount }, present
+  );
+  if (replayed) {
+    return replayed;
+  }
+
+  // Get provider details
+  const { data: providerData, error: providerError } = await supabase
+    .from('electricity_providers')
+    .select('*')
+    .eq('code', provider.toLowerCase())
+    .single();
+
+  if (providerError || !providerData) {
+    return failure(404, { error: 'Provider not found' });
+  }
+
+  // Nothing is charged while the service or this provider is under maintenance
+  const { error: maintenance } = await checkMaintenance(supabase, 'electricity', providerData.code);
+  if (maintenance) {
+    return failure(maintenance.status, maintenanceFailureBody(maintenance));
+  }
+
+  // Only pay a meter the customer verified with verify-customer
+  const { verification, error: verificationFailure } = await checkCustomerVerification(
+    supabase,
+    verificationToken,
+    { userId, service: 'electricity', provider: providerData.code, customerId: meterNumber, meterType }
+  );
+
+  if (verificationFailure) {
+    return failure(verificationFailure.status, { error: verificationFailure.message, code: verificationFailure.code });
+  }
+
+  // Resolve the VTU provider before any money moves
+  const vtu = await getVtuProvider(supabase, 'electricity');
+
+  const { transaction, failure: chargeFailure } = await chargeWallet(supabase, {
+    userId,
+    type: 'electricity',
+    faceAmount: amount,
+    reference,
+    provider: provider.toLowerCase(),
+    recipient: meterNumber,
+    details: {
+      meter_number: meterNumber,
+      meter_type: meterType,
+      customer_name: verification.customer_name,
+      customer_address: verification.address,
+      verification_id: verification.id,
+      provider_name: providerData.name,
+    },
+  }, present);
+
+  if (chargeFailure) {
+    return chargeFailure;
+  }
+
+  const prepared = await prepareVend(supabase, transaction, vtu);
+
+  // Vend through the VTU provider configured for electricity
+  const vend = prepared.failed ?? await vtu.payElectricity({
+    reference,
+    providerReference: prepared.providerReference,
+    disco: providerData.code,
+    meterNumber,
+    meterType,
+    amount,
+  });
+
+  return settleVend(supabase, prepared.transaction, vtu, vend, present, { token: vend.token ?? null });
+};
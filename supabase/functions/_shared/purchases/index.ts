@@ -0,0 +1,6 @@
+export type { PurchaseResult, PurchaseType } from './common.ts';
+export { buyAirtime } from './airtime.ts';
+export { buyData } from './data.ts';
+export { payElectricity } from './electricity.ts';
+export { payCable } from './cable.ts';
+export { verifyCustomer } from './customer.ts';
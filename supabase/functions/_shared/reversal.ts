@@ -0,0 +1,22 @@
+// Return the money for a purchase to the customer's wallet. Creates a linked
+// 'reversal' transaction and moves the original to 'reversed' (see the
+// reverse_transaction database function). Safe to call more than once: a
+// second call fails with ALREADY_REVERSED and moves no money.
+export const reverseTransaction = async (
+  supabase,
+  transactionId: string,
+  reason: string,
+  initiatedBy: string | null = null
+) => {
+  const { data: reversal, error } = await supabase.rpc('reverse_transaction', {
+    original_id: transactionId,
+    reversal_reason: reason,
+    initiated_by: initiatedBy,
+  });
+
+  if (error) {
+    console.error('Reversal error:', transactionId, error);
+  }
+
+  return { reversal, error };
+};
@@ -0,0 +1,117 @@
+// Provider credentials (see the provider_secrets table). Admins save them
+// from the API tab of the admin settings page through the provider-secrets
+// function; each value is encrypted here with AES-256-GCM under
+// PROVIDER_SECRETS_KEY, so the database only ever holds ciphertext. A
+// credential that hasn't been saved falls back to the env var of the same
+// name.
+
+export const PROVIDER_SECRET_NAMES = [
+  'PAYSTACK_SECRET_KEY',
+  'MONNIFY_API_KEY',
+  'MONNIFY_SECRET_KEY',
+  'VTPASS_API_KEY',
+  'VTPASS_SECRET_KEY',
+  'CLUBKONNECT_USER_ID',
+  'CLUBKONNECT_API_KEY',
+] as const;
+
+export type ProviderSecretName = typeof PROVIDER_SECRET_NAMES[number];
+
+// Decrypted values are kept this long, so a cron run or a bulk purchase
+// doesn't read the table for every vend. A rotation reaches every function
+// within this time.
+const CACHE_TTL_MS = Number(Deno.env.get('PROVIDER_SECRETS_CACHE_SECONDS') ?? 60) * 1000;
+
+const cache = new Map<ProviderSecretName, { value: string | undefined; expiresAt: number }>();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// PROVIDER_SECRETS_KEY is 32 random bytes, base64-encoded
+// (e.g. `openssl rand -base64 32`)
+const encryptionKey = async () => {
+  const raw = Deno.env.get('PROVIDER_SECRETS_KEY');
+  if (!raw) {
+    return null;
+  }
+
+  const bytes = fromBase64(raw);
+  if (bytes.length !== 32) {
+    throw new Error('PROVIDER_SECRETS_KEY must be 32 bytes, base64-encoded');
+  }
+
+  return crypto.subtle.importKey('raw', bytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+};
+
+export const isProviderSecretName = (name: unknown): name is ProviderSecretName =>
+  PROVIDER_SECRET_NAMES.includes(name as ProviderSecretName);
+
+// The credential's name is bound in as additional data, so a ciphertext
+// copied onto another row won't decrypt
+export const encryptProviderSecret = async (name: ProviderSecretName, value: string) => {
+  const key = await encryptionKey();
+  if (!key) {
+    throw new Error('PROVIDER_SECRETS_KEY is not configured');
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(name) },
+    key,
+    new TextEncoder().encode(value)
+  );
+
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+};
+
+const decryptProviderSecret = async (name: ProviderSecretName, ciphertext: string, iv: string) => {
+  const key = await encryptionKey();
+  if (!key) {
+    throw new Error(`${name} is stored encrypted but PROVIDER_SECRETS_KEY is not configured`);
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(name) },
+    key,
+    fromBase64(ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+};
+
+// The saved credential, else the env var, else undefined
+export const getProviderSecret = async (supabase, name: ProviderSecretName): Promise<string | undefined> => {
+  const cached = cache.get(name);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const { data: stored, error } = await supabase
+    .from('provider_secrets')
+    .select('ciphertext, iv')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const value = stored
+    ? await decryptProviderSecret(name, stored.ciphertext, stored.iv)
+    : Deno.env.get(name) || undefined;
+
+  cache.set(name, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+};
+
+export const requireProviderSecret = async (supabase, name: ProviderSecretName) => {
+  const value = await getProviderSecret(supabase, name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+// Drop a cached value after it has been rotated or cleared here
+export const forgetProviderSecret = (name: ProviderSecretName) => {
+  cache.delete(name);
+};
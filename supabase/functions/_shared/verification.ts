@@ -0,0 +1,57 @@
+// Meter and smart card verifications issued by verify-customer. The id of a
+// customer_verifications row is the token the client sends back with its
+// payment, so the name on the transaction is the one the provider returned.
+
+export interface ExpectedVerification {
+  userId: string;
+  service: 'electricity' | 'cable';
+  provider: string;
+  customerId: string;
+  meterType?: string;
+}
+
+const VERIFICATION_ERRORS: Record<string, { status: number; message: string }> = {
+  VERIFICATION_REQUIRED: { status: 400, message: 'Please verify the customer before paying' },
+  VERIFICATION_MISMATCH: { status: 400, message: 'Verification does not match this payment' },
+  VERIFICATION_EXPIRED: { status: 400, message: 'Verification has expired, please verify the customer again' },
+};
+
+const verificationError = (code: string) => ({ code, ...VERIFICATION_ERRORS[code] });
+
+// Load the verification behind a token and make sure it was issued to this
+// user for exactly this provider and meter / smart card
+export const checkCustomerVerification = async (
+  supabase,
+  token: string | undefined,
+  expected: ExpectedVerification
+) => {
+  if (!token) {
+    return { verification: null, error: verificationError('VERIFICATION_REQUIRED') };
+  }
+
+  const { data: verification, error } = await supabase
+    .from('customer_verifications')
+    .select('*')
+    .eq('id', token)
+    .maybeSingle();
+
+  // A malformed token is a mismatch rather than a server error
+  if (error && error.code !== '22P02') throw error;
+
+  const matches = verification &&
+    verification.user_id === expected.userId &&
+    verification.service === expected.service &&
+    verification.provider === expected.provider.toLowerCase() &&
+    verification.customer_id === expected.customerId &&
+    (expected.service !== 'electricity' || verification.meter_type === expected.meterType);
+
+  if (!matches) {
+    return { verification: null, error: verificationError('VERIFICATION_MISMATCH') };
+  }
+
+  if (new Date(verification.expires_at).getTime() < Date.now()) {
+    return { verification: null, error: verificationError('VERIFICATION_EXPIRED') };
+  }
+
+  return { verification, error: null };
+};
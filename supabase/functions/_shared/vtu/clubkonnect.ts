@@ -0,0 +1,182 @@
+import { fetchJson, unknownOutcome } from './http.ts';
+import {
+  AirtimeVendRequest,
+  CableVendRequest,
+  CustomerVerification,
+  CustomerVerificationRequest,
+  DataVendRequest,
+  ElectricityVendRequest,
+  RequeryRequest,
+  VendResult,
+  VtuProvider,
+} from './types.ts';
+
+export interface ClubKonnectConfig {
+  baseUrl: string;
+  userId: string;
+  apiKey: string;
+}
+
+// Our provider codes -> ClubKonnect network / disco codes
+const NETWORK_CODES: Record<string, string> = {
+  mtn: '01',
+  glo: '02',
+  '9mobile': '03',
+  airtel: '04',
+};
+
+const DISCO_CODES: Record<string, string> = {
+  ekdc: '01',
+  ikedc: '02',
+  aedc: '03',
+  kedco: '04',
+  phed: '05',
+  jed: '06',
+  ibedc: '07',
+  kaedco: '08',
+  eedc: '09',
+  bedc: '10',
+};
+
+const METER_TYPES = {
+  prepaid: '01',
+  postpaid: '02',
+};
+
+const providerCode = (codes: Record<string, string>, code: string) => {
+  const mapped = codes[code.toLowerCase()];
+  if (!mapped) {
+    throw new Error(`ClubKonnect does not support provider "${code}"`);
+  }
+  return mapped;
+};
+
+interface ClubKonnectResponse {
+  orderid?: string;
+  statuscode?: string;
+  status?: string;
+  remark?: string;
+  metertoken?: string;
+}
+
+// 100 = order received (still processing), 200 = order completed. Anything
+// else is an error status such as INVALID_RECIPIENT or INSUFFICIENT_BALANCE.
+const toVendResult = (body: ClubKonnectResponse): VendResult => {
+  if (body?.statuscode === '200' || body?.status === 'ORDER_COMPLETED') {
+    return {
+      status: 'success',
+      providerReference: body.orderid,
+      token: body.metertoken || undefined,
+      message: body.remark || body.status,
+      raw: body,
+    };
+  }
+
+  if (body?.statuscode === '100' || body?.status === 'ORDER_RECEIVED') {
+    return {
+      status: 'pending',
+      providerReference: body.orderid,
+      message: body.remark || body.status,
+      raw: body,
+    };
+  }
+
+  return {
+    status: 'failed',
+    providerReference: body?.orderid,
+    message: body?.remark || body?.status || 'ClubKonnect rejected the request',
+    raw: body,
+  };
+};
+
+// The verify endpoints only return a name; unknown numbers come back with an
+// error code in customer_name, e.g. INVALID_METERNO or INVALID_SMARTCARDNO
+const toVerification = (body: { customer_name?: string }): CustomerVerification => {
+  const name = body?.customer_name?.trim();
+
+  if (!name || /^INVALID_|^MISSING_|ERROR/.test(name)) {
+    return {
+      valid: false,
+      message: name || 'ClubKonnect could not verify this customer',
+      raw: body,
+    };
+  }
+
+  return { valid: true, customerName: name, raw: body };
+};
+
+export const createClubKonnectProvider = (config: ClubKonnectConfig): VtuProvider => {
+  const call = async (endpoint: string, params: Record<string, string | number>): Promise<VendResult> => {
+    const query = new URLSearchParams({
+      UserID: config.userId,
+      APIKey: config.apiKey,
+      ...Object.fromEntries(Object.entries(params).map(([key, value]) => [key, String(value)])),
+    });
+
+    try {
+      const body = await fetchJson(`${config.baseUrl}/${endpoint}?${query}`);
+      return toVendResult(body);
+    } catch (err) {
+      return unknownOutcome(err);
+    }
+  };
+
+  return {
+    name: 'clubkonnect',
+
+    buyAirtime: async (request: AirtimeVendRequest) => call('APIAirtimeV1.asp', {
+      MobileNetwork: providerCode(NETWORK_CODES, request.network),
+      Amount: request.amount,
+      MobileNumber: request.phoneNumber,
+      RequestID: request.reference,
+    }),
+
+    buyData: async (request: DataVendRequest) => call('APIDatabundleV1.asp', {
+      MobileNetwork: providerCode(NETWORK_CODES, request.network),
+      DataPlan: request.planCode,
+      MobileNumber: request.phoneNumber,
+      RequestID: request.reference,
+    }),
+
+    payElectricity: async (request: ElectricityVendRequest) => call('APIElectricityV1.asp', {
+      ElectricCompany: providerCode(DISCO_CODES, request.disco),
+      MeterType: METER_TYPES[request.meterType],
+      MeterNo: request.meterNumber,
+      Amount: request.amount,
+      PhoneNo: request.phoneNumber ?? '',
+      RequestID: request.reference,
+    }),
+
+    payCable: async (request: CableVendRequest) => call('APICableTVV1.asp', {
+      CableTV: request.provider.toLowerCase(),
+      Package: request.packageCode,
+      SmartCardNo: request.smartCardNumber,
+      PhoneNo: request.phoneNumber ?? '',
+      RequestID: request.reference,
+    }),
+
+    // We always send our reference as RequestID, so it is enough to find the order
+    requery: async (request: RequeryRequest) => call('APIQueryV1.asp', {
+      RequestID: request.reference,
+    }),
+
+    verifyCustomer: async (request: CustomerVerificationRequest) => {
+      const params: Record<string, string> = request.service === 'electricity'
+        ? {
+          ElectricCompany: providerCode(DISCO_CODES, request.provider),
+          MeterNo: request.customerId,
+          MeterType: METER_TYPES[request.meterType ?? 'prepaid'],
+        }
+        : {
+          CableTV: request.provider.toLowerCase(),
+          SmartCardNo: request.customerId,
+        };
+      const endpoint = request.service === 'electricity'
+        ? 'APIVerifyElectricityV1.asp'
+        : 'APIVerifyCableTVV1.0.asp';
+
+      const query = new URLSearchParams({ UserID: config.userId, APIKey: config.apiKey, ...params });
+      return toVerification(await fetchJson(`${config.baseUrl}/${endpoint}?${query}`));
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { VendResult } from './types.ts';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export const VTU_TIMEOUT_MS = Number(Deno.env.get('VTU_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS);
+
+export class VtuTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`VTU request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'VtuTimeoutError';
+  }
+}
+
+// fetch() that aborts after timeoutMs and returns the parsed JSON body
+export const fetchJson = async (
+  url: string,
+  init: RequestInit = {},
+  timeoutMs = VTU_TIMEOUT_MS
+) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return await response.json();
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new VtuTimeoutError(url, timeoutMs);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Once a vend request has left our server we can't tell whether the provider
+// acted on it, so transport errors and timeouts are reported as pending
+// rather than failed.
+export const unknownOutcome = (err: unknown): VendResult => ({
+  status: 'pending',
+  message: err instanceof VtuTimeoutError
+    ? 'Provider request timed out'
+    : err instanceof Error ? err.message : String(err),
+});
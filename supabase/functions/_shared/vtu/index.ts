@@ -0,0 +1,89 @@
+import { requireProviderSecret } from '../secrets.ts';
+import { createClubKonnectProvider } from './clubkonnect.ts';
+import { createSimulatorProvider } from './simulator.ts';
+import { VendResult, VendStatus, VtuProvider, VtuService } from './types.ts';
+import { createVtpassProvider } from './vtpass.ts';
+
+export * from './types.ts';
+
+// Which adapter handles a service is configured per service, falling back to
+// VTU_PROVIDER and then to the local simulator:
+//   VTU_PROVIDER=vtpass
+//   VTU_PROVIDER_ELECTRICITY=clubkonnect
+const providerNameFor = (service: VtuService) =>
+  (
+    Deno.env.get(`VTU_PROVIDER_${service.toUpperCase()}`) ??
+    Deno.env.get('VTU_PROVIDER') ??
+    'simulator'
+  ).toLowerCase();
+
+// Adapters only throw before a request is sent (e.g. an unsupported provider
+// code), so a thrown vend error is a definite failure rather than an unknown
+// outcome. A requery that throws tells us nothing, so the vend stays pending.
+const failOnThrow = (provider: VtuProvider): VtuProvider => {
+  const guard = <T>(vend: (request: T) => Promise<VendResult>) =>
+    async (request: T): Promise<VendResult> => {
+      try {
+        return await vend(request);
+      } catch (err) {
+        return { status: 'failed', message: err instanceof Error ? err.message : String(err) };
+      }
+    };
+
+  return {
+    name: provider.name,
+    vendReference: provider.vendReference,
+    buyAirtime: guard(provider.buyAirtime),
+    buyData: guard(provider.buyData),
+    payElectricity: guard(provider.payElectricity),
+    payCable: guard(provider.payCable),
+    requery: async (request) => {
+      try {
+        return await provider.requery(request);
+      } catch (err) {
+        return { status: 'pending', message: err instanceof Error ? err.message : String(err) };
+      }
+    },
+    // A lookup that throws simply didn't verify anyone
+    verifyCustomer: async (request) => {
+      try {
+        return await provider.verifyCustomer(request);
+      } catch (err) {
+        return { valid: false, message: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+};
+
+// Credentials come from the admin-managed store, falling back to env (see
+// ../secrets.ts); base URLs only from env
+const createProvider = async (supabase, name: string, service: VtuService): Promise<VtuProvider> => {
+  switch (name) {
+    case 'vtpass':
+      return createVtpassProvider({
+        baseUrl: Deno.env.get('VTPASS_BASE_URL') ?? 'https://vtpass.com/api',
+        apiKey: await requireProviderSecret(supabase, 'VTPASS_API_KEY'),
+        secretKey: await requireProviderSecret(supabase, 'VTPASS_SECRET_KEY'),
+      });
+    case 'clubkonnect':
+      return createClubKonnectProvider({
+        baseUrl: Deno.env.get('CLUBKONNECT_BASE_URL') ?? 'https://www.nellobytesystems.com',
+        userId: await requireProviderSecret(supabase, 'CLUBKONNECT_USER_ID'),
+        apiKey: await requireProviderSecret(supabase, 'CLUBKONNECT_API_KEY'),
+      });
+    case 'simulator':
+      return createSimulatorProvider({
+        forcedOutcome: Deno.env.get('VTU_SIMULATOR_OUTCOME') as VendStatus | undefined,
+      });
+    default:
+      throw new Error(`Unknown VTU provider "${name}" configured for ${service}`);
+  }
+};
+
+export const getVtuProvider = async (supabase, service: VtuService): Promise<VtuProvider> =>
+  failOnThrow(await createProvider(supabase, providerNameFor(service), service));
+
+// The adapter that handled an earlier vend (recorded as details.vtu_provider),
+// which may no longer be the one configured for the service
+export const getVtuProviderByName = async (supabase, name: string, service: VtuService): Promise<VtuProvider> =>
+  failOnThrow(await createProvider(supabase, name.toLowerCase(), service));
@@ -0,0 +1,125 @@
+import {
+  AirtimeVendRequest,
+  CableVendRequest,
+  CustomerVerification,
+  CustomerVerificationRequest,
+  DataVendRequest,
+  ElectricityVendRequest,
+  RequeryRequest,
+  VendResult,
+  VendStatus,
+  VtuProvider,
+} from './types.ts';
+
+// Local stand-in for a VTU aggregator. Outcomes depend only on the input so
+// every path can be exercised on purpose:
+//   - recipients ending in 0000 fail
+//   - recipients ending in 9999 behave like a provider timeout (pending) and
+//     stay pending on requery
+//   - recipients ending in 9998 time out too, but succeed on requery
+//   - everything else succeeds
+// Setting VTU_SIMULATOR_OUTCOME forces one outcome for every request.
+// Customer lookups fail for meter / smart card numbers ending in 1111 and
+// otherwise return a stable made-up customer.
+
+export interface SimulatorConfig {
+  forcedOutcome?: VendStatus;
+}
+
+const outcomeFor = (recipient: string, config: SimulatorConfig): VendStatus => {
+  if (config.forcedOutcome) return config.forcedOutcome;
+  if (recipient.endsWith('0000')) return 'failed';
+  if (recipient.endsWith('9999') || recipient.endsWith('9998')) return 'pending';
+  return 'success';
+};
+
+const requeryOutcomeFor = (recipient: string, config: SimulatorConfig): VendStatus =>
+  recipient.endsWith('9998') && !config.forcedOutcome ? 'success' : outcomeFor(recipient, config);
+
+// Stable 20-digit token derived from the reference, formatted like a real
+// prepaid meter token (5 groups of 4 digits)
+const tokenFor = async (reference: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(reference));
+  const digits = Array.from(new Uint8Array(digest))
+    .map((byte) => (byte % 10).toString())
+    .join('')
+    .slice(0, 20);
+  return digits.match(/.{4}/g)!.join('-');
+};
+
+const SIMULATED_CUSTOMERS = [
+  { name: 'Adaeze Okafor', address: '14 Admiralty Way, Lekki, Lagos' },
+  { name: 'Babatunde Adeyemi', address: '3 Ring Road, Ibadan, Oyo' },
+  { name: 'Chinedu Eze', address: '27 Ogui Road, Enugu' },
+  { name: 'Fatima Bello', address: '9 Ahmadu Bello Way, Kaduna' },
+  { name: 'Oluwaseun Ajayi', address: '52 Allen Avenue, Ikeja, Lagos' },
+];
+
+const SIMULATED_BOUQUETS: Record<string, string[]> = {
+  dstv: ['DStv Compact', 'DStv Confam', 'DStv Premium'],
+  gotv: ['GOtv Jolli', 'GOtv Max', 'GOtv Supa'],
+  startimes: ['Nova', 'Basic', 'Classic'],
+};
+
+const simulateVerification = (request: CustomerVerificationRequest): CustomerVerification => {
+  if (request.customerId.endsWith('1111')) {
+    return {
+      valid: false,
+      message: request.service === 'electricity' ? 'Invalid meter number' : 'Invalid smart card number',
+    };
+  }
+
+  const seed = Array.from(request.customerId).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  const customer = SIMULATED_CUSTOMERS[seed % SIMULATED_CUSTOMERS.length];
+  const bouquets = SIMULATED_BOUQUETS[request.provider.toLowerCase()];
+
+  return {
+    valid: true,
+    customerName: customer.name,
+    address: request.service === 'electricity' ? customer.address : undefined,
+    currentBouquet: request.service === 'cable' && bouquets ? bouquets[seed % bouquets.length] : undefined,
+    message: 'Simulated customer lookup',
+  };
+};
+
+export const createSimulatorProvider = (config: SimulatorConfig = {}): VtuProvider => {
+  const vend = async (
+    reference: string,
+    recipient: string,
+    withToken = false,
+    status = outcomeFor(recipient, config)
+  ): Promise<VendResult> => {
+    const providerReference = `SIM-${reference}`;
+
+    if (status === 'failed') {
+      return { status, providerReference, message: 'Simulated provider failure' };
+    }
+
+    if (status === 'pending') {
+      return { status, providerReference, message: 'Provider request timed out' };
+    }
+
+    return {
+      status,
+      providerReference,
+      token: withToken ? await tokenFor(reference) : undefined,
+      message: 'Simulated vend successful',
+    };
+  };
+
+  return {
+    name: 'simulator',
+    buyAirtime: (request: AirtimeVendRequest) => vend(request.reference, request.phoneNumber),
+    buyData: (request: DataVendRequest) => vend(request.reference, request.phoneNumber),
+    payElectricity: (request: ElectricityVendRequest) =>
+      vend(request.reference, request.meterNumber, request.meterType === 'prepaid'),
+    payCable: (request: CableVendRequest) => vend(request.reference, request.smartCardNumber),
+    requery: (request: RequeryRequest) => vend(
+      request.reference,
+      request.recipient,
+      request.service === 'electricity',
+      requeryOutcomeFor(request.recipient, config)
+    ),
+    verifyCustomer: async (request: CustomerVerificationRequest) => simulateVerification(request),
+  };
+};
@@ -0,0 +1,100 @@
+// Shared types for the VTU (virtual top-up) provider adapters
+
+export type VtuService = 'airtime' | 'data' | 'electricity' | 'cable';
+
+// 'pending' means the provider accepted the order but we don't know the
+// outcome yet (still processing, or the request timed out)
+export type VendStatus = 'success' | 'failed' | 'pending';
+
+export type MeterType = 'prepaid' | 'postpaid';
+
+export interface VendResult {
+  status: VendStatus;
+  providerReference?: string;
+  token?: string;
+  message?: string;
+  raw?: unknown;
+}
+
+export interface AirtimeVendRequest {
+  reference: string;
+  // From vendReference, for providers that take an id we choose
+  providerReference?: string;
+  network: string;
+  phoneNumber: string;
+  amount: number;
+}
+
+export interface DataVendRequest {
+  reference: string;
+  providerReference?: string;
+  network: string;
+  planCode: string;
+  phoneNumber: string;
+  amount: number;
+}
+
+export interface ElectricityVendRequest {
+  reference: string;
+  providerReference?: string;
+  disco: string;
+  meterNumber: string;
+  meterType: MeterType;
+  amount: number;
+  phoneNumber?: string;
+}
+
+export interface CableVendRequest {
+  reference: string;
+  providerReference?: string;
+  provider: string;
+  packageCode: string;
+  smartCardNumber: string;
+  amount: number;
+  phoneNumber?: string;
+}
+
+export interface RequeryRequest {
+  service: VtuService;
+  reference: string;
+  providerReference?: string;
+  recipient: string;
+}
+
+// Services whose customers can be looked up before paying
+export type VerifiableService = 'electricity' | 'cable';
+
+export interface CustomerVerificationRequest {
+  service: VerifiableService;
+  // Disco code for electricity, dstv/gotv/startimes for cable
+  provider: string;
+  // Meter number or smart card number
+  customerId: string;
+  meterType?: MeterType;
+}
+
+export interface CustomerVerification {
+  valid: boolean;
+  customerName?: string;
+  address?: string;
+  currentBouquet?: string;
+  message?: string;
+  raw?: unknown;
+}
+
+export interface VtuProvider {
+  name: string;
+  // The id the provider will be sent for a vend, for providers where we
+  // choose it (VTPass's request_id). It is recorded on the transaction
+  // before the vend goes out, so one whose response never arrives can
+  // still be requeried.
+  vendReference?(reference: string): string;
+  buyAirtime(request: AirtimeVendRequest): Promise<VendResult>;
+  buyData(request: DataVendRequest): Promise<VendResult>;
+  payElectricity(request: ElectricityVendRequest): Promise<VendResult>;
+  payCable(request: CableVendRequest): Promise<VendResult>;
+  // Ask the provider for the current status of an earlier vend
+  requery(request: RequeryRequest): Promise<VendResult>;
+  // Look up the registered customer behind a meter or smart card number
+  verifyCustomer(request: CustomerVerificationRequest): Promise<CustomerVerification>;
+}
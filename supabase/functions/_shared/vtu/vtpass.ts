@@ -0,0 +1,252 @@
+import { fetchJson, unknownOutcome } from './http.ts';
+import {
+  AirtimeVendRequest,
+  CableVendRequest,
+  CustomerVerification,
+  CustomerVerificationRequest,
+  DataVendRequest,
+  ElectricityVendRequest,
+  RequeryRequest,
+  VendResult,
+  VtuProvider,
+} from './types.ts';
+
+export interface VtpassConfig {
+  baseUrl: string;
+  apiKey: string;
+  secretKey: string;
+}
+
+// Our provider codes -> VTPass serviceIDs
+const NETWORK_SERVICE_IDS: Record<string, string> = {
+  mtn: 'mtn',
+  airtel: 'airtel',
+  glo: 'glo',
+  '9mobile': 'etisalat',
+};
+
+const DATA_SERVICE_IDS: Record<string, string> = {
+  mtn: 'mtn-data',
+  airtel: 'airtel-data',
+  glo: 'glo-data',
+  '9mobile': 'etisalat-data',
+};
+
+const DISCO_SERVICE_IDS: Record<string, string> = {
+  ikedc: 'ikeja-electric',
+  ekdc: 'eko-electric',
+  ibedc: 'ibadan-electric',
+  bedc: 'benin-electric',
+  aedc: 'abuja-electric',
+  kedco: 'kano-electric',
+  phed: 'portharcourt-electric',
+  jed: 'jos-electric',
+  kaedco: 'kaduna-electric',
+  eedc: 'enugu-electric',
+};
+
+const serviceId = (ids: Record<string, string>, code: string) => {
+  const id = ids[code.toLowerCase()];
+  if (!id) {
+    throw new Error(`VTPass does not support provider "${code}"`);
+  }
+  return id;
+};
+
+// VTPass requires request_id to start with the current Africa/Lagos time as
+// YYYYMMDDHHmm. Our own reference is appended so requeries can be traced.
+const requestId = (reference: string) => {
+  const lagos = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  const stamp = lagos.slice(0, 16).replace(/[-T:]/g, '');
+  return `${stamp}${reference.replace(/[^A-Za-z0-9]/g, '')}`;
+};
+
+interface VtpassResponse {
+  code?: string;
+  response_description?: string;
+  purchased_code?: string;
+  Token?: string;
+  token?: string;
+  content?: {
+    transactions?: {
+      status?: string;
+      transactionId?: string;
+    };
+  };
+}
+
+interface VtpassVerifyResponse {
+  code?: string;
+  response_description?: string;
+  content?: {
+    Customer_Name?: string;
+    Address?: string;
+    Current_Bouquet?: string;
+    error?: string;
+    WrongBillersCode?: boolean;
+  };
+}
+
+// merchant-verify answers 000 even for unknown numbers; those come back
+// with content.error (or WrongBillersCode) and no customer name
+const toVerification = (body: VtpassVerifyResponse): CustomerVerification => {
+  const content = body?.content;
+
+  if (body?.code === '000' && content?.Customer_Name && !content.error && !content.WrongBillersCode) {
+    return {
+      valid: true,
+      customerName: content.Customer_Name.trim(),
+      address: content.Address?.trim() || undefined,
+      currentBouquet: content.Current_Bouquet?.trim() || undefined,
+      raw: body,
+    };
+  }
+
+  return {
+    valid: false,
+    message: content?.error || body?.response_description || 'VTPass could not verify this customer',
+    raw: body,
+  };
+};
+
+// VTPass has no order id of its own that it accepts back on requery, so the
+// request_id we sent is what we keep as the provider reference
+const toVendResult = (requestId: string, body: VtpassResponse): VendResult => {
+  const transaction = body?.content?.transactions;
+
+  if (body?.code === '000') {
+    const status = transaction?.status === 'delivered'
+      ? 'success'
+      : transaction?.status === 'failed' ? 'failed' : 'pending';
+
+    return {
+      status,
+      providerReference: requestId,
+      token: body.purchased_code || body.Token || body.token || undefined,
+      message: body.response_description,
+      raw: body,
+    };
+  }
+
+  // 099 = transaction is processing
+  if (body?.code === '099') {
+    return {
+      status: 'pending',
+      providerReference: requestId,
+      message: body.response_description,
+      raw: body,
+    };
+  }
+
+  // Kept even on failure: VTPass may still hold the request under this id
+  return {
+    status: 'failed',
+    providerReference: requestId,
+    message: body?.response_description || 'VTPass rejected the request',
+    raw: body,
+  };
+};
+
+export const createVtpassProvider = (config: VtpassConfig): VtuProvider => {
+  // request_id normally comes from vendReference, already recorded on the
+  // transaction; it is only made here for callers that didn't ask for one
+  const pay = async (
+    reference: string,
+    providerReference: string | undefined,
+    payload: Record<string, unknown>
+  ): Promise<VendResult> => {
+    const request_id = providerReference ?? requestId(reference);
+
+    try {
+      const body = await fetchJson(`${config.baseUrl}/pay`, {
+        method: 'POST',
+        headers: {
+          'api-key': config.apiKey,
+          'secret-key': config.secretKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ request_id, ...payload }),
+      });
+      return toVendResult(request_id, body);
+    } catch (err) {
+      return { ...unknownOutcome(err), providerReference: request_id };
+    }
+  };
+
+  return {
+    name: 'vtpass',
+
+    vendReference: requestId,
+
+    buyAirtime: async (request: AirtimeVendRequest) => pay(request.reference, request.providerReference, {
+      serviceID: serviceId(NETWORK_SERVICE_IDS, request.network),
+      amount: request.amount,
+      phone: request.phoneNumber,
+    }),
+
+    buyData: async (request: DataVendRequest) => pay(request.reference, request.providerReference, {
+      serviceID: serviceId(DATA_SERVICE_IDS, request.network),
+      billersCode: request.phoneNumber,
+      variation_code: request.planCode,
+      amount: request.amount,
+      phone: request.phoneNumber,
+    }),
+
+    payElectricity: async (request: ElectricityVendRequest) => pay(request.reference, request.providerReference, {
+      serviceID: serviceId(DISCO_SERVICE_IDS, request.disco),
+      billersCode: request.meterNumber,
+      variation_code: request.meterType,
+      amount: request.amount,
+      phone: request.phoneNumber ?? '',
+    }),
+
+    payCable: async (request: CableVendRequest) => pay(request.reference, request.providerReference, {
+      serviceID: request.provider.toLowerCase(),
+      billersCode: request.smartCardNumber,
+      variation_code: request.packageCode,
+      amount: request.amount,
+      phone: request.phoneNumber ?? '',
+      subscription_type: 'change',
+    }),
+
+    requery: async (request: RequeryRequest) => {
+      if (!request.providerReference) {
+        return { status: 'pending', message: 'No VTPass request_id recorded for this vend' };
+      }
+
+      try {
+        const body = await fetchJson(`${config.baseUrl}/requery`, {
+          method: 'POST',
+          headers: {
+            'api-key': config.apiKey,
+            'secret-key': config.secretKey,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ request_id: request.providerReference }),
+        });
+        return toVendResult(request.providerReference, body);
+      } catch (err) {
+        return { ...unknownOutcome(err), providerReference: request.providerReference };
+      }
+    },
+
+    verifyCustomer: async (request: CustomerVerificationRequest) => {
+      const body = await fetchJson(`${config.baseUrl}/merchant-verify`, {
+        method: 'POST',
+        headers: {
+          'api-key': config.apiKey,
+          'secret-key': config.secretKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          serviceID: request.service === 'electricity'
+            ? serviceId(DISCO_SERVICE_IDS, request.provider)
+            : request.provider.toLowerCase(),
+          billersCode: request.customerId,
+          ...(request.service === 'electricity' ? { type: request.meterType ?? 'prepaid' } : {}),
+        }),
+      });
+      return toVerification(body);
+    },
+  };
+};
@@ -0,0 +1,54 @@
+// Helpers for the wallet database functions used by the purchase functions
+
+// debit_wallet_for_purchase raises these codes as its exception message
+const DEBIT_ERRORS: Record<string, { status: number; message: string }> = {
+  INSUFFICIENT_BALANCE: { status: 400, message: 'Insufficient balance' },
+  PROFILE_NOT_FOUND: { status: 404, message: 'User profile not found' },
+  INVALID_AMOUNT: { status: 400, message: 'Invalid amount' },
+  DUPLICATE_REFERENCE: { status: 409, message: 'Reference has already been used' },
+  LIMIT_EXCEEDED: { status: 403, message: 'Transaction limit exceeded' },
+};
+
+// What LIMIT_EXCEEDED carries in its exception detail (see spend_usage)
+export interface SpendLimit {
+  period: 'daily' | 'monthly';
+  tier: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+const parseLimit = (details?: string): SpendLimit | undefined => {
+  try {
+    return details ? JSON.parse(details) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export interface DebitFailure {
+  code: string;
+  status: number;
+  message: string;
+  limit?: SpendLimit;
+}
+
+export const describeDebitError = (error: { message?: string; details?: string }): DebitFailure => {
+  const code = Object.keys(DEBIT_ERRORS).find((key) => error.message?.includes(key));
+
+  if (code === 'LIMIT_EXCEEDED') {
+    const limit = parseLimit(error.details);
+    return {
+      code,
+      status: DEBIT_ERRORS[code].status,
+      message: limit
+        ? `This purchase exceeds your ${limit.period} limit. You have ₦${Number(limit.remaining).toLocaleString()} of ₦${Number(limit.limit).toLocaleString()} left.`
+        : DEBIT_ERRORS[code].message,
+      limit,
+    };
+  }
+
+  return code
+    ? { code, ...DEBIT_ERRORS[code] }
+    : { code: 'DEBIT_FAILED', status: 500, message: 'Failed to debit wallet' };
+};
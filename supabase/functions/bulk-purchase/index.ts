@@ -0,0 +1,386 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { buyAirtime, buyData, PurchaseResult } from "../_shared/purchases/index.ts";
+import { quotePurchase } from "../_shared/pricing.ts";
+import { describeDebitError } from "../_shared/wallet.ts";
+import { checkTransactionPin, pinFailureBody } from "../_shared/pin.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const MAX_ROWS = Number(Deno.env.get("BULK_MAX_ROWS") ?? 1000);
+const BATCH_SIZE = Number(Deno.env.get("BULK_BATCH_SIZE") ?? 100);
+// An item left in 'processing' this long belongs to a run that died; its
+// reference makes running it again safe
+const STALE_MINUTES = Number(Deno.env.get("BULK_STALE_MINUTES") ?? 10);
+
+const MIN_AIRTIME = 50;
+const MAX_AIRTIME = 50000;
+
+// One CSV row as sent by the page: phone, network and either an airtime
+// amount or a data plan code
+interface BulkRow {
+  row: number;
+  phone?: string;
+  network?: string;
+  amount?: string | number;
+  planCode?: string;
+}
+
+interface ValidatedRow {
+  row: number;
+  service: 'airtime' | 'data' | null;
+  phoneNumber: string;
+  network: string;
+  amount: number;
+  planId: string | null;
+  planCode: string | null;
+  planName: string | null;
+  fee: number;
+  charged: number;
+  error: string | null;
+}
+
+// 0803..., 234803..., +234803... and 803... all become 0803...
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 13 && digits.startsWith('234')) return `0${digits.slice(3)}`;
+  if (digits.length === 10) return `0${digits}`;
+  return digits;
+};
+
+const json = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+// Check every row against the live networks and plans and price it at the
+// customer's tier. Rows with the same service and amount share one quote.
+const validateRows = async (supabase, userId: string, rows: BulkRow[]) => {
+  const [{ data: networks, error: networksError }, { data: plans, error: plansError }] = await Promise.all([
+    supabase.from('network_providers').select('id, code, name'),
+    supabase.from('data_plans').select('id, code, name, amount, provider_id, status'),
+  ]);
+
+  if (networksError) throw networksError;
+  if (plansError) throw plansError;
+
+  const quotes = new Map();
+  const validated: ValidatedRow[] = [];
+
+  for (const input of rows) {
+    const network = String(input.network ?? '').trim().toLowerCase();
+    const planCode = String(input.planCode ?? '').trim();
+    const result: ValidatedRow = {
+      row: input.row,
+      service: planCode ? 'data' : 'airtime',
+      phoneNumber: normalizePhone(String(input.phone ?? '')),
+      network,
+      amount: 0,
+      planId: null,
+      planCode: planCode || null,
+      planName: null,
+      fee: 0,
+      charged: 0,
+      error: null,
+    };
+    validated.push(result);
+
+    const provider = networks.find((candidate) =>
+      candidate.code.toLowerCase() === network || candidate.name.toLowerCase() === network);
+
+    if (!/^0\d{10}$/.test(result.phoneNumber)) {
+      result.error = 'Phone number must have 11 digits';
+      continue;
+    }
+
+    if (!provider) {
+      result.error = `Unknown network "${input.network ?? ''}"`;
+      continue;
+    }
+    result.network = provider.code;
+
+    if (result.service === 'data') {
+      const plan = plans.find((candidate) =>
+        candidate.provider_id === provider.id && candidate.code.toLowerCase() === planCode.toLowerCase());
+
+      if (!plan || plan.status === false) {
+        result.error = `Unknown ${provider.name} data plan "${planCode}"`;
+        continue;
+      }
+      result.planId = plan.id;
+      result.planName = plan.name;
+      result.amount = Number(plan.amount);
+    } else {
+      const amount = Number(input.amount);
+      if (!Number.isFinite(amount) || amount < MIN_AIRTIME || amount > MAX_AIRTIME) {
+        result.error = `Airtime amount must be between ₦${MIN_AIRTIME} and ₦${MAX_AIRTIME.toLocaleString()}`;
+        continue;
+      }
+      result.amount = amount;
+    }
+
+    const quoteKey = `${result.service}:${result.amount}`;
+    if (!quotes.has(quoteKey)) {
+      quotes.set(quoteKey, await quotePurchase(supabase, userId, result.service, result.amount));
+    }
+
+    const { quote, error: quoteError } = quotes.get(quoteKey);
+    if (quoteError || !quote) {
+      result.error = describeDebitError(quoteError ?? {}).message;
+      continue;
+    }
+    result.fee = Number(quote.fee);
+    result.charged = Number(quote.charged_amount);
+  }
+
+  const valid = validated.filter((row) => !row.error);
+
+  return {
+    rows: validated,
+    totals: {
+      rows: validated.length,
+      valid: valid.length,
+      invalid: validated.length - valid.length,
+      amount: valid.reduce((sum, row) => sum + row.amount, 0),
+      fees: valid.reduce((sum, row) => sum + row.fee, 0),
+      charged: valid.reduce((sum, row) => sum + row.charged, 0),
+    },
+  };
+};
+
+// Every row must be an object with its own positive whole-number row number,
+// which item references and the batch's row order are built from
+const hasUsableRowNumbers = (rows: unknown[]) => {
+  const seen = new Set<number>();
+
+  return rows.every((row) => {
+    const number = (row as BulkRow | null)?.row;
+    if (typeof row !== 'object' || row === null || !Number.isInteger(number) || number < 1 || seen.has(number)) {
+      return false;
+    }
+    seen.add(number);
+    return true;
+  });
+};
+
+// Customer request: validate the upload, and unless it is a dry run, queue
+// it as a batch. Queuing needs the customer's transaction PIN.
+const submitBatch = async (supabase, userId: string, { rows, fileName, dryRun = false, pin }) => {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return json({ error: 'No rows to purchase' }, 400);
+  }
+
+  if (rows.length > MAX_ROWS) {
+    return json({ error: `A batch can have at most ${MAX_ROWS} rows`, code: 'TOO_MANY_ROWS' }, 400);
+  }
+
+  if (!hasUsableRowNumbers(rows)) {
+    return json({ error: 'Every row needs its own positive row number', code: 'INVALID_ROWS' }, 400);
+  }
+
+  const validation = await validateRows(supabase, userId, rows);
+
+  const [{ data: profile, error: profileError }, { data: usage }] = await Promise.all([
+    supabase.from('profiles').select('balance').eq('id', userId).single(),
+    supabase.rpc('spend_usage', { user_uuid: userId }),
+  ]);
+
+  if (profileError || !profile) {
+    return json({ error: 'User profile not found', code: 'PROFILE_NOT_FOUND' }, 404);
+  }
+
+  const summary = { ...validation, balance: profile.balance, usage };
+
+  if (dryRun) {
+    return json({ success: true, data: summary });
+  }
+
+  if (validation.totals.invalid > 0) {
+    return json({ error: 'Some rows are invalid', code: 'INVALID_ROWS', data: summary }, 400);
+  }
+
+  if (validation.totals.charged > profile.balance) {
+    return json({ error: 'Insufficient balance for this batch', code: 'INSUFFICIENT_BALANCE', data: summary }, 400);
+  }
+
+  const { error: pinError } = await checkTransactionPin(supabase, userId, pin);
+  if (pinError) {
+    return json(pinFailureBody(pinError), pinError.status);
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('bulk_purchases')
+    .insert({
+      user_id: userId,
+      file_name: fileName ?? null,
+      total_items: validation.rows.length,
+      total_amount: validation.totals.charged,
+    })
+    .select()
+    .single();
+
+  if (batchError) throw batchError;
+
+  const batchKey = batch.id.replace(/-/g, '').slice(0, 12).toUpperCase();
+  const { error: itemsError } = await supabase
+    .from('bulk_purchase_items')
+    .insert(validation.rows.map((row) => ({
+      batch_id: batch.id,
+      row_number: row.row,
+      service: row.service,
+      network: row.network,
+      phone_number: row.phoneNumber,
+      amount: row.amount,
+      plan_id: row.planId,
+      plan_code: row.planCode,
+      reference: `BULK-${batchKey}-${row.row}`,
+    })));
+
+  if (itemsError) {
+    await supabase.from('bulk_purchases').delete().eq('id', batch.id);
+    throw itemsError;
+  }
+
+  return json({ success: true, data: { batchId: batch.id, ...summary } });
+};
+
+// What a purchase result means for the item
+const itemOutcome = (result: PurchaseResult) => {
+  const body = result.body as { error?: string; message?: string; refunded?: boolean };
+  if (result.status === 200) return { status: 'success', message: body.message ?? null };
+  if (result.status === 202) return { status: 'pending', message: body.message ?? null };
+  return { status: body.refunded ? 'reversed' : 'failed', message: body.error ?? 'Purchase failed' };
+};
+
+// Scheduled run (see the process-bulk-purchases cron job): buy the next
+// queued items, one at a time, oldest batch first
+const processQueue = async (supabase) => {
+  const staleBefore = new Date(Date.now() - STALE_MINUTES * 60_000).toISOString();
+
+  const { data: items, error: itemsError } = await supabase
+    .from('bulk_purchase_items')
+    .select('*, bulk_purchases(user_id)')
+    .or(`status.eq.queued,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('updated_at', { ascending: true })
+    .order('row_number', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (itemsError) throw itemsError;
+
+  const summary = { processed: 0, skipped: 0, errors: 0 };
+  const batchIds = new Set<string>();
+
+  for (const item of items ?? []) {
+    batchIds.add(item.batch_id);
+
+    try {
+      // Claim the item so an overlapping run leaves it alone
+      const { data: claimed, error: claimError } = await supabase
+        .from('bulk_purchase_items')
+        .update({ status: 'processing', updated_at: new Date().toISOString() })
+        .eq('id', item.id)
+        .eq('status', item.status)
+        .eq('updated_at', item.updated_at)
+        .select('id');
+
+      if (claimError) throw claimError;
+      if (!claimed?.length) {
+        summary.skipped++;
+        continue;
+      }
+
+      const userId = item.bulk_purchases.user_id;
+      const result = item.service === 'data'
+        ? await buyData(supabase, userId, {
+          planId: item.plan_id,
+          phoneNumber: item.phone_number,
+          reference: item.reference,
+        })
+        : await buyAirtime(supabase, userId, {
+          provider: item.network,
+          phoneNumber: item.phone_number,
+          amount: Number(item.amount),
+          reference: item.reference,
+        });
+
+      const { error: recordError } = await supabase
+        .from('bulk_purchase_items')
+        .update({ ...itemOutcome(result), processed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', item.id);
+
+      if (recordError) throw recordError;
+      summary.processed++;
+    } catch (err) {
+      summary.errors++;
+      console.error('Bulk purchase item error:', item.reference, err);
+    }
+  }
+
+  // Batches with nothing left to buy are done
+  for (const batchId of batchIds) {
+    const { count, error: countError } = await supabase
+      .from('bulk_purchase_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('batch_id', batchId)
+      .in('status', ['queued', 'processing']);
+
+    if (countError) {
+      console.error('Bulk purchase batch status error:', batchId, countError);
+      continue;
+    }
+
+    await supabase
+      .from('bulk_purchases')
+      .update(count === 0
+        ? { status: 'completed', completed_at: new Date().toISOString() }
+        : { status: 'processing' })
+      .eq('id', batchId);
+  }
+
+  return new Response(
+    JSON.stringify({ items: items?.length ?? 0, ...summary }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'No authorization header provided' }, 401);
+    }
+
+    // The scheduler holds the service role key; customers use their session
+    if (authHeader === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return await processQueue(supabase);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return json({ error: 'Invalid token' }, 401);
+    }
+
+    return await submitBatch(supabase, user.id, await req.json());
+  } catch (err) {
+    console.error('Bulk purchase edge function error:', err);
+    return json({ error: 'Internal server error', details: err.message }, 500);
+  }
+});
@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { deliverCallback, DeliveryOutcome } from "../_shared/callbacks.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const BATCH_SIZE = Number(Deno.env.get("CALLBACK_BATCH_SIZE") ?? 50);
+
+// Scheduled run (see the deliver-transaction-callbacks cron job): send every
+// delivery that is due
+const deliverDue = async (supabase) => {
+  const { data: due, error: dueError } = await supabase
+    .from('callback_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (dueError) throw dueError;
+
+  const userIds = [...new Set((due ?? []).map((delivery) => delivery.user_id))];
+  const { data: endpoints, error: endpointsError } = userIds.length
+    ? await supabase.from('callback_endpoints').select('*').in('user_id', userIds)
+    : { data: [], error: null };
+
+  if (endpointsError) throw endpointsError;
+
+  const summary: Record<DeliveryOutcome | 'errors', number> = {
+    delivered: 0,
+    retrying: 0,
+    failed: 0,
+    skipped: 0,
+    errors: 0,
+  };
+
+  // One at a time, so a slow endpoint only delays this run
+  for (const delivery of due ?? []) {
+    try {
+      const endpoint = endpoints.find((candidate) => candidate.user_id === delivery.user_id);
+      summary[await deliverCallback(supabase, delivery, endpoint)]++;
+    } catch (err) {
+      summary.errors++;
+      console.error('Callback delivery error:', delivery.id, err);
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ processed: due?.length ?? 0, ...summary }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
+
+// Manual redelivery from the dashboard: queue the event again with a fresh
+// set of attempts and send it straight away
+const redeliver = async (supabase, userId: string, deliveryId: string | undefined) => {
+  if (!deliveryId) {
+    return new Response(
+      JSON.stringify({ error: 'Missing required parameters' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: delivery, error: deliveryError } = await supabase
+    .from('callback_deliveries')
+    .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq('id', deliveryId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  // A malformed id is a not-found rather than a server error
+  if (deliveryError && deliveryError.code !== '22P02') throw deliveryError;
+
+  if (!delivery) {
+    return new Response(
+      JSON.stringify({ error: 'Delivery not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: endpoint, error: endpointError } = await supabase
+    .from('callback_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (endpointError) throw endpointError;
+
+  const outcome = await deliverCallback(supabase, delivery, endpoint);
+
+  const { data: updated, error: updatedError } = await supabase
+    .from('callback_deliveries')
+    .select('*')
+    .eq('id', delivery.id)
+    .single();
+
+  if (updatedError) throw updatedError;
+
+  return new Response(
+    JSON.stringify({ success: outcome === 'delivered', outcome, data: updated }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header provided' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The scheduler holds the service role key; customers use their session
+    if (authHeader === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return await deliverDue(supabase);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { deliveryId } = await req.json();
+    return await redeliver(supabase, user.id, deliveryId);
+  } catch (err) {
+    console.error('Deliver callbacks edge function error:', err);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: err.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Redeem a two-factor recovery code. The caller has signed in with their
+// password (an aal1 session) but can't produce a TOTP code; a valid recovery
+// code removes their authenticators so they can get in and enrol a new one.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header provided' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Verify the user's token
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { code } = await req.json();
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Enter one of your recovery codes', code: 'CODE_REQUIRED' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: redeemed, error: redeemError } = await supabase.rpc('redeem_mfa_recovery_code', {
+      user_uuid: user.id,
+      code,
+    });
+
+    if (redeemError) throw redeemError;
+
+    if (!redeemed) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'That recovery code is not valid or has already been used', code: 'INVALID_RECOVERY_CODE' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: factorList, error: listError } = await supabase.auth.admin.mfa.listFactors({ userId: user.id });
+    if (listError) throw listError;
+
+    for (const factor of factorList.factors) {
+      const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (deleteError) throw deleteError;
+    }
+
+    // The remaining codes belonged to the authenticator that was just removed
+    await supabase
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id);
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Two-factor authentication has been reset. Set it up again from Settings.' }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (err) {
+    console.error('MFA recovery edge function error:', err);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: err.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
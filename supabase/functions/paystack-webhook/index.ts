@@ -0,0 +1,82 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { creditWalletFunding } from "../_shared/funding.ts";
+import { verifyPaystackSignature } from "../_shared/paystack.ts";
+import { requireProviderSecret } from "../_shared/secrets.ts";
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Paystack retries any delivery that doesn't get a 200, so we only return an
+// error status when we want the event delivered again
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // The signature covers the raw body, so read it before parsing
+    const payload = await req.text();
+    const signature = req.headers.get('x-paystack-signature');
+
+    const paystackSecretKey = await requireProviderSecret(supabase, 'PAYSTACK_SECRET_KEY');
+    if (!(await verifyPaystackSignature(paystackSecretKey, payload, signature))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const event = JSON.parse(payload);
+
+    if (event.event !== 'charge.success') {
+      return new Response(
+        JSON.stringify({ received: true, ignored: event.event }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const reference = event.data?.reference;
+    if (!reference) {
+      return new Response(
+        JSON.stringify({ error: 'Missing reference' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Same path verify-payment uses, so the wallet is credited exactly once
+    // no matter which of the two arrives first
+    const { outcome, failures } = await creditWalletFunding(supabase, reference, event.data);
+
+    // A rejected payment won't pass on redelivery either; the reasons are
+    // recorded on the transaction for review
+    if (outcome === 'rejected') {
+      console.warn('Paystack webhook payment rejected:', reference, failures);
+    }
+
+    if (outcome === 'not_found') {
+      // Not one of our wallet fundings (e.g. a payment made elsewhere on the
+      // same Paystack account); acknowledge it so Paystack stops retrying
+      console.warn('Paystack webhook for unknown reference:', reference);
+    }
+
+    return new Response(
+      JSON.stringify({ received: true, outcome }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (err) {
+    console.error('Paystack webhook edge function error:', err);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: err.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
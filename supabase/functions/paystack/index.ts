@@ -1,6 +1,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { checkMaintenance, maintenanceFailureBody } from "../_shared/maintenance.ts";
+import { requireProviderSecret } from "../_shared/secrets.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,7 +12,6 @@ const corsHeaders = {
 // Get environment variables
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const PAYSTACK_SECRET_KEY = Deno.env.get("PAYSTACK_SECRET_KEY")!;
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -52,17 +53,28 @@ serve(async (req) => {
       );
     }
 
+    // No new payments while wallet funding is under maintenance
+    const { error: maintenance } = await checkMaintenance(supabase, 'wallet', 'paystack');
+    if (maintenance) {
+      return new Response(
+        JSON.stringify(maintenanceFailureBody(maintenance)),
+        { status: maintenance.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Initialize Paystack transaction
+    const paystackSecretKey = await requireProviderSecret(supabase, 'PAYSTACK_SECRET_KEY');
     const response = await fetch('https://api.paystack.co/transaction/initialize', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
+        'Authorization': `Bearer ${paystackSecretKey}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         amount: Math.round(amount * 100), // Paystack expects amount in kobo (smallest currency unit)
         email,
         reference,
+        currency: 'NGN',
         callback_url: callbackUrl,
       })
     });
@@ -82,6 +94,7 @@ serve(async (req) => {
           reference,
           details: {
             payment_method: 'paystack',
+            currency: 'NGN',
             email,
             authorization_url: paystackResponse.data.authorization_url
           }
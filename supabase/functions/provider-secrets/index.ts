@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import {
+  encryptProviderSecret,
+  forgetProviderSecret,
+  isProviderSecretName,
+  PROVIDER_SECRET_NAMES,
+} from "../_shared/secrets.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const json = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+// Only the last few characters are ever sent back
+const hintFor = (value: string) => value.slice(-4);
+
+// The session's authenticator assurance level, from its JWT. getUser has
+// already checked the signature.
+const assuranceOf = (token: string) => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).aal ?? 'aal1';
+  } catch {
+    return 'aal1';
+  }
+};
+
+// Recorded in admin_audit_log with the masked hints only
+const audit = async (supabase, actorId: string, ip: string | null, action: string, name: string, before, after) => {
+  const { error } = await supabase.rpc('record_admin_action', {
+    action,
+    target_type: 'provider_secret',
+    target_id: name,
+    before,
+    after,
+    actor: actorId,
+    ip,
+  });
+
+  if (error) throw error;
+};
+
+const currentHint = async (supabase, name: string) => {
+  const { data, error } = await supabase
+    .from('provider_secrets')
+    .select('hint')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.hint ?? null;
+};
+
+// Every credential with where it currently comes from and a masked hint
+const listSecrets = async (supabase) => {
+  const { data: stored, error } = await supabase
+    .from('provider_secrets')
+    .select('name, hint, rotated_at, rotated_by');
+
+  if (error) throw error;
+
+  const rotatorIds = [...new Set(stored.map((row) => row.rotated_by).filter(Boolean))];
+  const { data: rotators, error: rotatorsError } = rotatorIds.length
+    ? await supabase.from('profiles').select('id, name').in('id', rotatorIds)
+    : { data: [], error: null };
+
+  if (rotatorsError) throw rotatorsError;
+
+  const secrets = PROVIDER_SECRET_NAMES.map((name) => {
+    const row = stored.find((secret) => secret.name === name);
+    if (row) {
+      return {
+        name,
+        source: 'stored',
+        hint: row.hint,
+        rotatedAt: row.rotated_at,
+        rotatedBy: rotators.find((profile) => profile.id === row.rotated_by)?.name ?? null,
+      };
+    }
+
+    const fromEnv = Deno.env.get(name);
+    return {
+      name,
+      source: fromEnv ? 'env' : null,
+      hint: fromEnv ? hintFor(fromEnv) : null,
+      rotatedAt: null,
+      rotatedBy: null,
+    };
+  });
+
+  return json({ success: true, secrets });
+};
+
+// Save a new value, replacing any earlier one
+const rotateSecret = async (supabase, userId: string, ip: string | null, name: unknown, value: unknown) => {
+  if (!isProviderSecretName(name)) {
+    return json({ success: false, error: 'Unknown credential', code: 'UNKNOWN_SECRET' }, 400);
+  }
+
+  if (typeof value !== 'string' || value.trim().length < 8) {
+    return json({ success: false, error: 'Enter the full key', code: 'INVALID_SECRET' }, 400);
+  }
+
+  const previousHint = await currentHint(supabase, name);
+  const { ciphertext, iv } = await encryptProviderSecret(name, value.trim());
+
+  const { error } = await supabase
+    .from('provider_secrets')
+    .upsert({
+      name,
+      ciphertext,
+      iv,
+      hint: hintFor(value.trim()),
+      rotated_at: new Date().toISOString(),
+      rotated_by: userId,
+    });
+
+  if (error) throw error;
+
+  await audit(supabase, userId, ip, 'provider_secret.rotated', name,
+    previousHint ? { hint: previousHint } : null,
+    { hint: hintFor(value.trim()) });
+
+  forgetProviderSecret(name);
+  return json({ success: true, message: 'Credential saved' });
+};
+
+// Remove the saved value, so the env var is used again
+const clearSecret = async (supabase, userId: string, ip: string | null, name: unknown) => {
+  if (!isProviderSecretName(name)) {
+    return json({ success: false, error: 'Unknown credential', code: 'UNKNOWN_SECRET' }, 400);
+  }
+
+  const previousHint = await currentHint(supabase, name);
+  if (!previousHint) {
+    return json({ success: true, message: 'Nothing saved for this credential' });
+  }
+
+  const { error } = await supabase
+    .from('provider_secrets')
+    .delete()
+    .eq('name', name);
+
+  if (error) throw error;
+
+  await audit(supabase, userId, ip, 'provider_secret.cleared', name, { hint: previousHint }, null);
+
+  forgetProviderSecret(name);
+  return json({ success: true, message: 'Saved credential removed' });
+};
+
+// Admin-only management of provider credentials (see _shared/secrets.ts).
+// Body: { action: 'list' } | { action: 'rotate', name, value } |
+// { action: 'clear', name }. Saved values are never returned.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'No authorization header provided' }, 401);
+    }
+
+    // Verify the user's token
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return json({ error: 'Invalid token' }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return json({ success: false, error: 'Admins only', code: 'NOT_AUTHORIZED' }, 403);
+    }
+
+    // Admins always have two-factor set up; make sure this session used it
+    if (assuranceOf(token) !== 'aal2') {
+      return json({ success: false, error: 'Sign in with your authenticator code first', code: 'MFA_REQUIRED' }, 403);
+    }
+
+    const { action, name, value } = await req.json();
+    // The last hop is the one our proxy added; earlier ones come from the client
+    const ip = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || null;
+
+    switch (action) {
+      case 'list':
+        return await listSecrets(supabase);
+      case 'rotate':
+        return await rotateSecret(supabase, user.id, ip, name, value);
+      case 'clear':
+        return await clearSecret(supabase, user.id, ip, name);
+      default:
+        return json({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (err) {
+    console.error('Provider secrets edge function error:', err);
+    return json({ error: 'Internal server error', details: err.message }, 500);
+  }
+});
@@ -0,0 +1,206 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { getVtuProvider, getVtuProviderByName } from "../_shared/vtu/index.ts";
+import { creditWalletFunding } from "../_shared/funding.ts";
+import { fetchPaystackTransaction } from "../_shared/paystack.ts";
+import { reverseTransaction } from "../_shared/reversal.ts";
+import { requireProviderSecret } from "../_shared/secrets.ts";
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Rows younger than this are left alone; the request that created them may
+// still be settling them
+const MIN_AGE_MINUTES = Number(Deno.env.get("REQUERY_MIN_AGE_MINUTES") ?? 5);
+// Attempt n waits BACKOFF_MINUTES * 2^(n-1) before attempt n+1
+const BACKOFF_MINUTES = Number(Deno.env.get("REQUERY_BACKOFF_MINUTES") ?? 5);
+const MAX_ATTEMPTS = Number(Deno.env.get("REQUERY_MAX_ATTEMPTS") ?? 6);
+const BATCH_SIZE = Number(Deno.env.get("REQUERY_BATCH_SIZE") ?? 50);
+
+const PURCHASE_TYPES = ['airtime', 'data', 'electricity', 'cable'];
+
+type RequeryOutcome = 'success' | 'failed' | 'reversed' | 'pending';
+
+// Record an attempt that didn't settle the row. exhausted is true once the
+// row has used up its attempts and should be given up on; settled is true
+// when finalStatus was applied, i.e. the row was still pending.
+const recordAttempt = async (supabase, transaction, lastResult: string, finalStatus?: string) => {
+  const attempts = (transaction.details?.requery?.attempts ?? 0) + 1;
+  const exhausted = attempts >= MAX_ATTEMPTS;
+
+  const { data: recorded, error } = await supabase.rpc('record_requery_attempt', {
+    transaction_id: transaction.id,
+    requery: {
+      attempts,
+      max_attempts: MAX_ATTEMPTS,
+      last_attempt_at: new Date().toISOString(),
+      next_attempt_at: exhausted
+        ? null
+        : new Date(Date.now() + BACKOFF_MINUTES * 2 ** (attempts - 1) * 60_000).toISOString(),
+      last_result: lastResult,
+    },
+    final_status: exhausted ? finalStatus ?? null : null,
+  });
+
+  if (error) {
+    console.error('Requery attempt record error:', transaction.reference, error);
+  }
+
+  return { exhausted, settled: exhausted && recorded === true };
+};
+
+// Wallet fundings: ask Paystack, then settle through the same path as
+// verify-payment and the webhook
+const requeryFunding = async (supabase, transaction): Promise<RequeryOutcome> => {
+  const paystackSecretKey = await requireProviderSecret(supabase, 'PAYSTACK_SECRET_KEY');
+  const paystackResponse = await fetchPaystackTransaction(paystackSecretKey, transaction.reference);
+
+  if (paystackResponse.status && paystackResponse.data) {
+    const { outcome, transaction: settled } = await creditWalletFunding(
+      supabase,
+      transaction.reference,
+      paystackResponse.data
+    );
+
+    if (outcome === 'credited') return 'success';
+    if (settled && settled.status !== 'pending') return settled.status as RequeryOutcome;
+  }
+
+  // Not paid (yet). No money moved, so giving up just marks it failed.
+  const lastResult = paystackResponse.data?.status ?? paystackResponse.message ?? 'unknown';
+  const { exhausted } = await recordAttempt(supabase, transaction, lastResult, 'failed');
+  return exhausted ? 'failed' : 'pending';
+};
+
+// Purchases: ask the VTU provider that handled the vend
+const requeryPurchase = async (supabase, transaction): Promise<RequeryOutcome> => {
+  const details = transaction.details ?? {};
+  const vtu = details.vtu_provider
+    ? await getVtuProviderByName(supabase, details.vtu_provider, transaction.type)
+    : await getVtuProvider(supabase, transaction.type);
+
+  const result = await vtu.requery({
+    service: transaction.type,
+    reference: transaction.reference,
+    providerReference: details.provider_reference,
+    recipient: transaction.recipient ?? '',
+  });
+
+  if (result.status === 'success') {
+    const { error } = await supabase
+      .from('transactions')
+      .update({
+        status: 'success',
+        details: {
+          ...details,
+          ...(result.token ? { token: result.token } : {}),
+          requery: { ...details.requery, settled_at: new Date().toISOString(), last_result: 'success' }
+        }
+      })
+      .eq('id', transaction.id)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+    return 'success';
+  }
+
+  if (result.status === 'failed') {
+    const reason = result.message || 'Service provider API failure';
+    const { data: failed, error } = await supabase
+      .from('transactions')
+      .update({ status: 'failed', details: { ...details, error: reason } })
+      .eq('id', transaction.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) throw error;
+
+    // Settled some other way since we read it; that outcome stands
+    if (!failed?.length) return 'pending';
+
+    const { reversal } = await reverseTransaction(supabase, transaction.id, reason);
+    return reversal ? 'reversed' : 'failed';
+  }
+
+  // Still no final answer. Once attempts run out we mark it failed and
+  // refund the customer rather than hold their money indefinitely, unless
+  // it stopped being pending in the meantime.
+  const { settled } = await recordAttempt(supabase, transaction, result.message ?? 'pending', 'failed');
+  if (!settled) return 'pending';
+
+  const { reversal } = await reverseTransaction(
+    supabase,
+    transaction.id,
+    `No final status from ${vtu.name} after ${MAX_ATTEMPTS} requery attempts`
+  );
+  return reversal ? 'reversed' : 'pending';
+};
+
+// Scheduled worker (see the requery-pending-transactions cron job) that
+// settles transactions stuck in pending: Paystack fundings the browser never
+// verified and VTU vends whose outcome we never learned
+serve(async (req) => {
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Only the scheduler (or an operator) holding the service role key may run it
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const olderThan = new Date(Date.now() - MIN_AGE_MINUTES * 60_000).toISOString();
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('status', 'pending')
+      .in('type', ['wallet', ...PURCHASE_TYPES])
+      .lt('created_at', olderThan)
+      .or(`details->requery->>next_attempt_at.is.null,details->requery->>next_attempt_at.lte.${now}`)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (pendingError) throw pendingError;
+
+    const summary: Record<RequeryOutcome | 'errors', number> = {
+      success: 0,
+      failed: 0,
+      reversed: 0,
+      pending: 0,
+      errors: 0,
+    };
+
+    // One at a time: keeps provider rate limits happy and a slow provider
+    // only delays this run
+    for (const transaction of pending ?? []) {
+      try {
+        const outcome = transaction.type === 'wallet'
+          ? await requeryFunding(supabase, transaction)
+          : await requeryPurchase(supabase, transaction);
+        summary[outcome]++;
+      } catch (err) {
+        summary.errors++;
+        console.error('Requery error:', transaction.reference, err);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ processed: pending?.length ?? 0, ...summary }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (err) {
+    console.error('Requery pending edge function error:', err);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: err.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
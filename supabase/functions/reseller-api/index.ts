@@ -0,0 +1,135 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { authenticateApiKey } from "../_shared/api-keys.ts";
+import { buyAirtime, buyData, payCable, payElectricity, verifyCustomer } from "../_shared/purchases/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Versioned API for resellers, authenticated with an API key from Settings
+// (Authorization: Bearer vtu_...) instead of a Supabase session:
+//
+//   POST /v1/airtime                   { provider, phoneNumber, amount, reference }
+//   POST /v1/data                      { planId, phoneNumber, reference }
+//   POST /v1/verify                    { service, provider, customerId, meterType? }
+//   POST /v1/electricity               { provider, meterNumber, meterType?, amount, verificationToken, reference }
+//   POST /v1/cable                     { packageId, smartCardNumber, verificationToken, reference }
+//   GET  /v1/balance
+//   GET  /v1/transactions/:reference
+//
+// Purchases run through the same code as the dashboard functions, so
+// pricing, limits, idempotent references and reversals behave identically.
+const PURCHASES = {
+  airtime: buyAirtime,
+  data: buyData,
+  verify: verifyCustomer,
+  electricity: payElectricity,
+  cable: payCable,
+};
+
+const json = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+// What an API client sees of a transaction
+const transactionView = (transaction) => ({
+  reference: transaction.reference,
+  type: transaction.type,
+  status: transaction.status,
+  amount: transaction.details?.face_amount ?? transaction.amount,
+  fee: transaction.details?.fee ?? 0,
+  charged: transaction.amount,
+  provider: transaction.provider,
+  recipient: transaction.recipient,
+  token: transaction.details?.token ?? null,
+  error: transaction.details?.error ?? null,
+  createdAt: transaction.created_at,
+});
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    const key = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { apiKey, error: keyError } = await authenticateApiKey(supabase, key);
+
+    if (keyError) {
+      return json({ error: keyError.message, code: keyError.code }, 401);
+    }
+
+    // The function is mounted at /functions/v1/reseller-api, so route on
+    // what follows the API version
+    const [, version, resource, ...rest] = new URL(req.url).pathname
+      .split('/reseller-api')[1]?.split('/') ?? [];
+
+    if (version !== 'v1') {
+      return json({ error: 'Unsupported API version', code: 'NOT_FOUND' }, 404);
+    }
+
+    if (Object.hasOwn(PURCHASES, resource ?? '') && rest.length === 0) {
+      if (req.method !== 'POST') {
+        return json({ error: 'Method not allowed' }, 405);
+      }
+
+      const result = await PURCHASES[resource](supabase, apiKey.user_id, await req.json());
+      return json(result.body, result.status);
+    }
+
+    if (resource === 'balance' && rest.length === 0) {
+      if (req.method !== 'GET') {
+        return json({ error: 'Method not allowed' }, 405);
+      }
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('balance')
+        .eq('id', apiKey.user_id)
+        .single();
+
+      if (profileError || !profile) {
+        return json({ error: 'User profile not found', code: 'PROFILE_NOT_FOUND' }, 404);
+      }
+
+      return json({ success: true, data: { balance: profile.balance, currency: 'NGN' } });
+    }
+
+    if (resource === 'transactions' && rest.length === 1) {
+      if (req.method !== 'GET') {
+        return json({ error: 'Method not allowed' }, 405);
+      }
+
+      const { data: transaction, error: transactionError } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('reference', decodeURIComponent(rest[0]))
+        .eq('user_id', apiKey.user_id)
+        .maybeSingle();
+
+      if (transactionError) throw transactionError;
+
+      if (!transaction) {
+        return json({ error: 'Transaction not found', code: 'NOT_FOUND' }, 404);
+      }
+
+      return json({ success: true, data: transactionView(transaction) });
+    }
+
+    return json({ error: 'Not found', code: 'NOT_FOUND' }, 404);
+  } catch (err) {
+    console.error('Reseller API edge function error:', err);
+    return json({ error: 'Internal server error', details: err.message }, 500);
+  }
+});
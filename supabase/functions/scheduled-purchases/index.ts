@@ -0,0 +1,306 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { buyAirtime, buyData, payCable, payElectricity, PurchaseResult, verifyCustomer } from "../_shared/purchases/index.ts";
+import { checkTransactionPin, pinFailureBody } from "../_shared/pin.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const BATCH_SIZE = Number(Deno.env.get("SCHEDULE_BATCH_SIZE") ?? 50);
+// Consecutive failed runs before a schedule pauses itself
+const MAX_FAILURES = Number(Deno.env.get("SCHEDULE_MAX_FAILURES") ?? 3);
+// How long a run holds an occurrence it is buying: long enough for a
+// customer lookup and a vend that both time out
+const LEASE_MS = 5 * 60_000;
+
+const PROVIDER_TABLES = {
+  airtime: 'network_providers',
+  data: 'network_providers',
+  electricity: 'electricity_providers',
+  cable: 'cable_providers',
+};
+
+const json = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+// Customer request: create a schedule. It will spend from the wallet with
+// nobody present, so it is authorised once, here, with the transaction PIN.
+const createSchedule = async (supabase, userId: string, input) => {
+  const { pin, name, service, provider, recipient, amount, planId, packageId, meterType,
+    frequency, dayOfWeek, dayOfMonth, timeOfDay } = input ?? {};
+
+  if (!name || !Object.hasOwn(PROVIDER_TABLES, service ?? '') || !provider || !recipient || !frequency) {
+    return json({ error: 'Missing required parameters' }, 400);
+  }
+
+  const { data: providerData, error: providerError } = await supabase
+    .from(PROVIDER_TABLES[service])
+    .select('id, code')
+    .eq('code', String(provider).toLowerCase())
+    .maybeSingle();
+
+  if (providerError) throw providerError;
+  if (!providerData) {
+    return json({ error: 'Provider not found' }, 404);
+  }
+
+  // Plans and packages must belong to the chosen provider
+  if (service === 'data' || service === 'cable') {
+    const { data: item, error: itemError } = await supabase
+      .from(service === 'data' ? 'data_plans' : 'cable_packages')
+      .select('id')
+      .eq('id', service === 'data' ? planId : packageId)
+      .eq('provider_id', providerData.id)
+      .maybeSingle();
+
+    if (itemError && itemError.code !== '22P02') throw itemError;
+    if (!item) {
+      return json({ error: service === 'data' ? 'Data plan not found' : 'Package not found' }, 404);
+    }
+  }
+
+  const { error: pinError } = await checkTransactionPin(supabase, userId, pin);
+  if (pinError) {
+    return json(pinFailureBody(pinError), pinError.status);
+  }
+
+  const { data: schedule, error: insertError } = await supabase
+    .from('scheduled_purchases')
+    .insert({
+      user_id: userId,
+      name: String(name).trim(),
+      service,
+      provider: providerData.code,
+      recipient: String(recipient).trim(),
+      amount: service === 'airtime' || service === 'electricity' ? Number(amount) : null,
+      plan_id: service === 'data' ? planId : null,
+      package_id: service === 'cable' ? packageId : null,
+      meter_type: service === 'electricity' ? meterType ?? 'prepaid' : null,
+      frequency,
+      day_of_week: frequency === 'weekly' ? Number(dayOfWeek) : null,
+      day_of_month: frequency === 'monthly' ? Number(dayOfMonth) : null,
+      time_of_day: timeOfDay ?? '08:00',
+    })
+    .select()
+    .single();
+
+  // Check constraints and bad values are the customer's to fix
+  if (insertError && ['23502', '23514', '22P02', '22007', '22008'].includes(insertError.code)) {
+    return json({ error: 'Invalid schedule', details: insertError.message }, 400);
+  }
+  if (insertError) throw insertError;
+
+  return json({ success: true, data: schedule });
+};
+
+// One reference per occurrence, so a run that is retried after a crash
+// (see the lease in runDueSchedules) replays the purchase instead of buying
+// twice
+const runReference = (schedule) =>
+  `SCH-${schedule.id.replace(/-/g, '').slice(0, 12).toUpperCase()}-${schedule.next_run_at.replace(/\D/g, '').slice(0, 12)}`;
+
+// Meters and smart cards are looked up again before every payment, the same
+// way the payment forms do it
+const runSchedule = async (supabase, schedule, reference: string): Promise<PurchaseResult> => {
+  const userId = schedule.user_id;
+
+  switch (schedule.service) {
+    case 'airtime':
+      return await buyAirtime(supabase, userId, {
+        provider: schedule.provider,
+        phoneNumber: schedule.recipient,
+        amount: Number(schedule.amount),
+        reference,
+      });
+    case 'data':
+      return await buyData(supabase, userId, {
+        planId: schedule.plan_id,
+        phoneNumber: schedule.recipient,
+        reference,
+      });
+    case 'electricity':
+    case 'cable': {
+      const lookup = await verifyCustomer(supabase, userId, {
+        service: schedule.service,
+        provider: schedule.provider,
+        customerId: schedule.recipient,
+        meterType: schedule.meter_type ?? 'prepaid',
+      });
+
+      if (lookup.status !== 200) {
+        return lookup;
+      }
+
+      const { verificationToken } = (lookup.body as { data: { verificationToken: string } }).data;
+
+      return schedule.service === 'electricity'
+        ? await payElectricity(supabase, userId, {
+          provider: schedule.provider,
+          meterNumber: schedule.recipient,
+          meterType: schedule.meter_type ?? 'prepaid',
+          amount: Number(schedule.amount),
+          verificationToken,
+          reference,
+        })
+        : await payCable(supabase, userId, {
+          packageId: schedule.package_id,
+          smartCardNumber: schedule.recipient,
+          verificationToken,
+          reference,
+        });
+    }
+    default:
+      return { status: 400, body: { error: `Unknown service "${schedule.service}"` } };
+  }
+};
+
+const notify = async (supabase, userId: string, notification: { type: string; title: string; message: string; link?: string }) => {
+  const { error } = await supabase
+    .from('notifications')
+    .insert({ user_id: userId, ...notification });
+
+  if (error) {
+    console.error('Notification insert error:', userId, error);
+  }
+};
+
+// Scheduled run (see the run-scheduled-purchases cron job): buy whatever
+// recurring purchases are due
+const runDueSchedules = async (supabase) => {
+  const now = new Date().toISOString();
+
+  const { data: due, error: dueError } = await supabase
+    .from('scheduled_purchases')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_at', now)
+    .or(`claimed_until.is.null,claimed_until.lt.${now}`)
+    .order('next_run_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (dueError) throw dueError;
+
+  const summary = { success: 0, pending: 0, failed: 0, paused: 0, skipped: 0, errors: 0 };
+
+  for (const schedule of due ?? []) {
+    try {
+      // Lease the occurrence so an overlapping run leaves it alone. It stays
+      // due until the result is recorded below; if this run dies first, the
+      // next one after the lease picks it up again.
+      const { data: claimed, error: claimError } = await supabase
+        .from('scheduled_purchases')
+        .update({ claimed_until: new Date(Date.now() + LEASE_MS).toISOString() })
+        .eq('id', schedule.id)
+        .eq('status', 'active')
+        .eq('next_run_at', schedule.next_run_at)
+        .or(`claimed_until.is.null,claimed_until.lt.${new Date().toISOString()}`)
+        .select('id');
+
+      if (claimError) throw claimError;
+      if (!claimed?.length) {
+        summary.skipped++;
+        continue;
+      }
+
+      const reference = runReference(schedule);
+      const result = await runSchedule(supabase, schedule, reference);
+      const body = result.body as { error?: string; message?: string; code?: string };
+      const failed = result.status !== 200 && result.status !== 202;
+      // A run missed to maintenance is not the schedule's fault, so it
+      // neither counts towards pausing nor clears earlier failures
+      const failureCount = body.code === 'MAINTENANCE'
+        ? schedule.failure_count
+        : failed ? schedule.failure_count + 1 : 0;
+      const pause = failed && failureCount >= MAX_FAILURES;
+
+      // Moving last_run_at makes the trigger advance next_run_at, so the
+      // occurrence is done only once its result is recorded
+      const { error: recordError } = await supabase
+        .from('scheduled_purchases')
+        .update({
+          last_run_at: new Date().toISOString(),
+          claimed_until: null,
+          last_status: failed ? 'failed' : result.status === 202 ? 'pending' : 'success',
+          last_message: failed ? body.error ?? 'Purchase failed' : body.message ?? null,
+          last_reference: reference,
+          failure_count: failureCount,
+          ...(pause ? { status: 'paused' } : {}),
+        })
+        .eq('id', schedule.id);
+
+      if (recordError) throw recordError;
+
+      if (body.code === 'INSUFFICIENT_BALANCE') {
+        await notify(supabase, schedule.user_id, {
+          type: 'schedule.insufficient_balance',
+          title: 'Scheduled purchase failed',
+          message: `"${schedule.name}" could not run because your wallet balance is too low. Fund your wallet so the next run goes through.`,
+          link: '/dashboard/wallet',
+        });
+      }
+
+      if (pause) {
+        await notify(supabase, schedule.user_id, {
+          type: 'schedule.paused',
+          title: 'Scheduled purchase paused',
+          message: `"${schedule.name}" failed ${failureCount} times in a row and has been paused. Resume it once the problem is fixed.`,
+          link: '/dashboard/schedules',
+        });
+        summary.paused++;
+      }
+
+      summary[failed ? 'failed' : result.status === 202 ? 'pending' : 'success']++;
+    } catch (err) {
+      summary.errors++;
+      console.error('Scheduled purchase error:', schedule.id, err);
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ due: due?.length ?? 0, ...summary }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'No authorization header provided' }, 401);
+    }
+
+    // The scheduler holds the service role key; customers use their session
+    if (authHeader === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return await runDueSchedules(supabase);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return json({ error: 'Invalid token' }, 401);
+    }
+
+    return await createSchedule(supabase, user.id, await req.json());
+  } catch (err) {
+    console.error('Scheduled purchases edge function error:', err);
+    return json({ error: 'Internal server error', details: err.message }, 500);
+  }
+});
@@ -0,0 +1,137 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { EmailTransport, getEmailTransport, renderEmail } from "../_shared/email/index.ts";
+
+// Get environment variables
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+// Where links in emails point
+const APP_URL = (Deno.env.get("APP_URL") ?? "https://bigbsubz.com").replace(/\/$/, "");
+
+const BATCH_SIZE = Number(Deno.env.get("EMAIL_BATCH_SIZE") ?? 50);
+// Attempt n waits BACKOFF_SECONDS * 2^(n-1) before attempt n+1
+const BACKOFF_SECONDS = Number(Deno.env.get("EMAIL_BACKOFF_SECONDS") ?? 60);
+const MAX_ATTEMPTS = Number(Deno.env.get("EMAIL_MAX_ATTEMPTS") ?? 5);
+// How long a worker holds an email it is sending, so an overlapping run
+// doesn't send it too
+const LEASE_MS = 2 * 60_000;
+
+type SendOutcome = 'sent' | 'retrying' | 'failed' | 'skipped';
+
+// Render and send one queued email, then record the attempt
+const sendQueuedEmail = async (supabase, email, transport: EmailTransport): Promise<SendOutcome> => {
+  // Claim it first; if another run got there, leave it alone
+  const { data: claimed, error: claimError } = await supabase
+    .from('email_outbox')
+    .update({ next_attempt_at: new Date(Date.now() + LEASE_MS).toISOString() })
+    .eq('id', email.id)
+    .eq('status', 'pending')
+    .eq('attempts', email.attempts)
+    .lte('next_attempt_at', new Date().toISOString())
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed?.length) return 'skipped';
+
+  const attempts = email.attempts + 1;
+  let lastError: string | null = null;
+
+  try {
+    const data = { ...email.data };
+
+    // A failed vend is reversed straight after it is recorded, so by now we
+    // can usually say the money is back
+    if (email.template === 'purchase_failed' && email.transaction_id) {
+      const { data: transaction } = await supabase
+        .from('transactions')
+        .select('status')
+        .eq('id', email.transaction_id)
+        .maybeSingle();
+
+      data.refunded = transaction?.status === 'reversed';
+    }
+
+    await transport.send({ to: email.recipient, ...renderEmail(email.template, data, APP_URL) });
+  } catch (err) {
+    lastError = err.message;
+  }
+
+  const sent = lastError === null;
+  const outcome: SendOutcome = sent ? 'sent' : attempts >= MAX_ATTEMPTS ? 'failed' : 'retrying';
+
+  const { error: recordError } = await supabase
+    .from('email_outbox')
+    .update({
+      status: outcome === 'retrying' ? 'pending' : outcome,
+      attempts,
+      last_error: lastError,
+      sent_at: sent ? new Date().toISOString() : null,
+      next_attempt_at: new Date(Date.now() + BACKOFF_SECONDS * 2 ** (attempts - 1) * 1000).toISOString(),
+    })
+    .eq('id', email.id);
+
+  if (recordError) {
+    console.error('Email outbox record error:', email.id, recordError);
+  }
+
+  return outcome;
+};
+
+// Scheduled worker (see the send-notification-emails cron job) that sends
+// the transactional emails queued in email_outbox
+serve(async (req) => {
+  // Create a Supabase client with the service role key
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // Only the scheduler (or an operator) holding the service role key may run it
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const transport = getEmailTransport();
+
+    const { data: due, error: dueError } = await supabase
+      .from('email_outbox')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) throw dueError;
+
+    const summary: Record<SendOutcome | 'errors', number> = {
+      sent: 0,
+      retrying: 0,
+      failed: 0,
+      skipped: 0,
+      errors: 0,
+    };
+
+    // One at a time, so a slow mail server only delays this run
+    for (const email of due ?? []) {
+      try {
+        summary[await sendQueuedEmail(supabase, email, transport)]++;
+      } catch (err) {
+        summary.errors++;
+        console.error('Email send error:', email.id, err);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ processed: due?.length ?? 0, transport: transport.name, ...summary }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (err) {
+    console.error('Send emails edge function error:', err);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: err.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,6 +1,9 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
+import { creditWalletFunding } from "../_shared/funding.ts";
+import { fetchPaystackTransaction } from "../_shared/paystack.ts";
+import { requireProviderSecret } from "../_shared/secrets.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,7 +13,21 @@ const corsHeaders = {
 // Get environment variables
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const PAYSTACK_SECRET_KEY = Deno.env.get("PAYSTACK_SECRET_KEY")!;
+
+// Same response whether this call credited the wallet or the reference had
+// already been credited, so client retries are safe
+const verifiedResponse = (transaction, replayed = false) => new Response(
+  JSON.stringify({ 
+    status: true, 
+    replayed,
+    message: 'Payment verified successfully',
+    data: {
+      amount: transaction.amount,
+      reference: transaction.reference
+    }
+  }),
+  { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -53,80 +70,52 @@ serve(async (req) => {
     }
 
     // Verify the payment with Paystack
-    const response = await fetch(`https://api.paystack.co/transaction/verify/${reference}`, {
-      headers: {
-        'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    const paystackResponse = await response.json();
-
-    // If verification successful
-    if (paystackResponse.status && paystackResponse.data.status === 'success') {
-      // Get the transaction from the database
-      const { data: transaction, error: txError } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('reference', reference)
-        .single();
+    const paystackSecretKey = await requireProviderSecret(supabase, 'PAYSTACK_SECRET_KEY');
+    const paystackResponse = await fetchPaystackTransaction(paystackSecretKey, reference);
+
+    // Paystack knows the payment: check it against the pending funding and
+    // credit the wallet, unless the webhook (or an earlier call) already did
+    if (paystackResponse.status && paystackResponse.data) {
+      const { outcome, transaction, failures } = await creditWalletFunding(
+        supabase,
+        reference,
+        paystackResponse.data
+      );
 
-      if (txError || !transaction) {
+      if (outcome === 'not_found') {
         return new Response(
           JSON.stringify({ error: 'Transaction not found' }),
           { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      // Update transaction status to success
-      const { error: updateError } = await supabase
-        .from('transactions')
-        .update({ 
-          status: 'success',
-          details: {
-            ...transaction.details,
-            paystack_response: paystackResponse.data
-          }
-        })
-        .eq('reference', reference);
-
-      if (updateError) {
-        console.error('Update error:', updateError);
+      if (outcome === 'rejected') {
+        console.warn('Payment verification rejected:', reference, failures);
         return new Response(
-          JSON.stringify({ error: 'Failed to update transaction' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({
+            status: false,
+            message: 'Payment verification failed',
+            failures,
+            data: { status: transaction?.status, reference }
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      // Update user balance
-      const { error: balanceError } = await supabase.rpc(
-        'add_to_balance',
-        { 
-          user_uuid: user.id, 
-          amount_to_add: transaction.amount 
+      // A reference that was already credited is a retry: replay the
+      // original result instead of crediting again
+      if (outcome === 'already_processed') {
+        if (transaction?.status === 'success') {
+          return verifiedResponse(transaction, true);
         }
-      );
-
-      if (balanceError) {
-        console.error('Balance update error:', balanceError);
         return new Response(
-          JSON.stringify({ error: 'Failed to update user balance' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({ error: 'Transaction has already been processed', status: transaction?.status }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
       // Return success response
-      return new Response(
-        JSON.stringify({ 
-          status: true, 
-          message: 'Payment verified successfully',
-          data: {
-            amount: transaction.amount,
-            reference: reference
-          }
-        }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return verifiedResponse(transaction);
     }
     
     // If verification failed
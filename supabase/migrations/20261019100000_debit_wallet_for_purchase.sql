@@ -0,0 +1,58 @@
+-- Atomically debit a wallet and record the pending purchase.
+-- The profile row is locked for the duration of the call so concurrent
+-- purchases are serialised, and the debit and the transaction insert either
+-- both happen or neither does.
+CREATE OR REPLACE FUNCTION debit_wallet_for_purchase(
+  user_uuid UUID,
+  purchase_type TEXT,
+  purchase_amount DECIMAL,
+  purchase_reference TEXT,
+  purchase_provider TEXT,
+  purchase_recipient TEXT,
+  purchase_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  current_balance DECIMAL;
+  new_transaction transactions;
+BEGIN
+  IF purchase_amount IS NULL OR purchase_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  IF current_balance < purchase_amount THEN
+    RAISE EXCEPTION 'INSUFFICIENT_BALANCE';
+  END IF;
+
+  UPDATE profiles
+  SET balance = balance - purchase_amount
+  WHERE id = user_uuid;
+
+  INSERT INTO transactions (user_id, type, amount, status, reference, provider, recipient, details)
+  VALUES (
+    user_uuid,
+    purchase_type,
+    purchase_amount,
+    'pending',
+    purchase_reference,
+    purchase_provider,
+    purchase_recipient,
+    purchase_details
+  )
+  RETURNING * INTO new_transaction;
+
+  RETURN new_transaction;
+END;
+$$;
+
+-- Only the edge functions (service role) may debit wallets
+REVOKE EXECUTE ON FUNCTION debit_wallet_for_purchase(UUID, TEXT, DECIMAL, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,66 @@
+-- transactions.reference is the idempotency key for every wallet operation
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_reference_key ON transactions (reference);
+
+-- Same as before, but a reference that has already been used is rejected
+-- with DUPLICATE_REFERENCE before any money moves. The unique index catches
+-- the race where two requests with the same reference arrive together; the
+-- whole call (including the debit) is rolled back in that case.
+CREATE OR REPLACE FUNCTION debit_wallet_for_purchase(
+  user_uuid UUID,
+  purchase_type TEXT,
+  purchase_amount DECIMAL,
+  purchase_reference TEXT,
+  purchase_provider TEXT,
+  purchase_recipient TEXT,
+  purchase_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  current_balance DECIMAL;
+  new_transaction transactions;
+BEGIN
+  IF purchase_amount IS NULL OR purchase_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE reference = purchase_reference) THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END IF;
+
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  IF current_balance < purchase_amount THEN
+    RAISE EXCEPTION 'INSUFFICIENT_BALANCE';
+  END IF;
+
+  UPDATE profiles
+  SET balance = balance - purchase_amount
+  WHERE id = user_uuid;
+
+  BEGIN
+    INSERT INTO transactions (user_id, type, amount, status, reference, provider, recipient, details)
+    VALUES (
+      user_uuid,
+      purchase_type,
+      purchase_amount,
+      'pending',
+      purchase_reference,
+      purchase_provider,
+      purchase_recipient,
+      purchase_details
+    )
+    RETURNING * INTO new_transaction;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END;
+
+  RETURN new_transaction;
+END;
+$$;
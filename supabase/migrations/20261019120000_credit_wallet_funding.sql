@@ -0,0 +1,41 @@
+-- Credit a pending Paystack wallet funding exactly once.
+-- Both verify-payment (browser redirect) and paystack-webhook (server to
+-- server) settle fundings through this function. The transaction row is
+-- locked so only one caller can move it out of pending; everyone else gets
+-- ALREADY_PROCESSED.
+CREATE OR REPLACE FUNCTION credit_wallet_funding(
+  funding_reference TEXT,
+  payment_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  funding transactions;
+BEGIN
+  SELECT * INTO funding
+  FROM transactions
+  WHERE reference = funding_reference AND type = 'wallet'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+
+  IF funding.status <> 'pending' THEN
+    RAISE EXCEPTION 'ALREADY_PROCESSED';
+  END IF;
+
+  UPDATE transactions
+  SET status = 'success',
+      details = COALESCE(details, '{}'::jsonb) || payment_details
+  WHERE id = funding.id
+  RETURNING * INTO funding;
+
+  UPDATE profiles
+  SET balance = balance + funding.amount
+  WHERE id = funding.user_id;
+
+  RETURN funding;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION credit_wallet_funding(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
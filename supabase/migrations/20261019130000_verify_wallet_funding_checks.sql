@@ -0,0 +1,105 @@
+-- Verify a Paystack payment against the pending wallet funding before
+-- crediting it. The result is returned rather than raised so that the
+-- reasons a verification was rejected are recorded on the transaction
+-- (an exception would roll that write back).
+--
+-- Returns { outcome, transaction, failures } where outcome is one of
+--   credited          - checks passed, wallet credited
+--   rejected          - one or more checks failed, see failures
+--   already_processed - the funding is no longer pending
+--   not_found         - no wallet funding with this reference
+DROP FUNCTION IF EXISTS credit_wallet_funding(TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION credit_wallet_funding(
+  funding_reference TEXT,
+  payment JSONB
+)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  funding transactions;
+  expected_currency TEXT;
+  failures JSONB := '[]'::jsonb;
+  verification JSONB;
+BEGIN
+  SELECT * INTO funding
+  FROM transactions
+  WHERE reference = funding_reference AND type = 'wallet'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('outcome', 'not_found');
+  END IF;
+
+  IF funding.status <> 'pending' THEN
+    RETURN jsonb_build_object('outcome', 'already_processed', 'transaction', to_jsonb(funding));
+  END IF;
+
+  expected_currency := COALESCE(funding.details->>'currency', 'NGN');
+
+  IF payment->>'status' IS DISTINCT FROM 'success' THEN
+    failures := failures || jsonb_build_object(
+      'check', 'status', 'expected', 'success', 'received', payment->>'status');
+  END IF;
+
+  IF payment->>'reference' IS DISTINCT FROM funding_reference THEN
+    failures := failures || jsonb_build_object(
+      'check', 'reference', 'expected', funding_reference, 'received', payment->>'reference');
+  END IF;
+
+  -- Paystack amounts are in kobo
+  IF (payment->>'amount')::numeric IS DISTINCT FROM round(funding.amount * 100) THEN
+    failures := failures || jsonb_build_object(
+      'check', 'amount', 'expected', round(funding.amount * 100), 'received', payment->'amount');
+  END IF;
+
+  IF upper(payment->>'currency') IS DISTINCT FROM expected_currency THEN
+    failures := failures || jsonb_build_object(
+      'check', 'currency', 'expected', expected_currency, 'received', payment->>'currency');
+  END IF;
+
+  verification := jsonb_build_object(
+    'result', CASE WHEN jsonb_array_length(failures) = 0 THEN 'passed' ELSE 'rejected' END,
+    'failures', failures,
+    'checked_at', now()
+  );
+
+  IF jsonb_array_length(failures) > 0 THEN
+    -- A payment Paystack hasn't finished yet can still succeed, so only the
+    -- final outcomes and amount/currency mismatches close the funding
+    UPDATE transactions
+    SET status = CASE
+          WHEN jsonb_array_length(failures) = 1
+           AND failures->0->>'check' = 'status'
+           AND payment->>'status' IN ('ongoing', 'pending', 'processing', 'queued', 'abandoned')
+          THEN 'pending'
+          ELSE 'failed'
+        END,
+        details = COALESCE(details, '{}'::jsonb)
+          || jsonb_build_object('paystack_response', payment, 'verification', verification)
+    WHERE id = funding.id
+    RETURNING * INTO funding;
+
+    RETURN jsonb_build_object(
+      'outcome', 'rejected',
+      'failures', failures,
+      'transaction', to_jsonb(funding)
+    );
+  END IF;
+
+  UPDATE transactions
+  SET status = 'success',
+      details = COALESCE(details, '{}'::jsonb)
+        || jsonb_build_object('paystack_response', payment, 'verification', verification)
+  WHERE id = funding.id
+  RETURNING * INTO funding;
+
+  -- Always the owner of the funding, never whoever asked for verification
+  UPDATE profiles
+  SET balance = balance + funding.amount
+  WHERE id = funding.user_id;
+
+  RETURN jsonb_build_object('outcome', 'credited', 'transaction', to_jsonb(funding));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION credit_wallet_funding(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,93 @@
+-- Reversals return the money for a purchase to the customer's wallet.
+-- A reversal is its own transaction (type 'reversal') linked to the
+-- original, and the original moves to status 'reversed'. The reversal
+-- reference is derived from the original's, so the unique reference index
+-- guarantees a purchase can only ever be reversed once.
+CREATE OR REPLACE FUNCTION reverse_transaction(
+  original_id UUID,
+  reversal_reason TEXT,
+  initiated_by UUID DEFAULT NULL
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  original transactions;
+  reversal transactions;
+BEGIN
+  SELECT * INTO original
+  FROM transactions
+  WHERE id = original_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+
+  IF original.type NOT IN ('airtime', 'data', 'electricity', 'cable') THEN
+    RAISE EXCEPTION 'NOT_REVERSIBLE';
+  END IF;
+
+  IF original.status = 'reversed' THEN
+    RAISE EXCEPTION 'ALREADY_REVERSED';
+  END IF;
+
+  INSERT INTO transactions (user_id, type, amount, status, reference, provider, recipient, details)
+  VALUES (
+    original.user_id,
+    'reversal',
+    original.amount,
+    'success',
+    original.reference || '-REV',
+    original.provider,
+    original.recipient,
+    jsonb_build_object(
+      'original_transaction_id', original.id,
+      'original_reference', original.reference,
+      'original_type', original.type,
+      'original_status', original.status,
+      'reason', reversal_reason,
+      'initiated_by', initiated_by
+    )
+  )
+  RETURNING * INTO reversal;
+
+  UPDATE profiles
+  SET balance = balance + original.amount
+  WHERE id = original.user_id;
+
+  UPDATE transactions
+  SET status = 'reversed',
+      details = COALESCE(details, '{}'::jsonb) || jsonb_build_object(
+        'reversal', jsonb_build_object(
+          'transaction_id', reversal.id,
+          'reference', reversal.reference,
+          'reason', reversal_reason,
+          'initiated_by', initiated_by,
+          'reversed_at', now()
+        )
+      )
+  WHERE id = original.id;
+
+  RETURN reversal;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reverse_transaction(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Manual reversal from the admin transactions page
+CREATE OR REPLACE FUNCTION admin_reverse_transaction(transaction_id UUID, reason TEXT)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  RETURN reverse_transaction(transaction_id, reason, auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_reverse_transaction(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_reverse_transaction(UUID, TEXT) TO authenticated;
@@ -0,0 +1,46 @@
+-- Bookkeeping for the requery-pending worker. Merges the worker's attempt
+-- record into details.requery and, when final_status is given, settles the
+-- row. Only touches rows that are still pending, so it never overwrites an
+-- outcome that arrived in the meantime (e.g. a Paystack webhook).
+CREATE OR REPLACE FUNCTION record_requery_attempt(
+  transaction_id UUID,
+  requery JSONB,
+  final_status TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  UPDATE transactions
+  SET details = COALESCE(details, '{}'::jsonb) || jsonb_build_object('requery', requery),
+      status = COALESCE(final_status, status)
+  WHERE id = transaction_id AND status = 'pending';
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_requery_attempt(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS transactions_pending_created_at_idx
+  ON transactions (created_at)
+  WHERE status = 'pending';
+
+-- Run the worker every 5 minutes. Expects the project URL and service role
+-- key in Vault as 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'requery-pending-transactions',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/requery-pending',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,30 @@
+-- Meter and smart card lookups made through the verify-customer function.
+-- The row id is handed to the client as its verification token, and
+-- pay-electricity / pay-cable only accept a payment whose token belongs to
+-- the same user, service, provider and meter or smart card number. The
+-- customer name on the transaction comes from here, never from the client.
+CREATE TABLE IF NOT EXISTS customer_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  service TEXT NOT NULL CHECK (service IN ('electricity', 'cable')),
+  provider TEXT NOT NULL,
+  customer_id TEXT NOT NULL,
+  meter_type TEXT CHECK (meter_type IN ('prepaid', 'postpaid')),
+  customer_name TEXT NOT NULL,
+  address TEXT,
+  current_bouquet TEXT,
+  vtu_provider TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '30 minutes'
+);
+
+CREATE INDEX IF NOT EXISTS customer_verifications_user_id_idx
+  ON customer_verifications (user_id, created_at DESC);
+
+-- Written and read only by the edge functions (service role); customers can
+-- see their own lookups but never create or alter one
+ALTER TABLE customer_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own customer verifications"
+  ON customer_verifications FOR SELECT
+  USING (auth.uid() = user_id);
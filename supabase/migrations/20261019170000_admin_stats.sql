@@ -0,0 +1,107 @@
+-- Figures for the admin dashboard, computed from the live tables.
+--
+-- Sales are successful purchases (airtime, data, electricity, cable);
+-- reversed purchases drop out because they are no longer 'success'.
+-- Fundings are successful wallet transactions. Totals and the trend cover
+-- [start_date, end_date), defaulting to the last 30 days; provider balances
+-- and the user count are current values.
+CREATE OR REPLACE FUNCTION admin_stats(
+  start_date TIMESTAMPTZ DEFAULT NULL,
+  end_date TIMESTAMPTZ DEFAULT NULL,
+  bucket TEXT DEFAULT 'day'
+)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  range_start TIMESTAMPTZ := COALESCE(start_date, now() - INTERVAL '30 days');
+  range_end TIMESTAMPTZ := COALESCE(end_date, now());
+  result JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'INVALID_BUCKET';
+  END IF;
+
+  IF range_start >= range_end THEN
+    RAISE EXCEPTION 'INVALID_RANGE';
+  END IF;
+
+  WITH in_range AS (
+    SELECT *
+    FROM transactions
+    WHERE created_at >= range_start AND created_at < range_end
+  ),
+  sales AS (
+    SELECT *
+    FROM in_range
+    WHERE status = 'success' AND type IN ('airtime', 'data', 'electricity', 'cable')
+  ),
+  periods AS (
+    SELECT generate_series(
+      date_trunc(bucket, range_start),
+      date_trunc(bucket, range_end - INTERVAL '1 microsecond'),
+      ('1 ' || bucket)::INTERVAL
+    ) AS period
+  )
+  SELECT jsonb_build_object(
+    'range', jsonb_build_object('start', range_start, 'end', range_end, 'bucket', bucket),
+    'totalUsers', (SELECT count(*) FROM profiles),
+    'newUsers', (SELECT count(*) FROM profiles WHERE created_at >= range_start AND created_at < range_end),
+    'totalTransactions', (SELECT count(*) FROM in_range),
+    'totalSales', (SELECT COALESCE(sum(amount), 0) FROM sales),
+    'totalFundings', (
+      SELECT COALESCE(sum(amount), 0) FROM in_range WHERE type = 'wallet' AND status = 'success'
+    ),
+    'revenueByService', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'service', service,
+        'transactions', (SELECT count(*) FROM sales WHERE sales.type = service),
+        'amount', (SELECT COALESCE(sum(amount), 0) FROM sales WHERE sales.type = service)
+      ) ORDER BY ordinality), '[]'::jsonb)
+      FROM unnest(ARRAY['airtime', 'data', 'electricity', 'cable']) WITH ORDINALITY AS services (service, ordinality)
+    ),
+    'trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period', periods.period,
+        'transactions', (
+          SELECT count(*) FROM in_range WHERE date_trunc(bucket, in_range.created_at) = periods.period
+        ),
+        'sales', (
+          SELECT COALESCE(sum(amount), 0) FROM sales WHERE date_trunc(bucket, sales.created_at) = periods.period
+        ),
+        'fundings', (
+          SELECT COALESCE(sum(amount), 0)
+          FROM in_range
+          WHERE type = 'wallet' AND status = 'success'
+            AND date_trunc(bucket, in_range.created_at) = periods.period
+        )
+      ) ORDER BY periods.period), '[]'::jsonb)
+      FROM periods
+    ),
+    'providerBalances', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'category', category,
+        'code', code,
+        'name', name,
+        'balance', COALESCE(api_balance, 0)
+      ) ORDER BY category, name), '[]'::jsonb)
+      FROM (
+        SELECT 'network' AS category, code, name, api_balance FROM network_providers
+        UNION ALL
+        SELECT 'electricity', code, name, api_balance FROM electricity_providers
+        UNION ALL
+        SELECT 'cable', code, name, api_balance FROM cable_providers
+      ) balances
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_stats(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_stats(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS transactions_created_at_idx ON transactions (created_at);
@@ -0,0 +1,444 @@
+-- Double-entry ledger for customer wallets.
+--
+-- Every movement of wallet money is a journal of two postings of the same
+-- amount: one on the customer's wallet account ('wallet:<user id>') and one
+-- on the counter account the money came from or went to:
+--   paystack_clearing  - wallet fundings
+--   vtu_settlement     - purchases, and reversals of purchases
+--   admin_adjustments  - manual corrections by an admin
+--   opening_balance    - balances that existed before the ledger
+--
+-- Wallets are liabilities, so a credit adds to the customer's balance and a
+-- debit takes from it. post_wallet_entry is the only code that changes
+-- profiles.balance, and reconcile_wallets reports any wallet whose stored
+-- balance no longer equals the sum of its postings.
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id UUID NOT NULL,
+  account TEXT NOT NULL,
+  user_id UUID REFERENCES profiles (id),
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount DECIMAL NOT NULL CHECK (amount > 0),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('funding', 'purchase', 'reversal', 'adjustment', 'opening_balance')),
+  transaction_id UUID REFERENCES transactions (id),
+  description TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ledger_entries_journal_id_idx ON ledger_entries (journal_id);
+CREATE INDEX IF NOT EXISTS ledger_entries_user_id_idx ON ledger_entries (user_id, created_at);
+CREATE INDEX IF NOT EXISTS ledger_entries_transaction_id_idx ON ledger_entries (transaction_id);
+
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallet postings"
+  ON ledger_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all ledger postings"
+  ON ledger_entries FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Postings are never edited or removed; mistakes are corrected with a new
+-- journal
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'LEDGER_IMMUTABLE';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_entries_immutable ON ledger_entries;
+CREATE TRIGGER ledger_entries_immutable
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Debits and credits of a journal must be equal by the end of the
+-- statement's transaction
+CREATE OR REPLACE FUNCTION check_ledger_journal_balanced()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  IF (
+    SELECT COALESCE(sum(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0)
+    FROM ledger_entries
+    WHERE journal_id = NEW.journal_id
+  ) <> 0 THEN
+    RAISE EXCEPTION 'LEDGER_UNBALANCED';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_entries_balanced ON ledger_entries;
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+  AFTER INSERT ON ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_ledger_journal_balanced();
+
+-- Move money into (positive entry_amount) or out of (negative) a wallet.
+-- Writes the paired postings and applies the same change to
+-- profiles.balance. Returns the journal id.
+CREATE OR REPLACE FUNCTION post_wallet_entry(
+  user_uuid UUID,
+  entry_amount DECIMAL,
+  entry_type TEXT,
+  counter_account TEXT,
+  entry_transaction_id UUID DEFAULT NULL,
+  entry_description TEXT DEFAULT NULL,
+  entry_created_by UUID DEFAULT NULL
+)
+RETURNS UUID LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  journal UUID := gen_random_uuid();
+BEGIN
+  IF entry_amount IS NULL OR entry_amount = 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  UPDATE profiles
+  SET balance = balance + entry_amount
+  WHERE id = user_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO ledger_entries (
+    journal_id, account, user_id, direction, amount, entry_type,
+    transaction_id, description, created_by
+  )
+  VALUES
+    (
+      journal, 'wallet:' || user_uuid, user_uuid,
+      CASE WHEN entry_amount > 0 THEN 'credit' ELSE 'debit' END,
+      abs(entry_amount), entry_type, entry_transaction_id, entry_description, entry_created_by
+    ),
+    (
+      journal, counter_account, NULL,
+      CASE WHEN entry_amount > 0 THEN 'debit' ELSE 'credit' END,
+      abs(entry_amount), entry_type, entry_transaction_id, entry_description, entry_created_by
+    );
+
+  RETURN journal;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_wallet_entry(UUID, DECIMAL, TEXT, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Existing balances become opening-balance journals so every wallet starts
+-- out reconciled
+INSERT INTO ledger_entries (journal_id, account, user_id, direction, amount, entry_type, description)
+SELECT journal, account, user_id, direction, abs(balance), 'opening_balance', 'Balance before the ledger was introduced'
+FROM (
+  SELECT gen_random_uuid() AS journal, id, balance
+  FROM profiles
+  WHERE balance <> 0
+    AND NOT EXISTS (SELECT 1 FROM ledger_entries WHERE ledger_entries.user_id = profiles.id)
+) openings
+CROSS JOIN LATERAL (
+  VALUES
+    ('wallet:' || openings.id, openings.id, CASE WHEN openings.balance > 0 THEN 'credit' ELSE 'debit' END),
+    ('opening_balance', NULL::UUID, CASE WHEN openings.balance > 0 THEN 'debit' ELSE 'credit' END)
+) AS postings (account, user_id, direction);
+
+-- The wallet functions, unchanged except that money moves through
+-- post_wallet_entry instead of updating profiles.balance directly.
+-- add_to_balance has no callers left in the app; it stays for manual use by
+-- the service role and is recorded as an adjustment.
+
+CREATE OR REPLACE FUNCTION add_to_balance(user_uuid UUID, amount_to_add DECIMAL)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM post_wallet_entry(
+    user_uuid, amount_to_add, 'adjustment', 'admin_adjustments', NULL, 'add_to_balance', auth.uid()
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_to_balance(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION debit_wallet_for_purchase(
+  user_uuid UUID,
+  purchase_type TEXT,
+  purchase_amount DECIMAL,
+  purchase_reference TEXT,
+  purchase_provider TEXT,
+  purchase_recipient TEXT,
+  purchase_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  current_balance DECIMAL;
+  new_transaction transactions;
+BEGIN
+  IF purchase_amount IS NULL OR purchase_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE reference = purchase_reference) THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END IF;
+
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  IF current_balance < purchase_amount THEN
+    RAISE EXCEPTION 'INSUFFICIENT_BALANCE';
+  END IF;
+
+  BEGIN
+    INSERT INTO transactions (user_id, type, amount, status, reference, provider, recipient, details)
+    VALUES (
+      user_uuid,
+      purchase_type,
+      purchase_amount,
+      'pending',
+      purchase_reference,
+      purchase_provider,
+      purchase_recipient,
+      purchase_details
+    )
+    RETURNING * INTO new_transaction;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END;
+
+  PERFORM post_wallet_entry(
+    user_uuid, -purchase_amount, 'purchase', 'vtu_settlement', new_transaction.id,
+    purchase_type || ' purchase ' || purchase_reference
+  );
+
+  RETURN new_transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION credit_wallet_funding(
+  funding_reference TEXT,
+  payment JSONB
+)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  funding transactions;
+  expected_currency TEXT;
+  failures JSONB := '[]'::jsonb;
+  verification JSONB;
+BEGIN
+  SELECT * INTO funding
+  FROM transactions
+  WHERE reference = funding_reference AND type = 'wallet'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('outcome', 'not_found');
+  END IF;
+
+  IF funding.status <> 'pending' THEN
+    RETURN jsonb_build_object('outcome', 'already_processed', 'transaction', to_jsonb(funding));
+  END IF;
+
+  expected_currency := COALESCE(funding.details->>'currency', 'NGN');
+
+  IF payment->>'status' IS DISTINCT FROM 'success' THEN
+    failures := failures || jsonb_build_object(
+      'check', 'status', 'expected', 'success', 'received', payment->>'status');
+  END IF;
+
+  IF payment->>'reference' IS DISTINCT FROM funding_reference THEN
+    failures := failures || jsonb_build_object(
+      'check', 'reference', 'expected', funding_reference, 'received', payment->>'reference');
+  END IF;
+
+  -- Paystack amounts are in kobo
+  IF (payment->>'amount')::numeric IS DISTINCT FROM round(funding.amount * 100) THEN
+    failures := failures || jsonb_build_object(
+      'check', 'amount', 'expected', round(funding.amount * 100), 'received', payment->'amount');
+  END IF;
+
+  IF upper(payment->>'currency') IS DISTINCT FROM expected_currency THEN
+    failures := failures || jsonb_build_object(
+      'check', 'currency', 'expected', expected_currency, 'received', payment->>'currency');
+  END IF;
+
+  verification := jsonb_build_object(
+    'result', CASE WHEN jsonb_array_length(failures) = 0 THEN 'passed' ELSE 'rejected' END,
+    'failures', failures,
+    'checked_at', now()
+  );
+
+  IF jsonb_array_length(failures) > 0 THEN
+    -- A payment Paystack hasn't finished yet can still succeed, so only the
+    -- final outcomes and amount/currency mismatches close the funding
+    UPDATE transactions
+    SET status = CASE
+          WHEN jsonb_array_length(failures) = 1
+           AND failures->0->>'check' = 'status'
+           AND payment->>'status' IN ('ongoing', 'pending', 'processing', 'queued', 'abandoned')
+          THEN 'pending'
+          ELSE 'failed'
+        END,
+        details = COALESCE(details, '{}'::jsonb)
+          || jsonb_build_object('paystack_response', payment, 'verification', verification)
+    WHERE id = funding.id
+    RETURNING * INTO funding;
+
+    RETURN jsonb_build_object(
+      'outcome', 'rejected',
+      'failures', failures,
+      'transaction', to_jsonb(funding)
+    );
+  END IF;
+
+  UPDATE transactions
+  SET status = 'success',
+      details = COALESCE(details, '{}'::jsonb)
+        || jsonb_build_object('paystack_response', payment, 'verification', verification)
+  WHERE id = funding.id
+  RETURNING * INTO funding;
+
+  -- Always the owner of the funding, never whoever asked for verification
+  PERFORM post_wallet_entry(
+    funding.user_id, funding.amount, 'funding', 'paystack_clearing', funding.id,
+    'Wallet funding ' || funding.reference
+  );
+
+  RETURN jsonb_build_object('outcome', 'credited', 'transaction', to_jsonb(funding));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reverse_transaction(
+  original_id UUID,
+  reversal_reason TEXT,
+  initiated_by UUID DEFAULT NULL
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  original transactions;
+  reversal transactions;
+BEGIN
+  SELECT * INTO original
+  FROM transactions
+  WHERE id = original_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+
+  IF original.type NOT IN ('airtime', 'data', 'electricity', 'cable') THEN
+    RAISE EXCEPTION 'NOT_REVERSIBLE';
+  END IF;
+
+  IF original.status = 'reversed' THEN
+    RAISE EXCEPTION 'ALREADY_REVERSED';
+  END IF;
+
+  INSERT INTO transactions (user_id, type, amount, status, reference, provider, recipient, details)
+  VALUES (
+    original.user_id,
+    'reversal',
+    original.amount,
+    'success',
+    original.reference || '-REV',
+    original.provider,
+    original.recipient,
+    jsonb_build_object(
+      'original_transaction_id', original.id,
+      'original_reference', original.reference,
+      'original_type', original.type,
+      'original_status', original.status,
+      'reason', reversal_reason,
+      'initiated_by', initiated_by
+    )
+  )
+  RETURNING * INTO reversal;
+
+  PERFORM post_wallet_entry(
+    original.user_id, original.amount, 'reversal', 'vtu_settlement', reversal.id,
+    reversal_reason, initiated_by
+  );
+
+  UPDATE transactions
+  SET status = 'reversed',
+      details = COALESCE(details, '{}'::jsonb) || jsonb_build_object(
+        'reversal', jsonb_build_object(
+          'transaction_id', reversal.id,
+          'reference', reversal.reference,
+          'reason', reversal_reason,
+          'initiated_by', initiated_by,
+          'reversed_at', now()
+        )
+      )
+  WHERE id = original.id;
+
+  RETURN reversal;
+END;
+$$;
+
+-- Manual balance correction by an admin, e.g. after a provider refund that
+-- happened outside the app. Positive amounts credit the wallet.
+CREATE OR REPLACE FUNCTION admin_adjust_balance(user_uuid UUID, amount DECIMAL, reason TEXT)
+RETURNS UUID LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  RETURN post_wallet_entry(user_uuid, amount, 'adjustment', 'admin_adjustments', NULL, reason, auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_adjust_balance(UUID, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_adjust_balance(UUID, DECIMAL, TEXT) TO authenticated;
+
+-- Every wallet whose stored balance differs from its ledger sum
+CREATE OR REPLACE FUNCTION reconcile_wallets()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  name TEXT,
+  stored_balance DECIMAL,
+  ledger_balance DECIMAL,
+  difference DECIMAL
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email,
+    p.name,
+    p.balance,
+    COALESCE(l.balance, 0),
+    p.balance - COALESCE(l.balance, 0)
+  FROM profiles p
+  LEFT JOIN (
+    SELECT
+      ledger_entries.user_id,
+      sum(CASE WHEN direction = 'credit' THEN amount ELSE -amount END) AS balance
+    FROM ledger_entries
+    WHERE account LIKE 'wallet:%'
+    GROUP BY ledger_entries.user_id
+  ) l ON l.user_id = p.id
+  WHERE p.balance IS DISTINCT FROM COALESCE(l.balance, 0)
+  ORDER BY abs(p.balance - COALESCE(l.balance, 0)) DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reconcile_wallets() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reconcile_wallets() TO authenticated;
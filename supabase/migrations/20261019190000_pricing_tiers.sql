@@ -0,0 +1,122 @@
+-- Customer pricing tiers. The Pricing page is rendered from this table and
+-- the purchase functions price every order with price_purchase, so what we
+-- advertise and what we charge come from the same rows.
+--
+-- The fee for a purchase is <service>_fee_percent of the face value plus
+-- <service>_fee_flat, and the wallet is debited face value + fee.
+-- monthly_limit is NULL for unlimited.
+CREATE TABLE IF NOT EXISTS pricing_tiers (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  features TEXT[] NOT NULL DEFAULT '{}',
+  highlighted BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  airtime_fee_percent DECIMAL NOT NULL DEFAULT 0 CHECK (airtime_fee_percent >= 0),
+  airtime_fee_flat DECIMAL NOT NULL DEFAULT 0 CHECK (airtime_fee_flat >= 0),
+  data_fee_percent DECIMAL NOT NULL DEFAULT 0 CHECK (data_fee_percent >= 0),
+  data_fee_flat DECIMAL NOT NULL DEFAULT 0 CHECK (data_fee_flat >= 0),
+  electricity_fee_percent DECIMAL NOT NULL DEFAULT 0 CHECK (electricity_fee_percent >= 0),
+  electricity_fee_flat DECIMAL NOT NULL DEFAULT 0 CHECK (electricity_fee_flat >= 0),
+  cable_fee_percent DECIMAL NOT NULL DEFAULT 0 CHECK (cable_fee_percent >= 0),
+  cable_fee_flat DECIMAL NOT NULL DEFAULT 0 CHECK (cable_fee_flat >= 0),
+  monthly_limit DECIMAL CHECK (monthly_limit > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE pricing_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Pricing tiers are public"
+  ON pricing_tiers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage pricing tiers"
+  ON pricing_tiers FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+INSERT INTO pricing_tiers (
+  code, name, description, features, highlighted, sort_order,
+  airtime_fee_percent, data_fee_flat, electricity_fee_flat, cable_fee_flat, monthly_limit
+)
+VALUES
+  (
+    'basic', 'Basic', 'Perfect for occasional users',
+    ARRAY['All services available', 'Regular transaction fees', 'Standard customer support', 'Normal transaction processing speed'],
+    false, 1,
+    0.5, 50, 100, 100, 50000
+  ),
+  (
+    'standard', 'Standard', 'Ideal for regular users',
+    ARRAY['All services available', 'Reduced transaction fees', 'Priority customer support', 'Faster transaction processing'],
+    true, 2,
+    0.3, 25, 50, 50, 500000
+  ),
+  (
+    'premium', 'Premium', 'For high-volume users',
+    ARRAY['All services available', 'Minimal to no transaction fees', '24/7 dedicated customer support', 'Instant transaction processing'],
+    false, 3,
+    0, 0, 25, 25, NULL
+  )
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS pricing_tier TEXT NOT NULL DEFAULT 'basic' REFERENCES pricing_tiers (code);
+
+-- Price a purchase for a customer at their current tier. Returns
+-- { tier, face_amount, fee, charged_amount }.
+CREATE OR REPLACE FUNCTION price_purchase(
+  user_uuid UUID,
+  purchase_type TEXT,
+  face_amount DECIMAL
+)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  tier pricing_tiers;
+  fee_percent DECIMAL;
+  fee_flat DECIMAL;
+  fee DECIMAL;
+BEGIN
+  IF face_amount IS NULL OR face_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT pricing_tiers.* INTO tier
+  FROM profiles
+  JOIN pricing_tiers ON pricing_tiers.code = profiles.pricing_tier
+  WHERE profiles.id = user_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  CASE purchase_type
+    WHEN 'airtime' THEN
+      fee_percent := tier.airtime_fee_percent;
+      fee_flat := tier.airtime_fee_flat;
+    WHEN 'data' THEN
+      fee_percent := tier.data_fee_percent;
+      fee_flat := tier.data_fee_flat;
+    WHEN 'electricity' THEN
+      fee_percent := tier.electricity_fee_percent;
+      fee_flat := tier.electricity_fee_flat;
+    WHEN 'cable' THEN
+      fee_percent := tier.cable_fee_percent;
+      fee_flat := tier.cable_fee_flat;
+    ELSE
+      RAISE EXCEPTION 'INVALID_PURCHASE_TYPE';
+  END CASE;
+
+  fee := round(face_amount * fee_percent / 100 + fee_flat, 2);
+
+  RETURN jsonb_build_object(
+    'tier', tier.code,
+    'face_amount', face_amount,
+    'fee', fee,
+    'charged_amount', face_amount + fee
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION price_purchase(UUID, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,145 @@
+-- Daily and monthly spend limits per pricing tier. Spend is the wallet
+-- amount of purchases (airtime, data, electricity, cable) that are pending
+-- or successful; failed and reversed purchases don't count. Both windows
+-- are rolling: the last 24 hours and the last 30 days.
+ALTER TABLE pricing_tiers
+  ADD COLUMN IF NOT EXISTS daily_limit DECIMAL CHECK (daily_limit > 0);
+
+UPDATE pricing_tiers SET daily_limit = 20000 WHERE code = 'basic' AND daily_limit IS NULL;
+UPDATE pricing_tiers SET daily_limit = 100000 WHERE code = 'standard' AND daily_limit IS NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_user_id_created_at_idx
+  ON transactions (user_id, created_at);
+
+-- Returns { tier, daily: { limit, spent, remaining }, monthly: { ... } }.
+-- limit and remaining are null when the tier has no limit for the period.
+CREATE OR REPLACE FUNCTION spend_usage(user_uuid UUID)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  tier pricing_tiers;
+  spent_today DECIMAL;
+  spent_month DECIMAL;
+BEGIN
+  -- Customers may only see their own usage; the service role has no uid
+  IF auth.uid() IS NOT NULL AND auth.uid() <> user_uuid
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  SELECT pricing_tiers.* INTO tier
+  FROM profiles
+  JOIN pricing_tiers ON pricing_tiers.code = profiles.pricing_tier
+  WHERE profiles.id = user_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE created_at >= now() - INTERVAL '1 day'), 0),
+    COALESCE(sum(amount), 0)
+  INTO spent_today, spent_month
+  FROM transactions
+  WHERE user_id = user_uuid
+    AND type IN ('airtime', 'data', 'electricity', 'cable')
+    AND status IN ('pending', 'success')
+    AND created_at >= now() - INTERVAL '30 days';
+
+  RETURN jsonb_build_object(
+    'tier', tier.code,
+    'daily', jsonb_build_object(
+      'limit', tier.daily_limit,
+      'spent', spent_today,
+      'remaining', GREATEST(tier.daily_limit - spent_today, 0)
+    ),
+    'monthly', jsonb_build_object(
+      'limit', tier.monthly_limit,
+      'spent', spent_month,
+      'remaining', GREATEST(tier.monthly_limit - spent_month, 0)
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION spend_usage(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION spend_usage(UUID) TO authenticated;
+
+-- Same as before, plus the limit check. A blocked purchase raises
+-- LIMIT_EXCEEDED with the exceeded period's { limit, spent, remaining,
+-- period, tier } as the exception detail.
+CREATE OR REPLACE FUNCTION debit_wallet_for_purchase(
+  user_uuid UUID,
+  purchase_type TEXT,
+  purchase_amount DECIMAL,
+  purchase_reference TEXT,
+  purchase_provider TEXT,
+  purchase_recipient TEXT,
+  purchase_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  current_balance DECIMAL;
+  usage JSONB;
+  exceeded TEXT;
+  new_transaction transactions;
+BEGIN
+  IF purchase_amount IS NULL OR purchase_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE reference = purchase_reference) THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END IF;
+
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  IF current_balance < purchase_amount THEN
+    RAISE EXCEPTION 'INSUFFICIENT_BALANCE';
+  END IF;
+
+  -- Checked while the profile row is locked, so concurrent purchases can't
+  -- both squeeze under the limit
+  usage := spend_usage(user_uuid);
+
+  exceeded := CASE
+    WHEN (usage->'daily'->>'remaining')::DECIMAL < purchase_amount THEN 'daily'
+    WHEN (usage->'monthly'->>'remaining')::DECIMAL < purchase_amount THEN 'monthly'
+  END;
+
+  IF exceeded IS NOT NULL THEN
+    RAISE EXCEPTION 'LIMIT_EXCEEDED'
+      USING DETAIL = (usage->exceeded || jsonb_build_object('period', exceeded, 'tier', usage->'tier'))::TEXT;
+  END IF;
+
+  BEGIN
+    INSERT INTO transactions (user_id, type, amount, status, reference, provider, recipient, details)
+    VALUES (
+      user_uuid,
+      purchase_type,
+      purchase_amount,
+      'pending',
+      purchase_reference,
+      purchase_provider,
+      purchase_recipient,
+      purchase_details
+    )
+    RETURNING * INTO new_transaction;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END;
+
+  PERFORM post_wallet_entry(
+    user_uuid, -purchase_amount, 'purchase', 'vtu_settlement', new_transaction.id,
+    purchase_type || ' purchase ' || purchase_reference
+  );
+
+  RETURN new_transaction;
+END;
+$$;
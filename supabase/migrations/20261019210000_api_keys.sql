@@ -0,0 +1,92 @@
+-- API keys for the reseller API (the reseller-api edge function). Only the
+-- SHA-256 hash of a key is stored; the plain key is returned once, by
+-- create_api_key, and can't be recovered afterwards. key_prefix is kept so
+-- customers can tell their keys apart in Settings.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id, created_at DESC);
+
+-- Keys are created and revoked through the functions below; customers can
+-- list their own but never write the table directly
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys"
+  ON api_keys FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create a key for the signed-in user. Returns { id, name, key, key_prefix,
+-- created_at }; this is the only time the plain key is available.
+CREATE OR REPLACE FUNCTION create_api_key(key_name TEXT)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  plain_key TEXT;
+  new_key api_keys;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF key_name IS NULL OR length(trim(key_name)) = 0 THEN
+    RAISE EXCEPTION 'INVALID_NAME';
+  END IF;
+
+  IF (SELECT count(*) FROM api_keys WHERE user_id = auth.uid() AND revoked_at IS NULL) >= 10 THEN
+    RAISE EXCEPTION 'TOO_MANY_KEYS';
+  END IF;
+
+  -- 64 hex characters from two random UUIDs (244 random bits)
+  plain_key := 'vtu_' || replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+  VALUES (
+    auth.uid(),
+    trim(key_name),
+    left(plain_key, 12),
+    encode(sha256(convert_to(plain_key, 'UTF8')), 'hex')
+  )
+  RETURNING * INTO new_key;
+
+  RETURN jsonb_build_object(
+    'id', new_key.id,
+    'name', new_key.name,
+    'key', plain_key,
+    'key_prefix', new_key.key_prefix,
+    'created_at', new_key.created_at
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_api_key(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_api_key(TEXT) TO authenticated;
+
+-- Revoke one of the signed-in user's keys. Revoked keys stay listed so
+-- their last use remains visible.
+CREATE OR REPLACE FUNCTION revoke_api_key(key_id UUID)
+RETURNS api_keys LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  revoked api_keys;
+BEGIN
+  UPDATE api_keys
+  SET revoked_at = COALESCE(revoked_at, now())
+  WHERE id = key_id AND user_id = auth.uid()
+  RETURNING * INTO revoked;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KEY_NOT_FOUND';
+  END IF;
+
+  RETURN revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revoke_api_key(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_api_key(UUID) TO authenticated;
@@ -0,0 +1,134 @@
+-- Outbound status callbacks. An account registers one HTTPS callback URL and
+-- a signing secret; every status change on one of its transactions queues a
+-- signed JSON event in callback_deliveries, which the deliver-callbacks
+-- worker posts with retries and exponential backoff.
+CREATE TABLE IF NOT EXISTS callback_endpoints (
+  user_id UUID PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https://'),
+  secret TEXT NOT NULL CHECK (length(secret) >= 16),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE callback_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own callback endpoint"
+  ON callback_endpoints FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own callback endpoint"
+  ON callback_endpoints FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own callback endpoint"
+  ON callback_endpoints FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own callback endpoint"
+  ON callback_endpoints FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- One row per event. payload is fixed when the event is queued, so a
+-- redelivery sends exactly what the first attempt did.
+CREATE TABLE IF NOT EXISTS callback_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES transactions (id) ON DELETE SET NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  last_url TEXT,
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS callback_deliveries_due_idx
+  ON callback_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS callback_deliveries_user_id_idx
+  ON callback_deliveries (user_id, created_at DESC);
+
+-- Written only by the trigger below and the worker (service role)
+ALTER TABLE callback_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own callback deliveries"
+  ON callback_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Queue a transaction.status_changed event when the owner has an enabled
+-- endpoint. data mirrors the reseller API's view of a transaction.
+CREATE OR REPLACE FUNCTION queue_transaction_callback()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  delivery_id UUID := gen_random_uuid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM callback_endpoints WHERE user_id = NEW.user_id AND enabled
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO callback_deliveries (id, user_id, transaction_id, event, payload)
+  VALUES (
+    delivery_id,
+    NEW.user_id,
+    NEW.id,
+    'transaction.status_changed',
+    jsonb_build_object(
+      'id', delivery_id,
+      'event', 'transaction.status_changed',
+      'createdAt', now(),
+      'data', jsonb_build_object(
+        'reference', NEW.reference,
+        'type', NEW.type,
+        'status', NEW.status,
+        'previousStatus', OLD.status,
+        'amount', COALESCE((NEW.details->>'face_amount')::DECIMAL, NEW.amount),
+        'fee', COALESCE((NEW.details->>'fee')::DECIMAL, 0),
+        'charged', NEW.amount,
+        'provider', NEW.provider,
+        'recipient', NEW.recipient,
+        'token', NEW.details->>'token',
+        'error', NEW.details->>'error',
+        'createdAt', NEW.created_at
+      )
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_status_callback ON transactions;
+CREATE TRIGGER transactions_status_callback
+  AFTER UPDATE OF status ON transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION queue_transaction_callback();
+
+-- Run the worker every minute, with the same Vault secrets as
+-- requery-pending-transactions
+SELECT cron.schedule(
+  'deliver-transaction-callbacks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/deliver-callbacks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,97 @@
+-- Bulk airtime and data purchases uploaded as CSV. The bulk-purchase
+-- function validates the rows and queues a batch; its scheduled run then
+-- buys each item through the same code as buy-airtime / buy-data, so every
+-- row is priced, limited and refunded like a single purchase.
+CREATE TABLE IF NOT EXISTS bulk_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  file_name TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed')),
+  total_items INTEGER NOT NULL CHECK (total_items > 0),
+  -- Face value plus fees at the tier the batch was quoted at
+  total_amount DECIMAL NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS bulk_purchases_user_id_idx ON bulk_purchases (user_id, created_at DESC);
+
+-- status follows the item's transaction once it has one: pending, success,
+-- failed or reversed. queued and processing are before the purchase ran.
+CREATE TABLE IF NOT EXISTS bulk_purchase_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES bulk_purchases (id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  service TEXT NOT NULL CHECK (service IN ('airtime', 'data')),
+  network TEXT NOT NULL,
+  phone_number TEXT NOT NULL,
+  amount DECIMAL NOT NULL CHECK (amount > 0),
+  plan_id UUID REFERENCES data_plans (id),
+  plan_code TEXT,
+  reference TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'pending', 'success', 'failed', 'reversed')),
+  message TEXT,
+  processed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS bulk_purchase_items_open_idx
+  ON bulk_purchase_items (updated_at)
+  WHERE status IN ('queued', 'processing');
+
+-- Written only by the bulk-purchase function (service role)
+ALTER TABLE bulk_purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bulk_purchase_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bulk purchases"
+  ON bulk_purchases FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own bulk purchase items"
+  ON bulk_purchase_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM bulk_purchases WHERE bulk_purchases.id = batch_id AND bulk_purchases.user_id = auth.uid()
+  ));
+
+-- Keep an item's status in step with its transaction when the requery
+-- worker or a reversal settles it later
+CREATE OR REPLACE FUNCTION sync_bulk_purchase_item()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  UPDATE bulk_purchase_items
+  SET status = NEW.status,
+      message = COALESCE(NEW.details->>'error', message),
+      updated_at = now()
+  WHERE reference = NEW.reference
+    AND status NOT IN ('queued', 'processing');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_bulk_purchase_sync ON transactions;
+CREATE TRIGGER transactions_bulk_purchase_sync
+  AFTER UPDATE OF status ON transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.reference LIKE 'BULK-%')
+  EXECUTE FUNCTION sync_bulk_purchase_item();
+
+-- Work through queued items every minute, with the same Vault secrets as
+-- requery-pending-transactions
+SELECT cron.schedule(
+  'process-bulk-purchases',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/bulk-purchase',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
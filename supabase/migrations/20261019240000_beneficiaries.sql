@@ -0,0 +1,37 @@
+-- Saved phone numbers, meters and smart cards for the purchase forms.
+-- 'phone' beneficiaries serve both airtime and data. customer_name is the
+-- name the provider last returned for a meter or smart card; verify-customer
+-- refreshes it on every lookup.
+CREATE TABLE IF NOT EXISTS beneficiaries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  nickname TEXT NOT NULL CHECK (length(trim(nickname)) > 0),
+  service TEXT NOT NULL CHECK (service IN ('phone', 'electricity', 'cable')),
+  identifier TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  meter_type TEXT CHECK (meter_type IN ('prepaid', 'postpaid')),
+  customer_name TEXT,
+  verified_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, service, provider, identifier)
+);
+
+ALTER TABLE beneficiaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own beneficiaries"
+  ON beneficiaries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own beneficiaries"
+  ON beneficiaries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own beneficiaries"
+  ON beneficiaries FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own beneficiaries"
+  ON beneficiaries FOR DELETE
+  USING (auth.uid() = user_id);
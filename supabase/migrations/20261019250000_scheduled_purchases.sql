@@ -0,0 +1,183 @@
+-- Recurring purchases ("₦1,000 airtime every Monday", "renew this bouquet on
+-- the 1st"). The scheduled-purchases function runs each due schedule through
+-- the same code as the purchase endpoints, then moves it to its next run.
+-- Times are Nigerian local time.
+CREATE TABLE IF NOT EXISTS scheduled_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  service TEXT NOT NULL CHECK (service IN ('airtime', 'data', 'electricity', 'cable')),
+  -- Network, disco or cable provider code
+  provider TEXT NOT NULL,
+  -- Phone number, meter number or smart card number
+  recipient TEXT NOT NULL,
+  -- Face value for airtime and electricity; data and cable are priced by
+  -- their plan or package at run time
+  amount DECIMAL CHECK (amount > 0),
+  plan_id UUID REFERENCES data_plans (id) ON DELETE CASCADE,
+  package_id UUID REFERENCES cable_packages (id) ON DELETE CASCADE,
+  meter_type TEXT CHECK (meter_type IN ('prepaid', 'postpaid')),
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  -- 0 = Sunday, for weekly schedules
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6),
+  -- Capped at 28 so every month has the day
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 28),
+  time_of_day TIME NOT NULL DEFAULT '08:00',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_status TEXT,
+  last_message TEXT,
+  last_reference TEXT,
+  -- Consecutive failed runs; the schedule pauses itself after a few
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (service NOT IN ('airtime', 'electricity') OR amount IS NOT NULL),
+  CHECK (service <> 'data' OR plan_id IS NOT NULL),
+  CHECK (service <> 'cable' OR package_id IS NOT NULL),
+  CHECK (frequency <> 'weekly' OR day_of_week IS NOT NULL),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_purchases_due_idx
+  ON scheduled_purchases (next_run_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS scheduled_purchases_user_id_idx ON scheduled_purchases (user_id, created_at DESC);
+
+ALTER TABLE scheduled_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scheduled purchases"
+  ON scheduled_purchases FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scheduled purchases"
+  ON scheduled_purchases FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scheduled purchases"
+  ON scheduled_purchases FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- The first run strictly after a moment, in Africa/Lagos time
+CREATE OR REPLACE FUNCTION next_scheduled_run(
+  frequency TEXT,
+  day_of_week INTEGER,
+  day_of_month INTEGER,
+  time_of_day TIME,
+  after_time TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  local_after TIMESTAMP := after_time AT TIME ZONE 'Africa/Lagos';
+  candidate TIMESTAMP;
+BEGIN
+  IF frequency = 'daily' THEN
+    candidate := date_trunc('day', local_after) + time_of_day;
+    IF candidate <= local_after THEN
+      candidate := candidate + INTERVAL '1 day';
+    END IF;
+  ELSIF frequency = 'weekly' THEN
+    candidate := date_trunc('day', local_after) + time_of_day
+      + ((day_of_week - EXTRACT(DOW FROM local_after)::INTEGER + 7) % 7) * INTERVAL '1 day';
+    IF candidate <= local_after THEN
+      candidate := candidate + INTERVAL '7 days';
+    END IF;
+  ELSE
+    candidate := date_trunc('month', local_after) + (day_of_month - 1) * INTERVAL '1 day' + time_of_day;
+    IF candidate <= local_after THEN
+      candidate := date_trunc('month', local_after) + INTERVAL '1 month'
+        + (day_of_month - 1) * INTERVAL '1 day' + time_of_day;
+    END IF;
+  END IF;
+
+  RETURN candidate AT TIME ZONE 'Africa/Lagos';
+END;
+$$;
+
+-- next_run_at is only ever set here: when a schedule is created, when its
+-- timing changes or it is resumed, and when a run claims it (last_run_at
+-- moves). Any other write keeps the old value, so customers cannot pull a
+-- run forward by editing the row.
+CREATE OR REPLACE FUNCTION set_scheduled_purchase_next_run()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'SCHEDULE_CANCELLED';
+  END IF;
+
+  IF NEW.status <> 'active' THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR OLD.status <> 'active'
+    OR NEW.last_run_at IS DISTINCT FROM OLD.last_run_at
+    OR (NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.time_of_day)
+      IS DISTINCT FROM (OLD.frequency, OLD.day_of_week, OLD.day_of_month, OLD.time_of_day)
+  THEN
+    NEW.next_run_at := next_scheduled_run(
+      NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.time_of_day, now()
+    );
+  ELSE
+    NEW.next_run_at := OLD.next_run_at;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS scheduled_purchases_next_run ON scheduled_purchases;
+CREATE TRIGGER scheduled_purchases_next_run
+  BEFORE INSERT OR UPDATE ON scheduled_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION set_scheduled_purchase_next_run();
+
+-- In-app notices shown in the dashboard header, written by background jobs
+-- (service role). Customers can only read them and mark them read.
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  -- Dashboard path to open from the notification
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications (user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Run due schedules every minute, with the same Vault secrets as
+-- requery-pending-transactions
+SELECT cron.schedule(
+  'run-scheduled-purchases',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/scheduled-purchases',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
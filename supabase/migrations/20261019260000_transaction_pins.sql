@@ -0,0 +1,180 @@
+-- 4-digit transaction PINs that authorise wallet spends made from a signed-in
+-- session. Only a salted SHA-256 of the PIN is kept. Five wrong PINs in a
+-- row lock it for 30 minutes. Nobody can read the table directly: customers
+-- go through set_transaction_pin / transaction_pin_status, and the purchase
+-- functions through check_transaction_pin.
+CREATE TABLE IF NOT EXISTS transaction_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE transaction_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION hash_transaction_pin(pin TEXT, salt TEXT)
+RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT encode(sha256(convert_to(salt || ':' || pin, 'UTF8')), 'hex');
+$$;
+
+REVOKE EXECUTE ON FUNCTION hash_transaction_pin(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Set the signed-in user's PIN. Setting the first one needs nothing more;
+-- replacing an existing one (a change, or a reset after a lockout) needs a
+-- session that signed in with its password in the last five minutes, so
+-- the client re-authenticates first. Raises INVALID_PIN,
+-- RECENT_LOGIN_REQUIRED or NOT_AUTHORIZED.
+CREATE OR REPLACE FUNCTION set_transaction_pin(new_pin TEXT)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  new_salt TEXT := replace(gen_random_uuid()::TEXT, '-', '');
+  signed_in_at BIGINT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF new_pin IS NULL OR new_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'INVALID_PIN';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transaction_pins WHERE user_id = auth.uid()) THEN
+    SELECT max((method->>'timestamp')::BIGINT) INTO signed_in_at
+    FROM jsonb_array_elements(COALESCE(auth.jwt()->'amr', '[]'::JSONB)) AS method
+    WHERE method->>'method' = 'password';
+
+    IF signed_in_at IS NULL OR signed_in_at < extract(epoch FROM now()) - 300 THEN
+      RAISE EXCEPTION 'RECENT_LOGIN_REQUIRED';
+    END IF;
+  END IF;
+
+  INSERT INTO transaction_pins (user_id, pin_hash, salt)
+  VALUES (auth.uid(), hash_transaction_pin(new_pin, new_salt), new_salt)
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash,
+      salt = EXCLUDED.salt,
+      failed_attempts = 0,
+      locked_until = NULL,
+      updated_at = now();
+
+  RETURN transaction_pin_status();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_transaction_pin(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_transaction_pin(TEXT) TO authenticated;
+
+-- { is_set, locked_until } for the signed-in user
+CREATE OR REPLACE FUNCTION transaction_pin_status()
+RETURNS JSONB LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT jsonb_build_object(
+    'is_set', EXISTS (SELECT 1 FROM transaction_pins WHERE user_id = auth.uid()),
+    'locked_until', (
+      SELECT locked_until FROM transaction_pins
+      WHERE user_id = auth.uid() AND locked_until > now()
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION transaction_pin_status() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transaction_pin_status() TO authenticated;
+
+-- Check a PIN for a purchase. Returns { valid, code, attempts_remaining,
+-- locked_until } rather than raising, so a wrong attempt is still counted.
+-- code is PIN_NOT_SET, PIN_LOCKED or INVALID_PIN when valid is false.
+CREATE OR REPLACE FUNCTION check_transaction_pin(user_uuid UUID, pin TEXT)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+  stored transaction_pins;
+BEGIN
+  SELECT * INTO stored FROM transaction_pins WHERE user_id = user_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'code', 'PIN_NOT_SET');
+  END IF;
+
+  IF stored.locked_until > now() THEN
+    RETURN jsonb_build_object('valid', false, 'code', 'PIN_LOCKED', 'locked_until', stored.locked_until);
+  END IF;
+
+  IF pin IS NOT NULL AND hash_transaction_pin(pin, stored.salt) = stored.pin_hash THEN
+    IF stored.failed_attempts > 0 OR stored.locked_until IS NOT NULL THEN
+      UPDATE transaction_pins
+      SET failed_attempts = 0, locked_until = NULL, updated_at = now()
+      WHERE user_id = user_uuid;
+    END IF;
+
+    RETURN jsonb_build_object('valid', true);
+  END IF;
+
+  IF stored.failed_attempts + 1 >= max_attempts THEN
+    UPDATE transaction_pins
+    SET failed_attempts = 0, locked_until = now() + INTERVAL '30 minutes', updated_at = now()
+    WHERE user_id = user_uuid
+    RETURNING * INTO stored;
+
+    RETURN jsonb_build_object('valid', false, 'code', 'PIN_LOCKED', 'locked_until', stored.locked_until);
+  END IF;
+
+  UPDATE transaction_pins
+  SET failed_attempts = failed_attempts + 1, updated_at = now()
+  WHERE user_id = user_uuid
+  RETURNING * INTO stored;
+
+  RETURN jsonb_build_object(
+    'valid', false,
+    'code', 'INVALID_PIN',
+    'attempts_remaining', max_attempts - stored.failed_attempts
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_transaction_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Scheduled purchases spend without anyone present, so they are now created
+-- through the scheduled-purchases function, which asks for the PIN.
+-- Customers can still pause, resume and cancel their own, but can't point
+-- an existing schedule somewhere else.
+DROP POLICY IF EXISTS "Users can create their own scheduled purchases" ON scheduled_purchases;
+
+REVOKE INSERT, UPDATE ON scheduled_purchases FROM anon, authenticated;
+GRANT UPDATE (status) ON scheduled_purchases TO authenticated;
+
+-- As before, plus a resumed schedule starts with a clean failure count
+CREATE OR REPLACE FUNCTION set_scheduled_purchase_next_run()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'SCHEDULE_CANCELLED';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'paused' AND NEW.status = 'active' THEN
+    NEW.failure_count := 0;
+  END IF;
+
+  IF NEW.status <> 'active' THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR OLD.status <> 'active'
+    OR NEW.last_run_at IS DISTINCT FROM OLD.last_run_at
+    OR (NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.time_of_day)
+      IS DISTINCT FROM (OLD.frequency, OLD.day_of_week, OLD.day_of_month, OLD.time_of_day)
+  THEN
+    NEW.next_run_at := next_scheduled_run(
+      NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.time_of_day, now()
+    );
+  ELSE
+    NEW.next_run_at := OLD.next_run_at;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,89 @@
+-- One-time recovery codes for accounts with TOTP two-factor authentication
+-- (Supabase Auth MFA). Ten are issued at a time and only their SHA-256 hash
+-- is kept; the plain codes are returned once, by
+-- generate_mfa_recovery_codes. Redeeming one (the mfa-recovery edge
+-- function) removes the account's authenticator so the owner can sign in
+-- and enrol a new one.
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+-- Only reachable through the functions below
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION hash_mfa_recovery_code(code TEXT)
+RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT encode(sha256(convert_to(upper(replace(trim(code), '-', '')), 'UTF8')), 'hex');
+$$;
+
+REVOKE EXECUTE ON FUNCTION hash_mfa_recovery_code(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Replace the signed-in user's recovery codes with ten new ones, returned as
+-- a JSON array of XXXX-XXXX-XXXX strings. Needs a session that has passed
+-- its second factor (aal2), so a stolen password alone can't mint codes.
+-- Raises NOT_AUTHORIZED or MFA_REQUIRED.
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  codes JSONB := '[]'::JSONB;
+  plain_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'MFA_REQUIRED';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    -- 12 hex characters (48 random bits) from a random UUID
+    plain_code := upper(left(replace(gen_random_uuid()::TEXT, '-', ''), 12));
+    plain_code := substr(plain_code, 1, 4) || '-' || substr(plain_code, 5, 4) || '-' || substr(plain_code, 9, 4);
+
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), hash_mfa_recovery_code(plain_code));
+
+    codes := codes || to_jsonb(plain_code);
+  END LOOP;
+
+  RETURN codes;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_mfa_recovery_codes() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_mfa_recovery_codes() TO authenticated;
+
+-- How many unused recovery codes the signed-in user has left
+CREATE OR REPLACE FUNCTION mfa_recovery_codes_remaining()
+RETURNS INTEGER LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT count(*)::INTEGER FROM mfa_recovery_codes
+  WHERE user_id = auth.uid() AND used_at IS NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mfa_recovery_codes_remaining() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mfa_recovery_codes_remaining() TO authenticated;
+
+-- Mark one of a user's unused codes as used. Returns false when the code
+-- doesn't match any of them. Called by the mfa-recovery function only.
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(user_uuid UUID, code TEXT)
+RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  UPDATE mfa_recovery_codes
+  SET used_at = now()
+  WHERE user_id = user_uuid
+    AND code_hash = hash_mfa_recovery_code(code)
+    AND used_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_mfa_recovery_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
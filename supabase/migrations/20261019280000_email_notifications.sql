@@ -0,0 +1,188 @@
+-- Transactional email. Customers choose what they receive with the switches
+-- on the Settings page, stored on their profile:
+--   email_notifications  every email below; off means no email at all
+--   transaction_alerts   wallet funded, purchase succeeded / failed and
+--                        electricity tokens
+--   marketing_emails     promotions (nothing is sent for it here yet)
+-- Triggers queue an email in email_outbox when a transaction settles or the
+-- wallet drops below the low-balance threshold; the send-emails worker
+-- renders the template and sends it through the configured transport.
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS email_notifications BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS transaction_alerts BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS marketing_emails BOOLEAN NOT NULL DEFAULT false;
+
+-- One row per email. data holds everything the template needs, fixed when
+-- the email is queued.
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES transactions (id) ON DELETE SET NULL,
+  template TEXT NOT NULL CHECK (template IN (
+    'wallet_funded', 'purchase_succeeded', 'purchase_failed', 'electricity_token', 'low_balance'
+  )),
+  recipient TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx
+  ON email_outbox (next_attempt_at)
+  WHERE status = 'pending';
+
+-- Written only by the triggers below and the worker (service role)
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- The signed-in user's { email_notifications, transaction_alerts,
+-- marketing_emails }
+CREATE OR REPLACE FUNCTION notification_preferences()
+RETURNS JSONB LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT jsonb_build_object(
+    'email_notifications', email_notifications,
+    'transaction_alerts', transaction_alerts,
+    'marketing_emails', marketing_emails
+  )
+  FROM profiles
+  WHERE id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION notification_preferences() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION notification_preferences() TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_notification_preferences(
+  email_notifications BOOLEAN,
+  transaction_alerts BOOLEAN,
+  marketing_emails BOOLEAN
+)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  UPDATE profiles
+  SET email_notifications = COALESCE(update_notification_preferences.email_notifications, profiles.email_notifications),
+      transaction_alerts = COALESCE(update_notification_preferences.transaction_alerts, profiles.transaction_alerts),
+      marketing_emails = COALESCE(update_notification_preferences.marketing_emails, profiles.marketing_emails),
+      updated_at = now()
+  WHERE id = auth.uid();
+
+  RETURN notification_preferences();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_notification_preferences(BOOLEAN, BOOLEAN, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION update_notification_preferences(BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+
+-- Queue an email for a settled transaction if the owner wants it:
+-- wallet fundings that succeed, purchases that succeed (electricity ones
+-- with a token get the token email instead) and purchases that fail
+CREATE OR REPLACE FUNCTION queue_transaction_email()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  owner profiles;
+  email_template TEXT;
+BEGIN
+  IF NEW.type = 'wallet' AND NEW.status = 'success' THEN
+    email_template := 'wallet_funded';
+  ELSIF NEW.type IN ('airtime', 'data', 'electricity', 'cable') AND NEW.status = 'success' THEN
+    email_template := CASE
+      WHEN NEW.type = 'electricity' AND NEW.details->>'token' IS NOT NULL THEN 'electricity_token'
+      ELSE 'purchase_succeeded'
+    END;
+  ELSIF NEW.type IN ('airtime', 'data', 'electricity', 'cable') AND NEW.status = 'failed' THEN
+    email_template := 'purchase_failed';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO owner FROM profiles WHERE id = NEW.user_id;
+
+  IF NOT FOUND OR NOT owner.email_notifications OR NOT owner.transaction_alerts THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO email_outbox (user_id, transaction_id, template, recipient, data)
+  VALUES (
+    NEW.user_id,
+    NEW.id,
+    email_template,
+    owner.email,
+    jsonb_build_object(
+      'name', owner.name,
+      'type', NEW.type,
+      'reference', NEW.reference,
+      'amount', COALESCE((NEW.details->>'face_amount')::DECIMAL, NEW.amount),
+      'fee', COALESCE((NEW.details->>'fee')::DECIMAL, 0),
+      'charged', NEW.amount,
+      'provider', COALESCE(NEW.details->>'provider_name', NEW.provider),
+      'recipient', NEW.recipient,
+      'token', NEW.details->>'token',
+      'error', NEW.details->>'error',
+      'date', now()
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_status_email ON transactions;
+CREATE TRIGGER transactions_status_email
+  AFTER UPDATE OF status ON transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION queue_transaction_email();
+
+-- Queue a low balance email when a wallet drops below ₦1,000. Only the drop
+-- itself counts, so a customer isn't emailed on every purchase while low.
+CREATE OR REPLACE FUNCTION queue_low_balance_email()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  threshold CONSTANT DECIMAL := 1000;
+BEGIN
+  IF OLD.balance < threshold OR NEW.balance >= threshold OR NOT NEW.email_notifications THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO email_outbox (user_id, template, recipient, data)
+  VALUES (
+    NEW.id,
+    'low_balance',
+    NEW.email,
+    jsonb_build_object('name', NEW.name, 'balance', NEW.balance, 'threshold', threshold, 'date', now())
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_low_balance_email ON profiles;
+CREATE TRIGGER profiles_low_balance_email
+  AFTER UPDATE OF balance ON profiles
+  FOR EACH ROW
+  WHEN (OLD.balance IS DISTINCT FROM NEW.balance)
+  EXECUTE FUNCTION queue_low_balance_email();
+
+-- Run the worker every minute, with the same Vault secrets as the other
+-- scheduled functions
+SELECT cron.schedule(
+  'send-notification-emails',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
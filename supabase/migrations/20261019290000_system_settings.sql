@@ -0,0 +1,119 @@
+-- Site-wide settings from the System Settings tab of the admin settings
+-- page. One row per key; each key has a fixed type, checked by
+-- system_setting_is_valid:
+--   site_name         text, 1-60 characters
+--   maintenance_mode  boolean
+--   default_currency  NGN, USD, EUR or GBP
+--   date_format       DD/MM/YYYY, MM/DD/YYYY or YYYY-MM-DD
+-- Everyone (signed in or not) reads them through get_system_settings;
+-- only admins change them, through admin_update_system_settings.
+CREATE OR REPLACE FUNCTION system_setting_is_valid(setting_key TEXT, setting_value JSONB)
+RETURNS BOOLEAN LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE setting_key
+    WHEN 'site_name' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND length(btrim(setting_value #>> '{}')) BETWEEN 1 AND 60
+    WHEN 'maintenance_mode' THEN
+      jsonb_typeof(setting_value) = 'boolean'
+    WHEN 'default_currency' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND setting_value #>> '{}' IN ('NGN', 'USD', 'EUR', 'GBP')
+    WHEN 'date_format' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND setting_value #>> '{}' IN ('DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD')
+    ELSE false
+  END;
+$$;
+
+CREATE TABLE IF NOT EXISTS system_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  CONSTRAINT system_settings_value_check CHECK (system_setting_is_valid(key, value))
+);
+
+-- Only reachable through the functions below
+ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO system_settings (key, value)
+VALUES
+  ('site_name', '"BigBSubz"'),
+  ('maintenance_mode', 'false'),
+  ('default_currency', '"NGN"'),
+  ('date_format', '"DD/MM/YYYY"')
+ON CONFLICT (key) DO NOTHING;
+
+-- Every setting as one { key: value } object
+CREATE OR REPLACE FUNCTION get_system_settings()
+RETURNS JSONB LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::JSONB) FROM system_settings;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_system_settings() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_system_settings() TO anon, authenticated;
+
+-- The settings with who changed each one and when, for the admin page
+CREATE OR REPLACE FUNCTION admin_system_settings()
+RETURNS TABLE (key TEXT, value JSONB, updated_at TIMESTAMPTZ, updated_by_name TEXT)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.key, s.value, s.updated_at, p.name
+  FROM system_settings s
+  LEFT JOIN profiles p ON p.id = s.updated_by
+  ORDER BY s.key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_system_settings() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_system_settings() TO authenticated;
+
+-- Change some or all settings, e.g. { "site_name": "BigBSubz",
+-- "maintenance_mode": true }. Keys left out keep their value. Returns the
+-- full set, as get_system_settings does. Raises NOT_AUTHORIZED,
+-- UNKNOWN_SETTING or INVALID_SETTING (with the key).
+CREATE OR REPLACE FUNCTION admin_update_system_settings(changes JSONB)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  change RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF changes IS NULL OR jsonb_typeof(changes) <> 'object' THEN
+    RAISE EXCEPTION 'INVALID_SETTING';
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_each(changes) LOOP
+    IF change.key NOT IN ('site_name', 'maintenance_mode', 'default_currency', 'date_format') THEN
+      RAISE EXCEPTION 'UNKNOWN_SETTING: %', change.key;
+    END IF;
+
+    IF NOT system_setting_is_valid(change.key, change.value) THEN
+      RAISE EXCEPTION 'INVALID_SETTING: %', change.key;
+    END IF;
+
+    INSERT INTO system_settings (key, value, updated_at, updated_by)
+    VALUES (
+      change.key,
+      CASE WHEN change.key = 'site_name' THEN to_jsonb(btrim(change.value #>> '{}')) ELSE change.value END,
+      now(),
+      auth.uid()
+    )
+    ON CONFLICT (key) DO UPDATE
+    SET value = EXCLUDED.value, updated_at = now(), updated_by = auth.uid()
+    WHERE system_settings.value IS DISTINCT FROM EXCLUDED.value;
+  END LOOP;
+
+  RETURN get_system_settings();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_update_system_settings(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_update_system_settings(JSONB) TO authenticated;
@@ -0,0 +1,151 @@
+-- Maintenance mode. The maintenance_mode system setting takes the whole site
+-- down for purchases and wallet funding; service_maintenance takes down a
+-- single service (airtime, data, electricity, cable or wallet funding), or
+-- a single provider within one, while everything else keeps working. The
+-- purchase and paystack functions ask maintenance_status before any money
+-- moves and answer MAINTENANCE; the site shows a banner from the same data.
+
+-- Two more settings: when the site-wide maintenance is expected to end
+-- (an ISO timestamp, or null when unknown) and an optional note for users
+CREATE OR REPLACE FUNCTION system_setting_is_valid(setting_key TEXT, setting_value JSONB)
+RETURNS BOOLEAN LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE setting_key
+    WHEN 'site_name' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND length(btrim(setting_value #>> '{}')) BETWEEN 1 AND 60
+    WHEN 'maintenance_mode' THEN
+      jsonb_typeof(setting_value) = 'boolean'
+    WHEN 'maintenance_ends_at' THEN
+      jsonb_typeof(setting_value) = 'null'
+      OR (
+        jsonb_typeof(setting_value) = 'string'
+        AND setting_value #>> '{}' ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}'
+      )
+    WHEN 'maintenance_message' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND length(setting_value #>> '{}') <= 200
+    WHEN 'default_currency' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND setting_value #>> '{}' IN ('NGN', 'USD', 'EUR', 'GBP')
+    WHEN 'date_format' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND setting_value #>> '{}' IN ('DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD')
+    ELSE false
+  END;
+$$;
+
+INSERT INTO system_settings (key, value)
+VALUES
+  ('maintenance_ends_at', 'null'),
+  ('maintenance_message', '""')
+ON CONFLICT (key) DO NOTHING;
+
+-- As before, with the two new keys
+CREATE OR REPLACE FUNCTION admin_update_system_settings(changes JSONB)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  change RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF changes IS NULL OR jsonb_typeof(changes) <> 'object' THEN
+    RAISE EXCEPTION 'INVALID_SETTING';
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_each(changes) LOOP
+    IF change.key NOT IN (
+      'site_name', 'maintenance_mode', 'maintenance_ends_at', 'maintenance_message', 'default_currency', 'date_format'
+    ) THEN
+      RAISE EXCEPTION 'UNKNOWN_SETTING: %', change.key;
+    END IF;
+
+    IF NOT system_setting_is_valid(change.key, change.value) THEN
+      RAISE EXCEPTION 'INVALID_SETTING: %', change.key;
+    END IF;
+
+    INSERT INTO system_settings (key, value, updated_at, updated_by)
+    VALUES (
+      change.key,
+      CASE WHEN change.key = 'site_name' THEN to_jsonb(btrim(change.value #>> '{}')) ELSE change.value END,
+      now(),
+      auth.uid()
+    )
+    ON CONFLICT (key) DO UPDATE
+    SET value = EXCLUDED.value, updated_at = now(), updated_by = auth.uid()
+    WHERE system_settings.value IS DISTINCT FROM EXCLUDED.value;
+  END LOOP;
+
+  RETURN get_system_settings();
+END;
+$$;
+
+-- provider is a provider code (mtn, ikeja-electric, dstv, ...) or NULL for
+-- the whole service
+CREATE TABLE IF NOT EXISTS service_maintenance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service TEXT NOT NULL CHECK (service IN ('airtime', 'data', 'electricity', 'cable', 'wallet')),
+  provider TEXT,
+  message TEXT CHECK (length(message) <= 200),
+  ends_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS service_maintenance_scope_idx
+  ON service_maintenance (service, COALESCE(provider, ''));
+
+ALTER TABLE service_maintenance ENABLE ROW LEVEL SECURITY;
+
+-- Public, so purchase pages can say a provider is unavailable
+CREATE POLICY "Anyone can view service maintenance"
+  ON service_maintenance FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage service maintenance"
+  ON service_maintenance FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Whether a service (and optionally one of its providers) is under
+-- maintenance. Returns { active, scope, ends_at, message } where scope is
+-- 'site', 'service' or 'provider', the widest one that applies.
+CREATE OR REPLACE FUNCTION maintenance_status(service_name TEXT, provider_code TEXT DEFAULT NULL)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  settings JSONB := get_system_settings();
+  entry service_maintenance;
+BEGIN
+  IF (settings->>'maintenance_mode')::BOOLEAN THEN
+    RETURN jsonb_build_object(
+      'active', true,
+      'scope', 'site',
+      'ends_at', NULLIF(settings->>'maintenance_ends_at', ''),
+      'message', NULLIF(settings->>'maintenance_message', '')
+    );
+  END IF;
+
+  SELECT * INTO entry
+  FROM service_maintenance
+  WHERE service = service_name
+    AND (provider IS NULL OR provider = lower(provider_code))
+  ORDER BY provider NULLS FIRST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('active', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'active', true,
+    'scope', CASE WHEN entry.provider IS NULL THEN 'service' ELSE 'provider' END,
+    'provider', entry.provider,
+    'ends_at', entry.ends_at,
+    'message', entry.message
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION maintenance_status(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION maintenance_status(TEXT, TEXT) TO anon, authenticated;
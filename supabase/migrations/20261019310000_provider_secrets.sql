@@ -0,0 +1,26 @@
+-- Provider credentials (Paystack, Monnify, VTPass, ClubKonnect) saved from
+-- the API tab of the admin settings page. Values are encrypted by the
+-- provider-secrets edge function with AES-256-GCM under PROVIDER_SECRETS_KEY,
+-- which only the edge functions hold; this table sees ciphertext, the IV and
+-- the last four characters for display. A credential with no row here falls
+-- back to the edge function env var of the same name.
+CREATE TABLE IF NOT EXISTS provider_secrets (
+  name TEXT PRIMARY KEY CHECK (name IN (
+    'PAYSTACK_SECRET_KEY',
+    'MONNIFY_API_KEY',
+    'MONNIFY_SECRET_KEY',
+    'VTPASS_API_KEY',
+    'VTPASS_SECRET_KEY',
+    'CLUBKONNECT_USER_ID',
+    'CLUBKONNECT_API_KEY'
+  )),
+  ciphertext TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  hint TEXT NOT NULL,
+  rotated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  rotated_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Service role only: the edge functions read and write it, nobody else
+ALTER TABLE provider_secrets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,249 @@
+-- Append-only record of privileged changes: who did what to which row, the
+-- values before and after, and the IP the request came from. Rows are
+-- written by triggers on the audited tables (so a change is recorded
+-- however it was made, including straight from the admin pages) and by
+-- admin_reverse_transaction and the provider-secrets function. Nothing can
+-- change or remove a row once written.
+--
+-- Actions:
+--   user.role_changed         profiles.role
+--   provider.balance_changed  api_balance on network, electricity or cable providers
+--   settings.changed          a system_settings key
+--   maintenance.started       a service_maintenance row added
+--   maintenance.ended         a service_maintenance row removed
+--   transaction.reversed      a manual reversal
+--   provider_secret.rotated   a provider credential saved
+--   provider_secret.cleared   a provider credential removed
+
+-- actor_id has no foreign key: deleting a user must not need to touch the
+-- log, and actor_name keeps who it was
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  actor_name TEXT,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  before JSONB,
+  after JSONB,
+  ip TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx ON admin_audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS admin_audit_log_action_idx ON admin_audit_log (action, created_at DESC);
+CREATE INDEX IF NOT EXISTS admin_audit_log_actor_idx ON admin_audit_log (actor_id, created_at DESC);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON admin_audit_log FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'AUDIT_LOG_APPEND_ONLY';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_truncate ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_truncate
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- The caller's IP for requests that came through the API (the first
+-- X-Forwarded-For entry), or NULL
+CREATE OR REPLACE FUNCTION request_ip()
+RETURNS TEXT LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(btrim(split_part(COALESCE(
+    NULLIF(current_setting('request.headers', true), '')::JSON->>'x-forwarded-for',
+    NULLIF(current_setting('request.headers', true), '')::JSON->>'x-real-ip',
+    ''
+  ), ',', 1)), '');
+$$;
+
+-- Append one entry. Defaults to the signed-in caller; the edge functions,
+-- which run as the service role, pass the admin and IP themselves.
+CREATE OR REPLACE FUNCTION record_admin_action(
+  action TEXT,
+  target_type TEXT,
+  target_id TEXT,
+  before JSONB,
+  after JSONB,
+  actor UUID DEFAULT NULL,
+  ip TEXT DEFAULT NULL
+)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  actor_uuid UUID := COALESCE(actor, auth.uid());
+BEGIN
+  INSERT INTO admin_audit_log (actor_id, actor_name, action, target_type, target_id, before, after, ip)
+  VALUES (
+    actor_uuid,
+    (SELECT COALESCE(p.name, p.email) FROM profiles p WHERE p.id = actor_uuid),
+    record_admin_action.action,
+    record_admin_action.target_type,
+    record_admin_action.target_id,
+    record_admin_action.before,
+    record_admin_action.after,
+    COALESCE(record_admin_action.ip, request_ip())
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_admin_action(TEXT, TEXT, TEXT, JSONB, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Role changes, from AdminUsersPage or anywhere else
+CREATE OR REPLACE FUNCTION audit_profile_role()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM record_admin_action(
+    'user.role_changed',
+    'profile',
+    NEW.id::TEXT,
+    jsonb_build_object('role', OLD.role, 'email', OLD.email),
+    jsonb_build_object('role', NEW.role, 'email', NEW.email)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_audit_role ON profiles;
+CREATE TRIGGER profiles_audit_role
+  AFTER UPDATE OF role ON profiles
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION audit_profile_role();
+
+-- API balance top-ups from AdminAPIBalancePage. target_type is the table.
+CREATE OR REPLACE FUNCTION audit_provider_balance()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM record_admin_action(
+    'provider.balance_changed',
+    TG_TABLE_NAME,
+    NEW.code,
+    jsonb_build_object('api_balance', OLD.api_balance),
+    jsonb_build_object('api_balance', NEW.api_balance)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS network_providers_audit_balance ON network_providers;
+CREATE TRIGGER network_providers_audit_balance
+  AFTER UPDATE OF api_balance ON network_providers
+  FOR EACH ROW
+  WHEN (OLD.api_balance IS DISTINCT FROM NEW.api_balance)
+  EXECUTE FUNCTION audit_provider_balance();
+
+DROP TRIGGER IF EXISTS electricity_providers_audit_balance ON electricity_providers;
+CREATE TRIGGER electricity_providers_audit_balance
+  AFTER UPDATE OF api_balance ON electricity_providers
+  FOR EACH ROW
+  WHEN (OLD.api_balance IS DISTINCT FROM NEW.api_balance)
+  EXECUTE FUNCTION audit_provider_balance();
+
+DROP TRIGGER IF EXISTS cable_providers_audit_balance ON cable_providers;
+CREATE TRIGGER cable_providers_audit_balance
+  AFTER UPDATE OF api_balance ON cable_providers
+  FOR EACH ROW
+  WHEN (OLD.api_balance IS DISTINCT FROM NEW.api_balance)
+  EXECUTE FUNCTION audit_provider_balance();
+
+-- System settings. admin_update_system_settings skips unchanged values, so
+-- every row written here is a real change.
+CREATE OR REPLACE FUNCTION audit_system_setting()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM record_admin_action(
+    'settings.changed',
+    'system_setting',
+    NEW.key,
+    CASE WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('value', OLD.value) END,
+    jsonb_build_object('value', NEW.value)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS system_settings_audit ON system_settings;
+CREATE TRIGGER system_settings_audit
+  AFTER INSERT OR UPDATE ON system_settings
+  FOR EACH ROW EXECUTE FUNCTION audit_system_setting();
+
+-- Per-service maintenance, started and ended from the system settings tab
+CREATE OR REPLACE FUNCTION audit_service_maintenance()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM record_admin_action(
+      'maintenance.ended',
+      'service_maintenance',
+      OLD.service || ':' || COALESCE(OLD.provider, 'all'),
+      to_jsonb(OLD),
+      NULL
+    );
+  ELSE
+    PERFORM record_admin_action(
+      'maintenance.started',
+      'service_maintenance',
+      NEW.service || ':' || COALESCE(NEW.provider, 'all'),
+      NULL,
+      to_jsonb(NEW)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS service_maintenance_audit ON service_maintenance;
+CREATE TRIGGER service_maintenance_audit
+  AFTER INSERT OR DELETE ON service_maintenance
+  FOR EACH ROW EXECUTE FUNCTION audit_service_maintenance();
+
+-- As before, recording the reversal. Automatic reversals (failed vends,
+-- requery) aren't admin actions and stay out of the log.
+CREATE OR REPLACE FUNCTION admin_reverse_transaction(transaction_id UUID, reason TEXT)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  original_status TEXT;
+  reversal transactions;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  SELECT t.status INTO original_status FROM transactions t WHERE t.id = admin_reverse_transaction.transaction_id;
+
+  reversal := reverse_transaction(transaction_id, reason, auth.uid());
+
+  PERFORM record_admin_action(
+    'transaction.reversed',
+    'transaction',
+    transaction_id::TEXT,
+    jsonb_build_object('status', original_status),
+    jsonb_build_object(
+      'status', 'reversed',
+      'reason', reason,
+      'amount', reversal.amount,
+      'reversal_reference', reversal.reference
+    )
+  );
+
+  RETURN reversal;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_reverse_transaction(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_reverse_transaction(UUID, TEXT) TO authenticated;
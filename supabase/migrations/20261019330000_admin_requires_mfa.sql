@@ -0,0 +1,326 @@
+-- Admin access needs the second factor. Admins must set up two-factor
+-- authentication, but until now the admin functions and policies only
+-- checked profiles.role, so a session signed in with just the password
+-- could still use them. is_admin() checks both, and every admin function
+-- and policy is redefined below to use it (unchanged otherwise). The
+-- provider-secrets function makes the same check on the JWT itself.
+
+-- Whether the caller is an admin on a session that passed its second
+-- factor. SECURITY DEFINER so policies on profiles can use it too.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_admin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+CREATE OR REPLACE FUNCTION admin_reverse_transaction(transaction_id UUID, reason TEXT)
+RETURNS transactions LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  original_status TEXT;
+  reversal transactions;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  SELECT t.status INTO original_status FROM transactions t WHERE t.id = admin_reverse_transaction.transaction_id;
+
+  reversal := reverse_transaction(transaction_id, reason, auth.uid());
+
+  PERFORM record_admin_action(
+    'transaction.reversed',
+    'transaction',
+    transaction_id::TEXT,
+    jsonb_build_object('status', original_status),
+    jsonb_build_object(
+      'status', 'reversed',
+      'reason', reason,
+      'amount', reversal.amount,
+      'reversal_reference', reversal.reference
+    )
+  );
+
+  RETURN reversal;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_stats(
+  start_date TIMESTAMPTZ DEFAULT NULL,
+  end_date TIMESTAMPTZ DEFAULT NULL,
+  bucket TEXT DEFAULT 'day'
+)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  range_start TIMESTAMPTZ := COALESCE(start_date, now() - INTERVAL '30 days');
+  range_end TIMESTAMPTZ := COALESCE(end_date, now());
+  result JSONB;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'INVALID_BUCKET';
+  END IF;
+
+  IF range_start >= range_end THEN
+    RAISE EXCEPTION 'INVALID_RANGE';
+  END IF;
+
+  WITH in_range AS (
+    SELECT *
+    FROM transactions
+    WHERE created_at >= range_start AND created_at < range_end
+  ),
+  sales AS (
+    SELECT *
+    FROM in_range
+    WHERE status = 'success' AND type IN ('airtime', 'data', 'electricity', 'cable')
+  ),
+  periods AS (
+    SELECT generate_series(
+      date_trunc(bucket, range_start),
+      date_trunc(bucket, range_end - INTERVAL '1 microsecond'),
+      ('1 ' || bucket)::INTERVAL
+    ) AS period
+  )
+  SELECT jsonb_build_object(
+    'range', jsonb_build_object('start', range_start, 'end', range_end, 'bucket', bucket),
+    'totalUsers', (SELECT count(*) FROM profiles),
+    'newUsers', (SELECT count(*) FROM profiles WHERE created_at >= range_start AND created_at < range_end),
+    'totalTransactions', (SELECT count(*) FROM in_range),
+    'totalSales', (SELECT COALESCE(sum(amount), 0) FROM sales),
+    'totalFundings', (
+      SELECT COALESCE(sum(amount), 0) FROM in_range WHERE type = 'wallet' AND status = 'success'
+    ),
+    'revenueByService', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'service', service,
+        'transactions', (SELECT count(*) FROM sales WHERE sales.type = service),
+        'amount', (SELECT COALESCE(sum(amount), 0) FROM sales WHERE sales.type = service)
+      ) ORDER BY ordinality), '[]'::jsonb)
+      FROM unnest(ARRAY['airtime', 'data', 'electricity', 'cable']) WITH ORDINALITY AS services (service, ordinality)
+    ),
+    'trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period', periods.period,
+        'transactions', (
+          SELECT count(*) FROM in_range WHERE date_trunc(bucket, in_range.created_at) = periods.period
+        ),
+        'sales', (
+          SELECT COALESCE(sum(amount), 0) FROM sales WHERE date_trunc(bucket, sales.created_at) = periods.period
+        ),
+        'fundings', (
+          SELECT COALESCE(sum(amount), 0)
+          FROM in_range
+          WHERE type = 'wallet' AND status = 'success'
+            AND date_trunc(bucket, in_range.created_at) = periods.period
+        )
+      ) ORDER BY periods.period), '[]'::jsonb)
+      FROM periods
+    ),
+    'providerBalances', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'category', category,
+        'code', code,
+        'name', name,
+        'balance', COALESCE(api_balance, 0)
+      ) ORDER BY category, name), '[]'::jsonb)
+      FROM (
+        SELECT 'network' AS category, code, name, api_balance FROM network_providers
+        UNION ALL
+        SELECT 'electricity', code, name, api_balance FROM electricity_providers
+        UNION ALL
+        SELECT 'cable', code, name, api_balance FROM cable_providers
+      ) balances
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_adjust_balance(user_uuid UUID, amount DECIMAL, reason TEXT)
+RETURNS UUID LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  RETURN post_wallet_entry(user_uuid, amount, 'adjustment', 'admin_adjustments', NULL, reason, auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reconcile_wallets()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  name TEXT,
+  stored_balance DECIMAL,
+  ledger_balance DECIMAL,
+  difference DECIMAL
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email,
+    p.name,
+    p.balance,
+    COALESCE(l.balance, 0),
+    p.balance - COALESCE(l.balance, 0)
+  FROM profiles p
+  LEFT JOIN (
+    SELECT
+      ledger_entries.user_id,
+      sum(CASE WHEN direction = 'credit' THEN amount ELSE -amount END) AS balance
+    FROM ledger_entries
+    WHERE account LIKE 'wallet:%'
+    GROUP BY ledger_entries.user_id
+  ) l ON l.user_id = p.id
+  WHERE p.balance IS DISTINCT FROM COALESCE(l.balance, 0)
+  ORDER BY abs(p.balance - COALESCE(l.balance, 0)) DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION spend_usage(user_uuid UUID)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  tier pricing_tiers;
+  spent_today DECIMAL;
+  spent_month DECIMAL;
+BEGIN
+  -- Customers may only see their own usage; the service role has no uid
+  IF auth.uid() IS NOT NULL AND auth.uid() <> user_uuid
+    AND NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  SELECT pricing_tiers.* INTO tier
+  FROM profiles
+  JOIN pricing_tiers ON pricing_tiers.code = profiles.pricing_tier
+  WHERE profiles.id = user_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE created_at >= now() - INTERVAL '1 day'), 0),
+    COALESCE(sum(amount), 0)
+  INTO spent_today, spent_month
+  FROM transactions
+  WHERE user_id = user_uuid
+    AND type IN ('airtime', 'data', 'electricity', 'cable')
+    AND status IN ('pending', 'success')
+    AND created_at >= now() - INTERVAL '30 days';
+
+  RETURN jsonb_build_object(
+    'tier', tier.code,
+    'daily', jsonb_build_object(
+      'limit', tier.daily_limit,
+      'spent', spent_today,
+      'remaining', GREATEST(tier.daily_limit - spent_today, 0)
+    ),
+    'monthly', jsonb_build_object(
+      'limit', tier.monthly_limit,
+      'spent', spent_month,
+      'remaining', GREATEST(tier.monthly_limit - spent_month, 0)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_system_settings()
+RETURNS TABLE (key TEXT, value JSONB, updated_at TIMESTAMPTZ, updated_by_name TEXT)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.key, s.value, s.updated_at, p.name
+  FROM system_settings s
+  LEFT JOIN profiles p ON p.id = s.updated_by
+  ORDER BY s.key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_update_system_settings(changes JSONB)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  change RECORD;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF changes IS NULL OR jsonb_typeof(changes) <> 'object' THEN
+    RAISE EXCEPTION 'INVALID_SETTING';
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_each(changes) LOOP
+    IF change.key NOT IN (
+      'site_name', 'maintenance_mode', 'maintenance_ends_at', 'maintenance_message', 'default_currency', 'date_format'
+    ) THEN
+      RAISE EXCEPTION 'UNKNOWN_SETTING: %', change.key;
+    END IF;
+
+    IF NOT system_setting_is_valid(change.key, change.value) THEN
+      RAISE EXCEPTION 'INVALID_SETTING: %', change.key;
+    END IF;
+
+    INSERT INTO system_settings (key, value, updated_at, updated_by)
+    VALUES (
+      change.key,
+      CASE WHEN change.key = 'site_name' THEN to_jsonb(btrim(change.value #>> '{}')) ELSE change.value END,
+      now(),
+      auth.uid()
+    )
+    ON CONFLICT (key) DO UPDATE
+    SET value = EXCLUDED.value, updated_at = now(), updated_by = auth.uid()
+    WHERE system_settings.value IS DISTINCT FROM EXCLUDED.value;
+  END LOOP;
+
+  RETURN get_system_settings();
+END;
+$$;
+
+DROP POLICY IF EXISTS "Admins can view all ledger postings" ON ledger_entries;
+CREATE POLICY "Admins can view all ledger postings"
+  ON ledger_entries FOR SELECT
+  USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage pricing tiers" ON pricing_tiers;
+CREATE POLICY "Admins can manage pricing tiers"
+  ON pricing_tiers FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage service maintenance" ON service_maintenance;
+CREATE POLICY "Admins can manage service maintenance"
+  ON service_maintenance FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view the audit log" ON admin_audit_log;
+CREATE POLICY "Admins can view the audit log"
+  ON admin_audit_log FOR SELECT
+  USING (is_admin());
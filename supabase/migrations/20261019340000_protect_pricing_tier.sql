@@ -0,0 +1,20 @@
+-- profiles.pricing_tier sets a customer's fees and spend limits, but the
+-- profiles policies let customers update their own row. Only admins (see
+-- is_admin) and the service role, which has no uid, may change it.
+CREATE OR REPLACE FUNCTION protect_profile_pricing_tier()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_pricing_tier ON profiles;
+CREATE TRIGGER profiles_protect_pricing_tier
+  BEFORE UPDATE OF pricing_tier ON profiles
+  FOR EACH ROW
+  WHEN (OLD.pricing_tier IS DISTINCT FROM NEW.pricing_tier)
+  EXECUTE FUNCTION protect_profile_pricing_tier();
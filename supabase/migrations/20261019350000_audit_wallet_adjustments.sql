@@ -0,0 +1,63 @@
+-- Two more admin actions for admin_audit_log:
+--   wallet.adjusted             a manual balance correction (admin_adjust_balance)
+--   user.pricing_tier_changed   profiles.pricing_tier
+-- reconcile_wallets only reads, so it has nothing to record.
+
+-- As before, recording the correction with the balance either side of it
+CREATE OR REPLACE FUNCTION admin_adjust_balance(user_uuid UUID, amount DECIMAL, reason TEXT)
+RETURNS UUID LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  balance_before DECIMAL;
+  journal UUID;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED';
+  END IF;
+
+  SELECT p.balance INTO balance_before FROM profiles p WHERE p.id = user_uuid FOR UPDATE;
+
+  journal := post_wallet_entry(user_uuid, amount, 'adjustment', 'admin_adjustments', NULL, reason, auth.uid());
+
+  PERFORM record_admin_action(
+    'wallet.adjusted',
+    'profile',
+    user_uuid::TEXT,
+    jsonb_build_object('balance', balance_before),
+    jsonb_build_object(
+      'balance', balance_before + amount,
+      'amount', amount,
+      'reason', reason,
+      'journal_id', journal
+    )
+  );
+
+  RETURN journal;
+END;
+$$;
+
+-- Tier changes, alongside role changes (see protect_profile_pricing_tier
+-- for who may make them)
+CREATE OR REPLACE FUNCTION audit_profile_pricing_tier()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM record_admin_action(
+    'user.pricing_tier_changed',
+    'profile',
+    NEW.id::TEXT,
+    jsonb_build_object('pricing_tier', OLD.pricing_tier, 'email', OLD.email),
+    jsonb_build_object('pricing_tier', NEW.pricing_tier, 'email', NEW.email)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_audit_pricing_tier ON profiles;
+CREATE TRIGGER profiles_audit_pricing_tier
+  AFTER UPDATE OF pricing_tier ON profiles
+  FOR EACH ROW
+  WHEN (OLD.pricing_tier IS DISTINCT FROM NEW.pricing_tier)
+  EXECUTE FUNCTION audit_profile_pricing_tier();
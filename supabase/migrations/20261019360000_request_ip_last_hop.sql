@@ -0,0 +1,11 @@
+-- request_ip took the first X-Forwarded-For entry, which is whatever the
+-- client sent. Our proxy appends the address it saw, so the last entry is
+-- the one we can trust; anything before it is unverified.
+CREATE OR REPLACE FUNCTION request_ip()
+RETURNS TEXT LANGUAGE sql STABLE AS $$
+  SELECT NULLIF(btrim(regexp_replace(COALESCE(
+    NULLIF(current_setting('request.headers', true), '')::JSON->>'x-forwarded-for',
+    NULLIF(current_setting('request.headers', true), '')::JSON->>'x-real-ip',
+    ''
+  ), '^.*,', '')), '');
+$$;
@@ -0,0 +1,32 @@
+-- Every amount (wallets, prices, provider payments) is in naira and nothing
+-- converts it, so a default_currency other than NGN only mislabelled the
+-- figures. It is limited to NGN; any other saved value is put back.
+CREATE OR REPLACE FUNCTION system_setting_is_valid(setting_key TEXT, setting_value JSONB)
+RETURNS BOOLEAN LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE setting_key
+    WHEN 'site_name' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND length(btrim(setting_value #>> '{}')) BETWEEN 1 AND 60
+    WHEN 'maintenance_mode' THEN
+      jsonb_typeof(setting_value) = 'boolean'
+    WHEN 'maintenance_ends_at' THEN
+      jsonb_typeof(setting_value) = 'null'
+      OR (
+        jsonb_typeof(setting_value) = 'string'
+        AND setting_value #>> '{}' ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}'
+      )
+    WHEN 'maintenance_message' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND length(setting_value #>> '{}') <= 200
+    WHEN 'default_currency' THEN
+      setting_value = '"NGN"'::JSONB
+    WHEN 'date_format' THEN
+      jsonb_typeof(setting_value) = 'string'
+      AND setting_value #>> '{}' IN ('DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD')
+    ELSE false
+  END;
+$$;
+
+UPDATE system_settings
+SET value = '"NGN"', updated_at = now(), updated_by = NULL
+WHERE key = 'default_currency' AND value <> '"NGN"';
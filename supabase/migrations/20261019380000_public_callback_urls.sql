@@ -0,0 +1,31 @@
+-- Callback URLs were only required to start with https://, so one could
+-- point the deliver-callbacks worker at an internal address. A URL must now
+-- name a public host: no credentials, no IP literals (including hex and
+-- short IPv4 forms), no single-label names and no localhost or .local,
+-- .localdomain or .internal names. The worker checks the same rules before
+-- each send, and also that the name doesn't resolve to a private address.
+CREATE OR REPLACE FUNCTION is_public_callback_url(url TEXT)
+RETURNS BOOLEAN LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  authority TEXT := substring(url FROM '^https://([^/?#]*)');
+  host TEXT;
+BEGIN
+  IF authority IS NULL OR position('@' IN authority) > 0 THEN
+    RETURN false;
+  END IF;
+
+  host := rtrim(lower(regexp_replace(authority, ':\d*$', '')), '.');
+
+  RETURN host <> ''
+    AND host NOT LIKE '[%'
+    AND host !~ '^(0x[0-9a-f]+|\d+)(\.(0x[0-9a-f]+|\d+))*$'
+    AND position('.' IN host) > 0
+    AND host !~ '\.(localhost|local|localdomain|internal)$';
+END;
+$$;
+
+-- NOT VALID keeps endpoints saved before this; the worker won't send to
+-- them, and they must be given a public URL before they can be changed
+ALTER TABLE callback_endpoints DROP CONSTRAINT IF EXISTS callback_endpoints_url_check;
+ALTER TABLE callback_endpoints
+  ADD CONSTRAINT callback_endpoints_url_check CHECK (is_public_callback_url(url)) NOT VALID;
@@ -0,0 +1,54 @@
+-- An API key spends from the wallet without a transaction PIN, so minting
+-- one needs the same proof as replacing the PIN: a session that signed in
+-- with its password in the last five minutes (see set_transaction_pin).
+-- Otherwise anyone with an open session could make a key and spend through
+-- the reseller API. Revoking a key grants nothing and stays as it was.
+-- Raises RECENT_LOGIN_REQUIRED.
+CREATE OR REPLACE FUNCTION create_api_key(key_name TEXT)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  plain_key TEXT;
+  new_key api_keys;
+  signed_in_at BIGINT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  SELECT max((method->>'timestamp')::BIGINT) INTO signed_in_at
+  FROM jsonb_array_elements(COALESCE(auth.jwt()->'amr', '[]'::JSONB)) AS method
+  WHERE method->>'method' = 'password';
+
+  IF signed_in_at IS NULL OR signed_in_at < extract(epoch FROM now()) - 300 THEN
+    RAISE EXCEPTION 'RECENT_LOGIN_REQUIRED';
+  END IF;
+
+  IF key_name IS NULL OR length(trim(key_name)) = 0 THEN
+    RAISE EXCEPTION 'INVALID_NAME';
+  END IF;
+
+  IF (SELECT count(*) FROM api_keys WHERE user_id = auth.uid() AND revoked_at IS NULL) >= 10 THEN
+    RAISE EXCEPTION 'TOO_MANY_KEYS';
+  END IF;
+
+  -- 64 hex characters from two random UUIDs (244 random bits)
+  plain_key := 'vtu_' || replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+  VALUES (
+    auth.uid(),
+    trim(key_name),
+    left(plain_key, 12),
+    encode(sha256(convert_to(plain_key, 'UTF8')), 'hex')
+  )
+  RETURNING * INTO new_key;
+
+  RETURN jsonb_build_object(
+    'id', new_key.id,
+    'name', new_key.name,
+    'key', plain_key,
+    'key_prefix', new_key.key_prefix,
+    'created_at', new_key.created_at
+  );
+END;
+$$;
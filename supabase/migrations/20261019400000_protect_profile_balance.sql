@@ -0,0 +1,76 @@
+-- post_wallet_entry is meant to be the only code that changes
+-- profiles.balance, but the profiles policies let customers update their
+-- own row, balance included, and reconcile_wallets would only report it
+-- afterwards. The trigger below rejects any balance change that doesn't come
+-- through post_wallet_entry, which marks its own update with a
+-- transaction-local setting. This holds for the service role too, so every
+-- change still gets its ledger postings.
+
+-- As before, marking its balance update
+CREATE OR REPLACE FUNCTION post_wallet_entry(
+  user_uuid UUID,
+  entry_amount DECIMAL,
+  entry_type TEXT,
+  counter_account TEXT,
+  entry_transaction_id UUID DEFAULT NULL,
+  entry_description TEXT DEFAULT NULL,
+  entry_created_by UUID DEFAULT NULL
+)
+RETURNS UUID LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  journal UUID := gen_random_uuid();
+BEGIN
+  IF entry_amount IS NULL OR entry_amount = 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  -- Lets this update past protect_profile_balance, for this statement only
+  PERFORM set_config('wallet.posting', 'on', true);
+
+  UPDATE profiles
+  SET balance = balance + entry_amount
+  WHERE id = user_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  PERFORM set_config('wallet.posting', 'off', true);
+
+  INSERT INTO ledger_entries (
+    journal_id, account, user_id, direction, amount, entry_type,
+    transaction_id, description, created_by
+  )
+  VALUES
+    (
+      journal, 'wallet:' || user_uuid, user_uuid,
+      CASE WHEN entry_amount > 0 THEN 'credit' ELSE 'debit' END,
+      abs(entry_amount), entry_type, entry_transaction_id, entry_description, entry_created_by
+    ),
+    (
+      journal, counter_account, NULL,
+      CASE WHEN entry_amount > 0 THEN 'debit' ELSE 'credit' END,
+      abs(entry_amount), entry_type, entry_transaction_id, entry_description, entry_created_by
+    );
+
+  RETURN journal;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION protect_profile_balance()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  IF current_setting('wallet.posting', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'BALANCE_READ_ONLY';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_balance ON profiles;
+CREATE TRIGGER profiles_protect_balance
+  BEFORE UPDATE OF balance ON profiles
+  FOR EACH ROW
+  WHEN (OLD.balance IS DISTINCT FROM NEW.balance)
+  EXECUTE FUNCTION protect_profile_balance();
@@ -0,0 +1,21 @@
+-- profiles.role decides who is an admin (see is_admin), but the profiles
+-- policies let customers update their own row, role included. Only admins
+-- and the service role, which has no uid, may change it; the first admin is
+-- made from the service role or SQL.
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_role ON profiles;
+CREATE TRIGGER profiles_protect_role
+  BEFORE UPDATE OF role ON profiles
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION protect_profile_role();
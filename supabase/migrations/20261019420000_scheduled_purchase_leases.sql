@@ -0,0 +1,10 @@
+-- The scheduled-purchases worker used to claim an occurrence by moving
+-- last_run_at, which made the trigger advance next_run_at straight away,
+-- so a run that died before recording its result lost that occurrence. It
+-- now claims with a lease instead: claimed_until hides the schedule from
+-- overlapping runs, and next_run_at only advances when the result is
+-- recorded. A run that dies leaves the occurrence due once the lease runs
+-- out, and the retry reuses its reference, so it replays rather than buying
+-- twice. Only the worker (service role) writes it.
+ALTER TABLE scheduled_purchases
+  ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMPTZ;
@@ -0,0 +1,118 @@
+-- admin_stats cut its trend periods at UTC midnight (01:00 in Lagos) and
+-- summed each period with its own subqueries over the whole range, which
+-- grows with periods x rows. Periods are now Lagos days, weeks and months,
+-- the trend comes from one grouped pass joined to the periods, and a range
+-- may cover at most 366 of them (a year of days). Each period is returned
+-- as the instant it starts. Raises RANGE_TOO_LARGE beyond that.
+CREATE OR REPLACE FUNCTION admin_stats(
+  start_date TIMESTAMPTZ DEFAULT NULL,
+  end_date TIMESTAMPTZ DEFAULT NULL,
+  bucket TEXT DEFAULT 'day'
+)
+RETURNS JSONB LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  range_start TIMESTAMPTZ := COALESCE(start_date, now() - INTERVAL '30 days');
+  range_end TIMESTAMPTZ := COALESCE(end_date, now());
+  max_periods CONSTANT INTEGER := 366;
+  first_period TIMESTAMP;
+  last_period TIMESTAMP;
+  result JSONB;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED';
+  END IF;
+
+  IF bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'INVALID_BUCKET';
+  END IF;
+
+  IF range_start >= range_end THEN
+    RAISE EXCEPTION 'INVALID_RANGE';
+  END IF;
+
+  -- Periods are Lagos days, weeks and months, not UTC ones
+  first_period := date_trunc(bucket, range_start AT TIME ZONE 'Africa/Lagos');
+  last_period := date_trunc(bucket, (range_end - INTERVAL '1 microsecond') AT TIME ZONE 'Africa/Lagos');
+
+  IF CASE bucket
+    WHEN 'month' THEN
+      (extract(year FROM last_period) - extract(year FROM first_period)) * 12
+        + extract(month FROM last_period) - extract(month FROM first_period) + 1
+    ELSE
+      extract(epoch FROM last_period - first_period) / extract(epoch FROM ('1 ' || bucket)::INTERVAL) + 1
+  END > max_periods THEN
+    RAISE EXCEPTION 'RANGE_TOO_LARGE';
+  END IF;
+
+  WITH in_range AS (
+    SELECT *
+    FROM transactions
+    WHERE created_at >= range_start AND created_at < range_end
+  ),
+  sales AS (
+    SELECT *
+    FROM in_range
+    WHERE status = 'success' AND type IN ('airtime', 'data', 'electricity', 'cable')
+  ),
+  periods AS (
+    SELECT generate_series(first_period, last_period, ('1 ' || bucket)::INTERVAL) AS period
+  ),
+  -- One pass over the range for the whole trend
+  period_totals AS (
+    SELECT
+      date_trunc(bucket, created_at AT TIME ZONE 'Africa/Lagos') AS period,
+      count(*) AS transactions,
+      COALESCE(sum(amount) FILTER (
+        WHERE status = 'success' AND type IN ('airtime', 'data', 'electricity', 'cable')
+      ), 0) AS sales,
+      COALESCE(sum(amount) FILTER (WHERE type = 'wallet' AND status = 'success'), 0) AS fundings
+    FROM in_range
+    GROUP BY 1
+  )
+  SELECT jsonb_build_object(
+    'range', jsonb_build_object('start', range_start, 'end', range_end, 'bucket', bucket),
+    'totalUsers', (SELECT count(*) FROM profiles),
+    'newUsers', (SELECT count(*) FROM profiles WHERE created_at >= range_start AND created_at < range_end),
+    'totalTransactions', (SELECT count(*) FROM in_range),
+    'totalSales', (SELECT COALESCE(sum(amount), 0) FROM sales),
+    'totalFundings', (
+      SELECT COALESCE(sum(amount), 0) FROM in_range WHERE type = 'wallet' AND status = 'success'
+    ),
+    'revenueByService', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'service', service,
+        'transactions', (SELECT count(*) FROM sales WHERE sales.type = service),
+        'amount', (SELECT COALESCE(sum(amount), 0) FROM sales WHERE sales.type = service)
+      ) ORDER BY ordinality), '[]'::jsonb)
+      FROM unnest(ARRAY['airtime', 'data', 'electricity', 'cable']) WITH ORDINALITY AS services (service, ordinality)
+    ),
+    'trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'period', periods.period AT TIME ZONE 'Africa/Lagos',
+        'transactions', COALESCE(period_totals.transactions, 0),
+        'sales', COALESCE(period_totals.sales, 0),
+        'fundings', COALESCE(period_totals.fundings, 0)
+      ) ORDER BY periods.period), '[]'::jsonb)
+      FROM periods
+      LEFT JOIN period_totals ON period_totals.period = periods.period
+    ),
+    'providerBalances', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'category', category,
+        'code', code,
+        'name', name,
+        'balance', COALESCE(api_balance, 0)
+      ) ORDER BY category, name), '[]'::jsonb)
+      FROM (
+        SELECT 'network' AS category, code, name, api_balance FROM network_providers
+        UNION ALL
+        SELECT 'electricity', code, name, api_balance FROM electricity_providers
+        UNION ALL
+        SELECT 'cable', code, name, api_balance FROM cable_providers
+      ) balances
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
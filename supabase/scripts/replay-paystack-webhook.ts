@@ -0,0 +1,53 @@
+// Replay a Paystack webhook fixture against a locally served paystack-webhook
+// function, signed the way Paystack signs it.
+//
+//   supabase functions serve paystack-webhook --env-file supabase/.env.local
+//   PAYSTACK_SECRET_KEY=sk_test_xxx deno run --allow-env --allow-read --allow-net \
+//     supabase/scripts/replay-paystack-webhook.ts supabase/fixtures/paystack/charge.success.json \
+//     [--reference <reference>] [--amount <naira>] [--bad-signature]
+//
+// --reference and --amount point the fixture at a pending wallet transaction
+// created by the paystack function; --bad-signature checks that tampered
+// deliveries are rejected. PAYSTACK_SECRET_KEY must be the key the function
+// uses: the one saved under API Configuration, if any, else its env.
+import { signPaystackPayload } from "../functions/_shared/paystack.ts";
+
+const WEBHOOK_URL = Deno.env.get("WEBHOOK_URL") ??
+  "http://localhost:54321/functions/v1/paystack-webhook";
+const PAYSTACK_SECRET_KEY = Deno.env.get("PAYSTACK_SECRET_KEY");
+
+const [fixturePath, ...flags] = Deno.args;
+if (!fixturePath || !PAYSTACK_SECRET_KEY) {
+  console.error("Usage: PAYSTACK_SECRET_KEY=... replay-paystack-webhook.ts <fixture.json> [--reference ref] [--amount naira] [--bad-signature]");
+  Deno.exit(1);
+}
+
+const flagValue = (name: string) => {
+  const index = flags.indexOf(name);
+  return index === -1 ? undefined : flags[index + 1];
+};
+
+const event = JSON.parse(await Deno.readTextFile(fixturePath));
+
+const reference = flagValue("--reference");
+if (reference) event.data.reference = reference;
+
+const amount = flagValue("--amount");
+if (amount) event.data.amount = Math.round(Number(amount) * 100);
+
+const payload = JSON.stringify(event);
+let signature = await signPaystackPayload(PAYSTACK_SECRET_KEY, payload);
+if (flags.includes("--bad-signature")) {
+  signature = signature.replace(/^./, (c) => (c === "0" ? "1" : "0"));
+}
+
+const response = await fetch(WEBHOOK_URL, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "x-paystack-signature": signature,
+  },
+  body: payload,
+});
+
+console.log(response.status, await response.text());